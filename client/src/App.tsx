@@ -1,41 +1,158 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef } from 'react'
 import axios from 'axios'
-import FileUpload from './components/FileUpload'
+import FileUpload, { type ReconcileSubmission } from './components/FileUpload'
+import SessionList from './components/SessionList'
+import OutstandingItems from './components/OutstandingItems'
+import LearnedRules from './components/LearnedRules'
+import JobProgress from './components/JobProgress'
+import { RowIssues } from './components/ColumnMapping'
+import { apiBase, apiUrl, type DuplicateDecision, type DuplicateGroup, type JobProgress as Progress, type ProvisionalMatch, type ReviewDecision, type ExceptionReason, type UnmatchedException, type CarriedItem, type AmbiguousMatch, type LlmCandidate, type MatchRecord, type ReconcileResponse } from './api'
 import './App.css'
 import { CheckCircleIcon, ExclamationCircleIcon } from '@heroicons/react/24/outline'
 
-interface ReconcileResult {
-  matched: any[]
-  unmatchedA: any[]
-  unmatchedB: any[]
-  [key: string]: any
+const EXCEPTION_LABELS: Record<ExceptionReason, string> = {
+  no_candidates: 'No candidates',
+  below_threshold: 'Below threshold',
+  candidate_taken: 'Candidate taken',
+  ambiguous: 'Ambiguous',
+  currency_mismatch: 'Currency mismatch',
+  parse_error: 'Parse error',
+  llm_failure: 'LLM failure',
+  reviewer_unmatched: 'Unmatched by reviewer',
 }
 
-const apiUrl = import.meta.env.VITE_API_URL;
+type ExceptionSort = 'row' | 'age_desc' | 'age_asc' | 'confidence_desc'
+
+interface ReconcileResult extends ReconcileResponse {
+  matched: MatchRecord[]
+  unmatchedA: Record<string, unknown>[]
+  unmatchedB: Record<string, unknown>[]
+}
 
 function App() {
   const [result, setResult] = useState<ReconcileResult | null>(null)
-  const [rawJson, setRawJson] = useState<any>(null)
+  const [rawJson, setRawJson] = useState<ReconcileResponse | null>(null)
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [success, setSuccess] = useState<string | null>(null)
-  const [tab, setTab] = useState<'matched' | 'unmatchedA' | 'unmatchedB' | 'review' | 'llmCandidates' | 'rawJson'>('matched')
-  const [reviewed, setReviewed] = useState<{ [key: number]: 'confirmed' | 'rejected' | undefined }>({})
+  const [tab, setTab] = useState<'matched' | 'unmatchedA' | 'unmatchedB' | 'ambiguous' | 'duplicates' | 'review' | 'llmCandidates' | 'rawJson'>('matched')
+  // Review decisions are persisted per session, keyed by match id
+  const [sessionId, setSessionId] = useState<string | null>(null)
+  const [decisions, setDecisions] = useState<Record<string, ReviewDecision>>({})
+  const [duplicateDecisions, setDuplicateDecisions] = useState<Record<string, DuplicateDecision>>({})
+  const [sessionsVersion, setSessionsVersion] = useState(0)
+  // Manual pairing: selected original row indices, kept across the unmatched tabs
+  const [selectedA, setSelectedA] = useState<number[]>([])
+  const [selectedB, setSelectedB] = useState<number[]>([])
+  const [pairNote, setPairNote] = useState('')
+  const [unmatchId, setUnmatchId] = useState<string | null>(null)
+  const [unmatchNote, setUnmatchNote] = useState('')
+  // Unmatched tabs: filter by exception reason, sort by age or near-miss confidence
+  const [exceptionFilter, setExceptionFilter] = useState<ExceptionReason | ''>('')
+  const [exceptionSort, setExceptionSort] = useState<ExceptionSort>('row')
+  // Live progress of the running background job
+  const [jobId, setJobId] = useState<string | null>(null)
+  const [progress, setProgress] = useState<Progress | null>(null)
+  const [provisional, setProvisional] = useState<ProvisionalMatch[]>([])
+  const [cancelling, setCancelling] = useState(false)
+  const eventsRef = useRef<EventSource | null>(null)
+
+  // Close the progress stream when the app unmounts
+  useEffect(() => () => eventsRef.current?.close(), [])
 
   // Pagination state
   const [page, setPage] = useState(1);
   const rowsPerPage = 10;
 
   // Reset page on tab change
-  useEffect(() => { setPage(1); }, [tab, result]);
+  useEffect(() => { setPage(1); }, [tab, result, exceptionFilter, exceptionSort]);
+  // The other file's tab may not have the filtered reason
+  useEffect(() => { setExceptionFilter(''); }, [tab]);
 
   // Pagination helper
-  const paginate = (rows: any[]) => {
+  const paginate = <T,>(rows: T[]): T[] => {
     const start = (page - 1) * rowsPerPage;
     return rows.slice(start, start + rowsPerPage);
   };
 
-  const handleSubmit = async ({ fileA, fileB }: { fileA: File; fileB: File }) => {
+  const showResult = (data: ReconcileResponse) => {
+    setRawJson(data)
+    setResult({
+      matched: data.matches || [],
+      unmatchedA: data.unmatched_file_a_entries || [],
+      unmatchedB: data.unmatched_file_b_entries || [],
+      ...data,
+    })
+    setSelectedA([])
+    setSelectedB([])
+    setPairNote('')
+    setUnmatchId(null)
+    setUnmatchNote('')
+  }
+
+  // Replace the result with a session's updated state after a manual edit
+  const applySession = (session: { id: string; result: ReconcileResponse; decisions?: Record<string, ReviewDecision>; duplicate_decisions?: Record<string, DuplicateDecision> }) => {
+    showResult({ ...session.result, session_id: session.id })
+    setDecisions(session.decisions || {})
+    setDuplicateDecisions(session.duplicate_decisions || {})
+    setSessionsVersion(v => v + 1)
+  }
+
+  const toggleSelected = (side: 'A' | 'B', idx: number) => {
+    const set = side === 'A' ? setSelectedA : setSelectedB
+    set(prev => (prev.includes(idx) ? prev.filter(x => x !== idx) : [...prev, idx]))
+  }
+
+  const handleCreateMatch = async () => {
+    if (!sessionId) return
+    setError(null)
+    try {
+      const response = await axios.post(`${apiBase}/sessions/${sessionId}/matches`, {
+        file_a_indices: selectedA,
+        file_b_indices: selectedB,
+        note: pairNote,
+      })
+      applySession(response.data)
+      setSuccess('Manual match created.')
+    } catch (err: unknown) {
+      const e = err as { response?: { data?: { error?: string } }; message?: string }
+      setError(e.response?.data?.error || e.message || 'Could not create match.')
+    }
+  }
+
+  const handleUnmatch = async (matchId: string) => {
+    if (!sessionId) return
+    setError(null)
+    try {
+      const response = await axios.post(`${apiBase}/sessions/${sessionId}/matches/${encodeURIComponent(matchId)}/unmatch`, { note: unmatchNote })
+      applySession(response.data)
+      setSuccess('Match removed; rows returned to the unmatched lists.')
+    } catch (err: unknown) {
+      const e = err as { response?: { data?: { error?: string } }; message?: string }
+      setError(e.response?.data?.error || e.message || 'Could not unmatch.')
+    }
+  }
+
+  const openSession = async (id: string) => {
+    setLoading(true)
+    setError(null)
+    setSuccess(null)
+    try {
+      const response = await axios.get(`${apiBase}/sessions/${id}`)
+      showResult({ ...response.data.result, session_id: id })
+      setSessionId(id)
+      setDecisions(response.data.decisions || {})
+      setDuplicateDecisions(response.data.duplicate_decisions || {})
+      setSuccess(`Resumed session: ${response.data.name}`)
+    } catch (err: unknown) {
+      const e = err as { response?: { data?: { error?: string } }; message?: string }
+      setError(e.response?.data?.error || e.message || 'Could not open session.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  const handleSubmit = async ({ fileA, fileB, mappingA, mappingB, importA, importB, config, engine, bypassCache, fxRates, account, period }: ReconcileSubmission) => {
     setLoading(true)
     setError(null)
     setSuccess(null)
@@ -48,24 +165,91 @@ function App() {
       const formData = new FormData()
       formData.append('fileA', fileA)
       formData.append('fileB', fileB)
-      const response = await axios.post(apiUrl, formData, {
+      formData.append('mappingA', JSON.stringify(mappingA))
+      formData.append('mappingB', JSON.stringify(mappingB))
+      formData.append('importA', JSON.stringify(importA))
+      formData.append('importB', JSON.stringify(importB))
+      formData.append('config', JSON.stringify(config))
+      if (engine) formData.append('engine', engine)
+      if (bypassCache) formData.append('bypassCache', 'true')
+      if (fxRates) formData.append('fxRates', fxRates)
+      if (account) {
+        formData.append('account', account)
+        formData.append('period', period)
+      }
+      // Run as a background job and follow its progress stream
+      const response = await axios.post(`${apiBase}/jobs`, formData, {
         headers: { 'Content-Type': 'multipart/form-data' },
       })
-      setRawJson(response.data)
-      setResult({
-        matched: response.data.matches || [],
-        unmatchedA: response.data.unmatched_file_a_entries || [],
-        unmatchedB: response.data.unmatched_file_b_entries || [],
-        ...response.data,
-      })
-      setSuccess('Reconciliation complete!')
-    } catch (err: any) {
-      setError(err?.response?.data?.message || err.message || 'API request failed.')
-    } finally {
+      followJob(response.data.id)
+    } catch (err: unknown) {
+      const data = axios.isAxiosError(err) ? err.response?.data : undefined
+      setError(data?.error || data?.message || (err instanceof Error ? err.message : '') || 'API request failed.')
       setLoading(false)
     }
   }
 
+  const followJob = (id: string) => {
+    setJobId(id)
+    setProgress(null)
+    setProvisional([])
+    setCancelling(false)
+    eventsRef.current?.close()
+    const events = new EventSource(`${apiBase}/jobs/${id}/events`)
+    eventsRef.current = events
+    const parse = (e: Event) => JSON.parse((e as MessageEvent).data)
+    events.addEventListener('progress', e => setProgress(parse(e)))
+    events.addEventListener('match', e => setProvisional(prev => [...prev, parse(e)]))
+    events.addEventListener('failure', e => setError(parse(e).message))
+    events.addEventListener('done', async e => {
+      events.close()
+      eventsRef.current = null
+      const job = parse(e)
+      try {
+        if (job.status === 'completed') {
+          const response = await axios.get(`${apiBase}/jobs/${id}/result`)
+          showResult(response.data)
+          setSessionId(response.data.session_id ?? null)
+          setDecisions({})
+          setDuplicateDecisions({})
+          setSessionsVersion(v => v + 1)
+          setSuccess('Reconciliation complete!')
+        } else if (job.status === 'cancelled') {
+          setError(null)
+          setSuccess('Reconciliation cancelled.')
+        } else if (job.status === 'failed') {
+          setError(job.error || 'Reconciliation failed.')
+        }
+      } catch (err: unknown) {
+        const ex = err as { response?: { data?: { error?: string } }; message?: string }
+        setError(ex.response?.data?.error || ex.message || 'Could not load the result.')
+      } finally {
+        setJobId(null)
+        setLoading(false)
+      }
+    })
+    // The browser reconnects on its own; give up only once the stream is closed for good
+    events.onerror = () => {
+      if (events.readyState === EventSource.CLOSED) {
+        setError('Lost connection to the progress stream.')
+        setJobId(null)
+        setLoading(false)
+      }
+    }
+  }
+
+  const handleCancel = async () => {
+    if (!jobId) return
+    setCancelling(true)
+    try {
+      await axios.post(`${apiBase}/jobs/${jobId}/cancel`)
+    } catch (err: unknown) {
+      const e = err as { response?: { data?: { error?: string } }; message?: string }
+      setError(e.response?.data?.error || e.message || 'Could not cancel.')
+      setCancelling(false)
+    }
+  }
+
   // Metadata extraction helper
   const getMeta = () => {
     if (!result) return null
@@ -73,15 +257,16 @@ function App() {
       { label: 'Matched Transactions', value: result.matched?.length ?? 0, icon: <CheckCircleIcon className="w-5 h-5 text-green-500 inline-block mr-1" /> },
       { label: 'Unmatched in File A', value: result.unmatchedA?.length ?? 0, icon: <ExclamationCircleIcon className="w-5 h-5 text-yellow-500 inline-block mr-1" /> },
       { label: 'Unmatched in File B', value: result.unmatchedB?.length ?? 0, icon: <ExclamationCircleIcon className="w-5 h-5 text-yellow-500 inline-block mr-1" /> },
+      { label: 'Ambiguous', value: result.ambiguous_matches?.length ?? 0, icon: <ExclamationCircleIcon className="w-5 h-5 text-orange-500 inline-block mr-1" /> },
     ]
   }
 
-  const renderTable = (rows: any[], type: 'matched' | 'unmatchedA' | 'unmatchedB') => {
+  const renderTable = (rows: MatchRecord[] | Record<string, unknown>[], type: 'matched' | 'unmatchedA' | 'unmatchedB') => {
     if (!rows || rows.length === 0) {
       return <div className="text-gray-500 text-center py-8">No records found.</div>
     }
-    const pagedRows = paginate(rows);
     if (type === 'matched') {
+      const pagedRows = paginate(rows as MatchRecord[]);
       return (
         <div className="overflow-x-auto">
           <table className="min-w-full bg-white rounded shadow text-xs md:text-sm">
@@ -91,16 +276,17 @@ function App() {
                 <th className="px-2 py-2 border-b">File B</th>
                 <th className="px-2 py-2 border-b">Confidence</th>
                 <th className="px-2 py-2 border-b">Reason</th>
+                {sessionId && <th className="px-2 py-2 border-b">Action</th>}
               </tr>
             </thead>
             <tbody>
               {pagedRows.map((row, i) => (
-                <tr key={i} className="hover:bg-blue-50">
+                <tr key={row.id ?? i} className="hover:bg-blue-50">
                   <td className="px-2 py-2 border-b align-top whitespace-pre-wrap">
                     {row.file_a_entry ? (
                       <pre className="bg-gray-50 rounded p-2 text-xs whitespace-pre-wrap">{JSON.stringify(row.file_a_entry, null, 2)}</pre>
                     ) : row.file_a_entries ? (
-                      row.file_a_entries.map((entry: any, idx: number) => (
+                      row.file_a_entries.map((entry, idx) => (
                         <pre key={idx} className="bg-gray-50 rounded p-2 mb-1 text-xs whitespace-pre-wrap">{JSON.stringify(entry, null, 2)}</pre>
                       ))
                     ) : null}
@@ -109,7 +295,7 @@ function App() {
                     {row.file_b_entry ? (
                       <pre className="bg-gray-50 rounded p-2 text-xs whitespace-pre-wrap">{JSON.stringify(row.file_b_entry, null, 2)}</pre>
                     ) : row.file_b_entries ? (
-                      row.file_b_entries.map((entry: any, idx: number) => (
+                      row.file_b_entries.map((entry, idx) => (
                         <pre key={idx} className="bg-gray-50 rounded p-2 mb-1 text-xs whitespace-pre-wrap">{JSON.stringify(entry, null, 2)}</pre>
                       ))
                     ) : null}
@@ -123,7 +309,33 @@ function App() {
                       </span>
                     ) : '-'}
                   </td>
-                  <td className="px-2 py-2 border-b align-top text-xs">{row.match_reason}</td>
+                  <td className="px-2 py-2 border-b align-top text-xs">
+                    {row.manual && <span className="inline-block bg-blue-100 text-blue-800 rounded px-1 mr-1 font-semibold">Manual</span>}
+                    {row.match_reason}
+                    {row.model && <div className="text-gray-500">{row.provider} · {row.model}</div>}
+                  </td>
+                  {sessionId && (
+                    <td className="px-2 py-2 border-b align-top text-center">
+                      {unmatchId === row.id ? (
+                        <div className="flex flex-col gap-1 items-stretch">
+                          <input
+                            type="text"
+                            className="border border-gray-300 rounded px-2 py-1 text-xs"
+                            placeholder="Reason (required)"
+                            value={unmatchNote}
+                            onChange={e => setUnmatchNote(e.target.value)}
+                            autoFocus
+                          />
+                          <div className="flex gap-1 justify-center">
+                            <button className="bg-red-100 hover:bg-red-200 text-red-800 px-2 py-1 rounded text-xs font-semibold disabled:opacity-50" onClick={() => handleUnmatch(row.id)} disabled={!unmatchNote.trim()}>Unmatch</button>
+                            <button className="bg-gray-100 hover:bg-gray-200 text-gray-800 px-2 py-1 rounded text-xs" onClick={() => { setUnmatchId(null); setUnmatchNote(''); }}>Cancel</button>
+                          </div>
+                        </div>
+                      ) : (
+                        <button className="bg-red-100 hover:bg-red-200 text-red-800 px-2 py-1 rounded text-xs font-semibold" onClick={() => { setUnmatchId(row.id); setUnmatchNote(''); }}>Unmatch</button>
+                      )}
+                    </td>
+                  )}
                 </tr>
               ))}
             </tbody>
@@ -138,30 +350,119 @@ function App() {
         </div>
       )
     } else {
+      // Original row indices, parallel to the unmatched entries
+      const side = type === 'unmatchedA' ? 'A' : 'B'
+      const otherSide = side === 'A' ? 'B' : 'A'
+      const indices: number[] = (side === 'A' ? result?.unmatched_file_a_indices : result?.unmatched_file_b_indices) || []
+      const exceptions: Record<number, UnmatchedException> = (side === 'A' ? result?.unmatched_file_a_exceptions : result?.unmatched_file_b_exceptions) || {}
+      // Rows carried in from the account's prior period
+      const carried: Record<number, CarriedItem> = result?.carry_forward?.[side === 'A' ? 'file_a' : 'file_b'] || {}
+      const selected = side === 'A' ? selectedA : selectedB
+      const items = (rows as Record<string, unknown>[]).map((row, k) => ({ row, index: indices[k], exception: exceptions[indices[k]] as UnmatchedException | undefined }))
+      const reasons = [...new Set(items.map(item => item.exception?.reason).filter((r): r is ExceptionReason => !!r))]
+      // Rows without an age or near miss sort last, then by row
+      const sortValue = (item: typeof items[number]): number | null | undefined =>
+        exceptionSort === 'confidence_desc' ? item.exception?.near_miss?.confidence : item.exception?.age_days
+      const compare = (x: typeof items[number], y: typeof items[number]): number => {
+        const byRow = (x.index ?? 0) - (y.index ?? 0)
+        if (exceptionSort === 'row') return byRow
+        const [a, b] = [sortValue(x), sortValue(y)]
+        if (a == null || b == null) return a == null && b == null ? byRow : a == null ? 1 : -1
+        return (exceptionSort === 'age_asc' ? a - b : b - a) || byRow
+      }
+      const shown = items
+        .filter(item => !exceptionFilter || item.exception?.reason === exceptionFilter)
+        .sort(compare)
+      const pagedItems = paginate(shown)
+      const pages = Math.ceil(shown.length / rowsPerPage)
       // unmatchedA or unmatchedB
       return (
         <div className="overflow-x-auto">
+          <div className="flex flex-wrap items-center gap-3 mb-2 text-xs text-gray-700">
+            <label className="flex items-center gap-1">
+              Exception
+              <select className="border border-gray-300 rounded px-2 py-1" value={exceptionFilter} onChange={e => setExceptionFilter(e.target.value as ExceptionReason | '')}>
+                <option value="">All ({items.length})</option>
+                {reasons.map(reason => (
+                  <option key={reason} value={reason}>
+                    {EXCEPTION_LABELS[reason] ?? reason} ({items.filter(item => item.exception?.reason === reason).length})
+                  </option>
+                ))}
+              </select>
+            </label>
+            <label className="flex items-center gap-1">
+              Sort by
+              <select className="border border-gray-300 rounded px-2 py-1" value={exceptionSort} onChange={e => setExceptionSort(e.target.value as ExceptionSort)}>
+                <option value="row">Row order</option>
+                <option value="age_desc">Oldest first</option>
+                <option value="age_asc">Newest first</option>
+                <option value="confidence_desc">Closest near miss first</option>
+              </select>
+            </label>
+            {result?.statement_end_date && <span className="text-gray-500">Aged at {result.statement_end_date}</span>}
+          </div>
           <table className="min-w-full bg-white rounded shadow text-xs md:text-sm">
             <thead>
               <tr>
+                {sessionId && <th className="px-2 py-2 border-b">Pair</th>}
                 <th className="px-2 py-2 border-b">Transaction</th>
+                <th className="px-2 py-2 border-b">Exception</th>
+                <th className="px-2 py-2 border-b">Near miss</th>
+                <th className="px-2 py-2 border-b">Age (days)</th>
               </tr>
             </thead>
             <tbody>
-              {pagedRows.map((row, i) => (
-                <tr key={i} className="hover:bg-yellow-50">
+              {pagedItems.map(({ row, index, exception }, i) => (
+                <tr key={index ?? i} className="hover:bg-yellow-50">
+                  {sessionId && (
+                    <td className="px-2 py-2 border-b align-top text-center">
+                      {index != null && (
+                        <input
+                          type="checkbox"
+                          checked={selected.includes(index)}
+                          onChange={() => toggleSelected(side, index)}
+                          aria-label={`Select File ${side} row ${index}`}
+                        />
+                      )}
+                    </td>
+                  )}
                   <td className="px-2 py-2 border-b align-top whitespace-pre-wrap">
+                    {index != null && carried[index] && (
+                      <span className="inline-block bg-blue-100 text-blue-800 rounded px-1 mb-1 text-xs font-semibold">Open since {carried[index].opened_period}</span>
+                    )}
                     <pre className="bg-gray-50 rounded p-2 text-xs whitespace-pre-wrap">{JSON.stringify(row, null, 2)}</pre>
                   </td>
+                  <td className="px-2 py-2 border-b align-top text-xs">
+                    {exception ? (
+                      <>
+                        <span className="inline-block bg-yellow-100 text-yellow-800 rounded px-1 mb-1 font-semibold">{EXCEPTION_LABELS[exception.reason] ?? exception.reason}</span>
+                        <div>{exception.detail}</div>
+                      </>
+                    ) : '-'}
+                  </td>
+                  <td className="px-2 py-2 border-b align-top text-xs">
+                    {exception?.near_miss ? (
+                      <>
+                        <div className="font-semibold">
+                          File {otherSide} row {exception.near_miss.index}
+                          {exception.near_miss.confidence != null && ` · ${exception.near_miss.confidence}`}
+                        </div>
+                        <div className="text-gray-600">{exception.near_miss.reason}</div>
+                        <pre className="bg-gray-50 rounded p-2 mt-1 text-xs whitespace-pre-wrap">{JSON.stringify(exception.near_miss.entry, null, 2)}</pre>
+                      </>
+                    ) : '-'}
+                  </td>
+                  <td className="px-2 py-2 border-b align-top text-center">{exception?.age_days ?? '-'}</td>
                 </tr>
               ))}
             </tbody>
           </table>
-          {rows.length > rowsPerPage && (
+          {shown.length === 0 && <div className="text-gray-500 text-center py-4">No rows with this exception.</div>}
+          {shown.length > rowsPerPage && (
             <div className="flex justify-center items-center gap-2 mt-2">
               <button onClick={() => setPage(p => Math.max(1, p - 1))} disabled={page === 1} className="px-2 py-1 rounded bg-gray-200 disabled:opacity-50">Prev</button>
-              <span className="text-xs text-gray-700">Page {page} of {Math.ceil(rows.length / rowsPerPage)}</span>
-              <button onClick={() => setPage(p => Math.min(Math.ceil(rows.length / rowsPerPage), p + 1))} disabled={page === Math.ceil(rows.length / rowsPerPage)} className="px-2 py-1 rounded bg-gray-200 disabled:opacity-50">Next</button>
+              <span className="text-xs text-gray-700">Page {page} of {pages}</span>
+              <button onClick={() => setPage(p => Math.min(pages, p + 1))} disabled={page === pages} className="px-2 py-1 rounded bg-gray-200 disabled:opacity-50">Next</button>
             </div>
           )}
         </div>
@@ -169,11 +470,113 @@ function App() {
     }
   }
 
-  const handleReview = (idx: number, action: 'confirmed' | 'rejected') => {
-    setReviewed(prev => ({ ...prev, [idx]: action }));
+  const handleReview = async (matchId: string, action: 'confirmed' | 'rejected') => {
+    const previous = decisions[matchId];
+    setDecisions(prev => ({ ...prev, [matchId]: { match_id: matchId, action, decided_at: new Date().toISOString() } }));
+    if (!sessionId) return;
+    try {
+      const response = await axios.post(`${apiBase}/sessions/${sessionId}/decisions`, { match_id: matchId, action });
+      setDecisions(response.data.decisions || {});
+      setSessionsVersion(v => v + 1);
+    } catch (err: unknown) {
+      // Roll back the optimistic update so the row can be reviewed again
+      setDecisions(prev => {
+        const next = { ...prev };
+        if (previous) next[matchId] = previous; else delete next[matchId];
+        return next;
+      });
+      const e = err as { response?: { data?: { error?: string } }; message?: string };
+      setError(e.response?.data?.error || e.message || 'Could not save review decision.');
+    }
+  };
+
+  const handleDuplicateDecision = async (groupId: string, status: DuplicateDecision['status']) => {
+    const previous = duplicateDecisions[groupId];
+    setDuplicateDecisions(prev => ({ ...prev, [groupId]: { group_id: groupId, status, decided_at: new Date().toISOString() } }));
+    if (!sessionId) return;
+    try {
+      const response = await axios.post(`${apiBase}/sessions/${sessionId}/duplicates/${encodeURIComponent(groupId)}`, { status });
+      setDuplicateDecisions(response.data.duplicate_decisions || {});
+      setSessionsVersion(v => v + 1);
+    } catch (err: unknown) {
+      setDuplicateDecisions(prev => {
+        const next = { ...prev };
+        if (previous) next[groupId] = previous; else delete next[groupId];
+        return next;
+      });
+      const e = err as { response?: { data?: { error?: string } }; message?: string };
+      setError(e.response?.data?.error || e.message || 'Could not save duplicate decision.');
+    }
   };
 
-  const renderReviewTable = (rows: any[]) => {
+  const renderDuplicatesTable = (groups: DuplicateGroup[]) => {
+    if (groups.length === 0) {
+      return <div className="text-gray-500 text-center py-8">No likely duplicates within either file.</div>;
+    }
+    const pagedGroups: DuplicateGroup[] = paginate(groups);
+    return (
+      <div className="overflow-x-auto">
+        <table className="min-w-full bg-white rounded shadow text-xs md:text-sm">
+          <thead>
+            <tr>
+              <th className="px-2 py-2 border-b">File</th>
+              <th className="px-2 py-2 border-b">Rows</th>
+              <th className="px-2 py-2 border-b">Confidence</th>
+              <th className="px-2 py-2 border-b">Why</th>
+              <th className="px-2 py-2 border-b">Decision</th>
+            </tr>
+          </thead>
+          <tbody>
+            {pagedGroups.map(group => {
+              const status = duplicateDecisions[group.id]?.status;
+              return (
+                <tr key={group.id} className="hover:bg-blue-50">
+                  <td className="px-2 py-2 border-b align-top text-center font-semibold">{group.file}</td>
+                  <td className="px-2 py-2 border-b align-top whitespace-pre-wrap">
+                    {group.entries.map((entry, k) => (
+                      <div key={group.indices[k]} className="mb-1">
+                        <div className="text-xs font-semibold">File {group.file} #{group.indices[k]}</div>
+                        <pre className="bg-gray-50 rounded p-2 text-xs whitespace-pre-wrap">{JSON.stringify(entry, null, 2)}</pre>
+                      </div>
+                    ))}
+                  </td>
+                  <td className="px-2 py-2 border-b align-top text-center font-bold">{group.confidence}</td>
+                  <td className="px-2 py-2 border-b align-top text-xs">{group.reason}</td>
+                  <td className="px-2 py-2 border-b align-top text-center">
+                    <div className="flex gap-2 justify-center">
+                      <button
+                        className={`px-2 py-1 rounded text-xs font-semibold ${status === 'genuine' ? 'bg-green-600 text-white' : 'bg-green-100 hover:bg-green-200 text-green-800'}`}
+                        onClick={() => handleDuplicateDecision(group.id, 'genuine')}
+                        title="Separate transactions that happen to look alike"
+                      >
+                        Genuine
+                      </button>
+                      <button
+                        className={`px-2 py-1 rounded text-xs font-semibold ${status === 'erroneous' ? 'bg-red-600 text-white' : 'bg-red-100 hover:bg-red-200 text-red-800'}`}
+                        onClick={() => handleDuplicateDecision(group.id, 'erroneous')}
+                        title="One transaction booked more than once"
+                      >
+                        Erroneous
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+        {groups.length > rowsPerPage && (
+          <div className="flex justify-center items-center gap-2 mt-2">
+            <button onClick={() => setPage(p => Math.max(1, p - 1))} disabled={page === 1} className="px-2 py-1 rounded bg-gray-200 disabled:opacity-50">Prev</button>
+            <span className="text-xs text-gray-700">Page {page} of {Math.ceil(groups.length / rowsPerPage)}</span>
+            <button onClick={() => setPage(p => Math.min(Math.ceil(groups.length / rowsPerPage), p + 1))} disabled={page === Math.ceil(groups.length / rowsPerPage)} className="px-2 py-1 rounded bg-gray-200 disabled:opacity-50">Next</button>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderReviewTable = (rows: MatchRecord[]) => {
     if (!rows || rows.length === 0) {
       return <div className="text-gray-500 text-center py-8">No records to review.</div>;
     }
@@ -192,12 +595,12 @@ function App() {
           </thead>
           <tbody>
             {pagedRows.map((row, i) => (
-              <tr key={i} className="hover:bg-blue-50">
+              <tr key={row.id ?? i} className="hover:bg-blue-50">
                 <td className="px-2 py-2 border-b align-top whitespace-pre-wrap">
                   {row.file_a_entry ? (
                     <pre className="bg-gray-50 rounded p-2 text-xs whitespace-pre-wrap">{JSON.stringify(row.file_a_entry, null, 2)}</pre>
                   ) : row.file_a_entries ? (
-                    row.file_a_entries.map((entry: any, idx: number) => (
+                    row.file_a_entries.map((entry, idx) => (
                       <pre key={idx} className="bg-gray-50 rounded p-2 mb-1 text-xs whitespace-pre-wrap">{JSON.stringify(entry, null, 2)}</pre>
                     ))
                   ) : null}
@@ -206,7 +609,7 @@ function App() {
                   {row.file_b_entry ? (
                     <pre className="bg-gray-50 rounded p-2 text-xs whitespace-pre-wrap">{JSON.stringify(row.file_b_entry, null, 2)}</pre>
                   ) : row.file_b_entries ? (
-                    row.file_b_entries.map((entry: any, idx: number) => (
+                    row.file_b_entries.map((entry, idx) => (
                       <pre key={idx} className="bg-gray-50 rounded p-2 mb-1 text-xs whitespace-pre-wrap">{JSON.stringify(entry, null, 2)}</pre>
                     ))
                   ) : null}
@@ -222,12 +625,12 @@ function App() {
                 </td>
                 <td className="px-2 py-2 border-b align-top text-xs">{row.match_reason}</td>
                 <td className="px-2 py-2 border-b align-top text-center">
-                  {reviewed[i] === 'confirmed' && <span className="text-green-600 font-bold">Confirmed</span>}
-                  {reviewed[i] === 'rejected' && <span className="text-red-600 font-bold">Rejected</span>}
-                  {!reviewed[i] && (
+                  {decisions[row.id]?.action === 'confirmed' && <span className="text-green-600 font-bold">Confirmed</span>}
+                  {decisions[row.id]?.action === 'rejected' && <span className="text-red-600 font-bold">Rejected</span>}
+                  {!decisions[row.id] && (
                     <div className="flex gap-2 justify-center">
-                      <button className="bg-green-100 hover:bg-green-200 text-green-800 px-2 py-1 rounded text-xs font-semibold" onClick={() => handleReview(i, 'confirmed')}>Confirm</button>
-                      <button className="bg-red-100 hover:bg-red-200 text-red-800 px-2 py-1 rounded text-xs font-semibold" onClick={() => handleReview(i, 'rejected')}>Reject</button>
+                      <button className="bg-green-100 hover:bg-green-200 text-green-800 px-2 py-1 rounded text-xs font-semibold" onClick={() => handleReview(row.id, 'confirmed')}>Confirm</button>
+                      <button className="bg-red-100 hover:bg-red-200 text-red-800 px-2 py-1 rounded text-xs font-semibold" onClick={() => handleReview(row.id, 'rejected')}>Reject</button>
                     </div>
                   )}
                 </td>
@@ -246,7 +649,53 @@ function App() {
     );
   };
 
-  const renderLLMCandidatesTable = (rows: any[]) => {
+  const renderAmbiguousTable = (rows: AmbiguousMatch[] = []) => {
+    if (!rows || rows.length === 0) {
+      return <div className="text-gray-500 text-center py-8">No ambiguous matches.</div>;
+    }
+    const pagedRows = paginate(rows);
+    return (
+      <div className="overflow-x-auto">
+        <table className="min-w-full bg-white rounded shadow text-xs md:text-sm">
+          <thead>
+            <tr>
+              <th className="px-2 py-2 border-b">File A</th>
+              <th className="px-2 py-2 border-b">Competing File B Candidates</th>
+              <th className="px-2 py-2 border-b">Why Ambiguous</th>
+            </tr>
+          </thead>
+          <tbody>
+            {pagedRows.map((row: AmbiguousMatch) => (
+              <tr key={row.file_a_index} className="hover:bg-orange-50">
+                <td className="px-2 py-2 border-b align-top whitespace-pre-wrap">
+                  <pre className="bg-gray-50 rounded p-2 text-xs whitespace-pre-wrap">{JSON.stringify(row.file_a_entry, null, 2)}</pre>
+                </td>
+                <td className="px-2 py-2 border-b align-top whitespace-pre-wrap">
+                  {row.candidates.map(c => (
+                    <div key={c.file_b_index} className="mb-2">
+                      <div className="text-xs font-semibold">File B #{c.file_b_index} · confidence {c.confidence_score}</div>
+                      <pre className="bg-gray-50 rounded p-2 text-xs whitespace-pre-wrap">{JSON.stringify(c.file_b_entry, null, 2)}</pre>
+                      {c.match_reason && <div className="text-xs text-gray-600">{c.match_reason}</div>}
+                    </div>
+                  ))}
+                </td>
+                <td className="px-2 py-2 border-b align-top text-xs">{row.reason}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        {rows.length > rowsPerPage && (
+          <div className="flex justify-center items-center gap-2 mt-2">
+            <button onClick={() => setPage(p => Math.max(1, p - 1))} disabled={page === 1} className="px-2 py-1 rounded bg-gray-200 disabled:opacity-50">Prev</button>
+            <span className="text-xs text-gray-700">Page {page} of {Math.ceil(rows.length / rowsPerPage)}</span>
+            <button onClick={() => setPage(p => Math.min(Math.ceil(rows.length / rowsPerPage), p + 1))} disabled={page === Math.ceil(rows.length / rowsPerPage)} className="px-2 py-1 rounded bg-gray-200 disabled:opacity-50">Next</button>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  const renderLLMCandidatesTable = (rows: LlmCandidate[] = []) => {
     if (!rows || rows.length === 0) {
       return <div className="text-gray-500 text-center py-8">No LLM candidate pairs found.</div>;
     }
@@ -317,7 +766,13 @@ function App() {
           </div>
         )}
         <FileUpload onSubmit={handleSubmit} loading={loading} />
-        {loading && (
+        <SessionList activeId={sessionId} onOpen={openSession} refreshKey={sessionsVersion} disabled={loading} />
+        <OutstandingItems onOpen={openSession} refreshKey={sessionsVersion} disabled={loading} />
+        <LearnedRules refreshKey={sessionsVersion} />
+        {loading && jobId && (
+          <JobProgress progress={progress} matches={provisional} onCancel={handleCancel} cancelling={cancelling} />
+        )}
+        {loading && !jobId && (
           <div className="flex justify-center mt-6">
             <div className="animate-spin rounded-full h-8 w-8 border-t-2 border-b-2 border-blue-600"></div>
           </div>
@@ -332,6 +787,87 @@ function App() {
                 </div>
               ))}
             </div>
+            {result.config && (
+              <div className="mb-4 text-center text-xs text-gray-600">
+                Engine: {result.match_engine} · Date window ±{result.config.dateWindowDays}d · Amount tolerance {result.config.amountTolerance}{result.config.amountToleranceType === 'percent' ? '%' : ''} · Threshold {result.config.confidenceThreshold} · Currency: {result.config.currencyPolicy}{result.config.reportingCurrency ? ` (${result.config.reportingCurrency})` : ''} · Sign: {result.config.signMode}
+                {result.pass_counts && (
+                  <div>
+                    Matches by pass: exact {result.pass_counts.exact} · learned {result.pass_counts.learned ?? 0} · {result.match_engine} {result.pass_counts.engine} · split {result.pass_counts.split} · {result.engine_rows_sent} rows sent to the engine, {result.engine_rows_skipped} settled without it
+                    {result.llm_cache && ` · LLM cache: ${result.llm_cache.hits} hits, ${result.llm_cache.misses} calls`}
+                    {result.learned_rules && result.learned_rules.available > 0 && ` · ${result.learned_rules.active} of ${result.learned_rules.available} learned rules applied`}
+                  </div>
+                )}
+                {result.redaction?.enabled && (
+                  <div>
+                    Redacted before sending to the LLM ({result.redaction.mode}): {result.redaction.fields.length > 0 ? result.redaction.fields.join(', ') : 'no columns'}
+                    {Object.entries(result.redaction.patterns as Record<string, number>).map(([kind, n]) => ` · ${n} ${kind.toLowerCase()} value${n === 1 ? '' : 's'}`).join('')}
+                  </div>
+                )}
+                {result.carry_forward && (() => {
+                  const carry = result.carry_forward
+                  const items = [...Object.values(carry.file_a), ...Object.values(carry.file_b)]
+                  return (
+                    <div>
+                      Account {carry.account} · period {carry.period}
+                      {carry.prior_period
+                        ? ` · ${items.length} open item${items.length === 1 ? '' : 's'} carried from ${carry.prior_period}, ${items.filter(item => item.cleared_period).length} cleared`
+                        : ' · first period, nothing carried forward'}
+                    </div>
+                  )
+                })()}
+              </div>
+            )}
+            {(['file_a', 'file_b'] as const).map(file => {
+              const info = result.imports?.[file];
+              const label = file === 'file_a' ? 'File A' : 'File B';
+              return info?.row_issues?.length || info?.date_warnings?.length ? (
+                <div key={file} className="mb-4 max-w-3xl mx-auto">
+                  {info.row_issues.length > 0 && <RowIssues issues={info.row_issues} label={label} />}
+                  {info.date_warnings?.length > 0 && (
+                    <details className="mt-1 bg-yellow-50 border border-yellow-200 rounded px-2 py-1 text-xs text-yellow-800">
+                      <summary className="cursor-pointer">
+                        {label}: {info.date_warnings.length} dates could not be read (as {info.date_order === 'DMY' ? 'DD/MM' : 'MM/DD'}); rows without a readable date get no match candidates
+                      </summary>
+                      <ul className="mt-1">
+                        {info.date_warnings.map(w => (
+                          <li key={`${w.row}-${w.column}`}>{label === 'File A' ? 'A' : 'B'}#{w.row} {w.column}: "{w.value}"</li>
+                        ))}
+                      </ul>
+                    </details>
+                  )}
+                </div>
+              ) : null;
+            })}
+            {result.llm_errors && result.llm_errors.length > 0 && (
+              <details className="mb-4 max-w-3xl mx-auto bg-red-50 border border-red-200 rounded px-3 py-2 text-xs text-red-800">
+                <summary className="cursor-pointer font-semibold">
+                  {result.llm_errors.length} File A rows could not be scored: the LLM answer was invalid after re-asking. They are listed as unmatched.
+                </summary>
+                <ul className="mt-2 space-y-1">
+                  {result.llm_errors.map(e => (
+                    <li key={e.file_a_index}>
+                      <span className="font-semibold">A#{e.file_a_index}:</span> {e.error}
+                      {e.raw && <pre className="whitespace-pre-wrap text-gray-600">{e.raw}</pre>}
+                    </li>
+                  ))}
+                </ul>
+              </details>
+            )}
+            {sessionId && (
+              <div className="mb-4 flex justify-center gap-2 text-xs">
+                <span className="self-center text-gray-600">Export:</span>
+                {([['xlsx', 'Excel workbook'], ['csv', 'CSV'], ['pdf', 'PDF summary']] as const).map(([format, label]) => (
+                  <a
+                    key={format}
+                    href={`${apiBase}/sessions/${sessionId}/export?format=${format}`}
+                    download
+                    className="bg-white hover:bg-blue-100 text-blue-800 border border-blue-200 px-3 py-1 rounded font-semibold"
+                  >
+                    {label}
+                  </a>
+                ))}
+              </div>
+            )}
             <div className="mb-6 flex justify-center gap-2 sticky top-0 z-10 shadow rounded-t-lg">
               <button
                 className={`px-4 py-2 rounded-t-lg font-semibold border-b-2 transition-all duration-150 ${tab === 'matched' ? 'bg-blue-600 text-white border-blue-700' : 'bg-white text-blue-700 border-transparent hover:bg-blue-100'}`}
@@ -357,6 +893,22 @@ function App() {
               >
                 Unmatched in File B
               </button>
+              <button
+                className={`px-4 py-2 rounded-t-lg font-semibold border-b-2 transition-all duration-150 ${tab === 'ambiguous' ? 'bg-orange-500 text-white border-orange-600' : 'bg-white text-orange-700 border-transparent hover:bg-orange-100'}`}
+                onClick={() => setTab('ambiguous')}
+                aria-selected={tab === 'ambiguous'}
+                role="tab"
+              >
+                Ambiguous
+              </button>
+              <button
+                className={`px-4 py-2 rounded-t-lg font-semibold border-b-2 transition-all duration-150 ${tab === 'duplicates' ? 'bg-pink-600 text-white border-pink-700' : 'bg-white text-pink-700 border-transparent hover:bg-pink-100'}`}
+                onClick={() => setTab('duplicates')}
+                aria-selected={tab === 'duplicates'}
+                role="tab"
+              >
+                Duplicates ({(result.duplicates_file_a?.length ?? 0) + (result.duplicates_file_b?.length ?? 0)})
+              </button>
               <button
                 className={`px-4 py-2 rounded-t-lg font-semibold border-b-2 transition-all duration-150 ${tab === 'review' ? 'bg-gray-400 text-gray-900 border-gray-600' : 'bg-white text-gray-700 border-transparent hover:bg-gray-100'}`}
                 onClick={() => setTab('review')}
@@ -383,9 +935,39 @@ function App() {
         </button>
             </div>
             <div className="bg-white rounded-b-lg shadow-lg p-4">
+              {sessionId && (tab === 'unmatchedA' || tab === 'unmatchedB') && (
+                <div className="mb-3 flex flex-wrap items-center gap-2 text-xs bg-blue-50 rounded p-2">
+                  <span className="font-semibold text-blue-900">
+                    Selected: {selectedA.length} in File A · {selectedB.length} in File B
+                  </span>
+                  <input
+                    type="text"
+                    className="border border-gray-300 rounded px-2 py-1 flex-1 min-w-40"
+                    placeholder="Reviewer note (required)"
+                    value={pairNote}
+                    onChange={e => setPairNote(e.target.value)}
+                  />
+                  <button
+                    className="bg-blue-600 hover:bg-blue-700 text-white px-3 py-1 rounded font-semibold disabled:opacity-50"
+                    onClick={handleCreateMatch}
+                    disabled={selectedA.length === 0 || selectedB.length === 0 || !pairNote.trim()}
+                  >
+                    Create match
+                  </button>
+                  <button
+                    className="bg-gray-100 hover:bg-gray-200 text-gray-800 px-3 py-1 rounded"
+                    onClick={() => { setSelectedA([]); setSelectedB([]); }}
+                    disabled={selectedA.length === 0 && selectedB.length === 0}
+                  >
+                    Clear
+                  </button>
+                </div>
+              )}
               {tab === 'matched' && renderTable(result.matched, 'matched')}
               {tab === 'unmatchedA' && renderTable(result.unmatchedA, 'unmatchedA')}
               {tab === 'unmatchedB' && renderTable(result.unmatchedB, 'unmatchedB')}
+              {tab === 'ambiguous' && renderAmbiguousTable(result.ambiguous_matches)}
+              {tab === 'duplicates' && renderDuplicatesTable([...(result.duplicates_file_a || []), ...(result.duplicates_file_b || [])])}
               {tab === 'review' && renderReviewTable(result.matched)}
               {tab === 'llmCandidates' && renderLLMCandidatesTable(result.llm_candidates)}
               {tab === 'rawJson' && (
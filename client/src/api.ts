@@ -0,0 +1,310 @@
+export const apiUrl: string | undefined = import.meta.env.VITE_API_URL;
+
+// VITE_API_URL points at /reconcile; the other endpoints live beside it
+export const apiBase = apiUrl ? apiUrl.replace(/\/reconcile\/?$/, '') : '';
+
+/**
+ * Canonical field -> source column header
+ */
+export type ColumnMap = Record<string, string>;
+
+/**
+ * Where the data sits in an Excel workbook; row numbers are 1-based
+ */
+export interface ImportOptions {
+  sheet?: string
+  headerRow?: number
+  range?: string
+  // Day/month order of numeric dates; inferred when left out
+  dateOrder?: 'MDY' | 'DMY'
+}
+
+/**
+ * A CSV line that was skipped, or kept with blanks filled in
+ */
+export interface RowIssue {
+  line: number
+  error: string
+  skipped: boolean
+}
+
+/**
+ * How an upload was read (`imports.file_a` / `file_b` in the result)
+ */
+export interface ImportInfo {
+  format: string
+  encoding?: string
+  delimiter?: string
+  row_issues: RowIssue[]
+  sheets?: string[]
+  sheet?: string
+  header_row?: number
+  range?: string
+  skipped_rows: number[]
+  date_order: 'MDY' | 'DMY'
+  date_order_source: 'declared' | 'inferred' | 'default'
+  // Dates that could not be read; row is the 0-based index in the file
+  date_warnings: { row: number; column: string; value: string }[]
+}
+
+export interface MappingProfile {
+  name: string
+  columns: ColumnMap
+  import?: ImportOptions
+}
+
+/**
+ * Per-run settings sent as the /reconcile `config` field
+ */
+export interface ReconcileConfig {
+  dateWindowDays: number
+  amountTolerance: number
+  amountToleranceType: 'absolute' | 'percent'
+  confidenceThreshold: number
+  currencyPolicy: 'ignore' | 'same' | 'convert'
+  reportingCurrency: string
+  signMode: 'same' | 'opposite'
+  fxTolerance: number
+  // Unmatched items are aged against this date; empty: the latest date in either file
+  statementEndDate: string
+}
+
+export const DEFAULT_CONFIG: ReconcileConfig = {
+  dateWindowDays: 7,
+  amountTolerance: 500,
+  amountToleranceType: 'absolute',
+  confidenceThreshold: 0.85,
+  currencyPolicy: 'ignore',
+  reportingCurrency: '',
+  signMode: 'same',
+  fxTolerance: 0.01,
+  statementEndDate: '',
+}
+
+export interface SessionSummary {
+  id: string
+  name: string
+  created_at: string
+  updated_at: string
+  file_a_name: string
+  file_b_name: string
+  account?: string
+  period?: string
+  matched: number
+  unmatched_a: number
+  unmatched_b: number
+  reviewed: number
+}
+
+export interface ReviewDecision {
+  match_id: string
+  action: 'confirmed' | 'rejected'
+  note?: string
+  reviewer?: string
+  decided_at: string
+}
+
+/**
+ * Progress of a background reconciliation job (GET /jobs/:id/events)
+ */
+export interface JobProgress {
+  status: 'queued' | 'running' | 'completed' | 'failed' | 'cancelled'
+  rows_total: number
+  rows_to_score: number | null
+  rows_scored: number
+  batches_sent: number
+  batches_completed: number
+  matches_found: number
+  // Rows whose LLM answer stayed invalid after re-asking
+  llm_errors: number
+}
+
+/**
+ * A File A row left unscored because the LLM answer could not be used
+ */
+export interface LlmRowError {
+  file_a_index: number
+  error: string
+  raw: string
+}
+
+/**
+ * A pair that cleared the threshold while the job is still running
+ */
+export interface ProvisionalMatch {
+  file_a_index: number
+  file_b_index: number
+  file_a_entry: Record<string, unknown>
+  file_b_entry: Record<string, unknown>
+  confidence_score: number
+  match_reason: string
+}
+
+/**
+ * Rows of one file that look like the same transaction booked more than once
+ */
+export interface DuplicateGroup {
+  id: string
+  file: 'A' | 'B'
+  indices: number[]
+  entries: Record<string, unknown>[]
+  confidence: number
+  reason: string
+}
+
+export type ExceptionReason =
+  | 'no_candidates'
+  | 'below_threshold'
+  | 'candidate_taken'
+  | 'ambiguous'
+  | 'currency_mismatch'
+  | 'parse_error'
+  | 'llm_failure'
+  | 'reviewer_unmatched'
+
+/**
+ * Why an unmatched row failed to match, its closest candidate and its age
+ */
+export interface UnmatchedException {
+  reason: ExceptionReason
+  detail: string
+  near_miss: { index: number; entry: Record<string, unknown>; confidence: number | null; reason: string } | null
+  // candidate_taken: the match that consumed the best candidate
+  taken_by?: { index: number; match_id: string; pass: string; partners: number[] }
+  age_days: number | null
+}
+
+/**
+ * An open item brought in from the account's prior period
+ */
+export interface CarriedItem {
+  from_session: string
+  from_period: string
+  from_index: number
+  opened_period: string
+  cleared_period: string | null
+}
+
+export interface CarryForward {
+  account: string
+  period: string
+  prior_session_id: string | null
+  prior_period: string | null
+  file_a: Record<number, CarriedItem>
+  file_b: Record<number, CarriedItem>
+}
+
+export interface OutstandingItem {
+  file: 'A' | 'B'
+  index: number
+  entry: Record<string, unknown>
+  opened_period: string
+  periods_open: number
+  age_days: number | null
+  reason: ExceptionReason | null
+  detail: string | null
+}
+
+export interface AccountSummary {
+  account: string
+  latest_period: string
+  latest_session_id: string
+  open_items: number
+  periods: { period: string; session_id: string; created_at: string }[]
+}
+
+/**
+ * A pattern learned from reviewer decisions on an account's matches (GET /learned-rules)
+ */
+export interface LearnedRule {
+  id: string
+  account: string
+  kind: 'description_alias' | 'counterparty' | 'date_lag'
+  file_a: string
+  file_b: string
+  lag_days: number | null
+  example_a: string
+  example_b: string
+  confirmations: number
+  rejections: number
+  created_at: string
+  updated_at: string
+}
+
+export interface DuplicateDecision {
+  group_id: string
+  status: 'genuine' | 'erroneous'
+  note?: string
+  reviewer?: string
+  decided_at: string
+}
+
+/**
+ * A match in the reconcile result; 1-to-many and many-to-1 matches list
+ * several entries on one side
+ */
+export interface MatchRecord {
+  id: string
+  type: '1-to-1' | '1-to-many' | 'many-to-1' | 'many-to-many'
+  pass?: 'exact' | 'learned' | 'engine' | 'split'
+  file_a_indices: number[]
+  file_b_indices: number[]
+  file_a_entry?: Record<string, unknown>
+  file_b_entry?: Record<string, unknown>
+  file_a_entries?: Record<string, unknown>[]
+  file_b_entries?: Record<string, unknown>[]
+  // null for manual matches
+  confidence_score: number | null
+  match_reason: string
+  provider?: string
+  model?: string | null
+  manual?: boolean
+}
+
+/**
+ * A candidate pair scored by the match engine
+ */
+export interface LlmCandidate extends ProvisionalMatch {
+  provider?: string
+  model?: string | null
+}
+
+/**
+ * A File A row whose best candidates tied or were contested
+ */
+export interface AmbiguousMatch {
+  file_a_index: number
+  file_a_entry: Record<string, unknown>
+  candidates: { file_b_index: number; file_b_entry: Record<string, unknown>; confidence_score: number; match_reason?: string }[]
+  reason: string
+}
+
+/**
+ * Body of a /reconcile response, a job result or a session's `result`
+ */
+export interface ReconcileResponse {
+  session_id?: string
+  matches?: MatchRecord[]
+  unmatched_file_a_entries?: Record<string, unknown>[]
+  unmatched_file_b_entries?: Record<string, unknown>[]
+  unmatched_file_a_indices?: number[]
+  unmatched_file_b_indices?: number[]
+  unmatched_file_a_exceptions?: Record<number, UnmatchedException>
+  unmatched_file_b_exceptions?: Record<number, UnmatchedException>
+  statement_end_date?: string | null
+  llm_candidates?: LlmCandidate[]
+  ambiguous_matches?: AmbiguousMatch[]
+  duplicates_file_a?: DuplicateGroup[]
+  duplicates_file_b?: DuplicateGroup[]
+  match_engine?: string
+  llm_cache?: { hits: number; misses: number } | null
+  redaction?: { enabled: boolean; mode: string; fields: string[]; patterns: Record<string, number> } | null
+  pass_counts?: { exact: number; learned?: number; engine: number; split: number }
+  engine_rows_sent?: number
+  engine_rows_skipped?: number
+  learned_rules?: { available: number; active: number }
+  llm_errors?: LlmRowError[]
+  config?: Omit<ReconcileConfig, 'reportingCurrency' | 'statementEndDate'> & { reportingCurrency: string | null; statementEndDate: string | null }
+  imports?: { file_a?: ImportInfo; file_b?: ImportInfo }
+  carry_forward?: CarryForward | null
+}
@@ -0,0 +1,263 @@
+import React, { useEffect, useRef, useState } from 'react';
+import axios from 'axios';
+import { apiBase, type ColumnMap, type ImportInfo, type ImportOptions, type MappingProfile } from '../api';
+
+export interface ColumnMappingProps {
+  file: File | null;
+  label: string;
+  fields: string[];
+  profiles: MappingProfile[];
+  value: ColumnMap;
+  // Both change handlers should be stable (state setters or useCallback): they are effect dependencies
+  onChange: (columns: ColumnMap) => void;
+  importOptions: ImportOptions;
+  onImportChange: (options: ImportOptions) => void;
+  onProfileSaved: () => void;
+  disabled?: boolean;
+}
+
+interface Preview extends ImportInfo {
+  headers: string[];
+  rows: Record<string, unknown>[];
+  row_count: number;
+}
+
+export const RowIssues: React.FC<{ issues: ImportInfo['row_issues']; label?: string }> = ({ issues, label }) => (
+  <details className="mt-1 bg-yellow-50 border border-yellow-200 rounded px-2 py-1 text-xs text-yellow-800">
+    <summary className="cursor-pointer">
+      {label ? `${label}: ` : ''}{issues.filter(i => i.skipped).length} lines skipped, {issues.filter(i => !i.skipped).length} kept with blank fields
+    </summary>
+    <ul className="mt-1">
+      {issues.map(issue => (
+        <li key={issue.line}>Line {issue.line}: {issue.error}{issue.skipped ? ' (skipped)' : ''}</li>
+      ))}
+    </ul>
+  </details>
+);
+
+const ColumnMapping: React.FC<ColumnMappingProps> = ({ file, label, fields, profiles, value, onChange, importOptions, onImportChange, onProfileSaved, disabled }) => {
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const [profile, setProfile] = useState('auto');
+  const [profileName, setProfileName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  // Reloading the profile list (after a save) must not reset the import settings
+  const profilesRef = useRef(profiles);
+  useEffect(() => {
+    profilesRef.current = profiles;
+  }, [profiles]);
+
+  // A new file or profile starts from the profile's import settings
+  useEffect(() => {
+    onImportChange(profilesRef.current.find(p => p.name === profile)?.import || {});
+  }, [file, profile, onImportChange]);
+
+  const importKey = JSON.stringify(importOptions);
+
+  // Re-read the preview whenever the file, chosen profile or import settings change
+  useEffect(() => {
+    if (!file) {
+      setPreview(null);
+      return;
+    }
+    let cancelled = false;
+    const formData = new FormData();
+    formData.append('file', file);
+    formData.append('mapping', profile);
+    formData.append('import', importKey);
+    axios.post(`${apiBase}/preview`, formData, { headers: { 'Content-Type': 'multipart/form-data' } })
+      .then(response => {
+        if (cancelled) return;
+        setPreview(response.data);
+        onChange(response.data.mapping || {});
+        setError(null);
+      })
+      .catch(err => {
+        if (cancelled) return;
+        setPreview(null);
+        setError(err?.response?.data?.error || err.message || 'Could not preview file.');
+      });
+    return () => { cancelled = true; };
+  }, [file, profile, importKey, onChange]);
+
+  const setImport = (changes: ImportOptions) => {
+    const next: ImportOptions = { ...importOptions, ...changes };
+    (Object.keys(next) as (keyof ImportOptions)[]).forEach(k => { if (next[k] === undefined || next[k] === '') delete next[k]; });
+    onImportChange(next);
+  };
+
+  const saveProfile = async () => {
+    if (!profileName.trim()) return;
+    try {
+      await axios.post(`${apiBase}/mapping-profiles`, { name: profileName.trim(), columns: value, import: importOptions });
+      setProfileName('');
+      onProfileSaved();
+    } catch (err: unknown) {
+      const e = err as { response?: { data?: { error?: string } }; message?: string };
+      setError(e.response?.data?.error || e.message || 'Could not save profile.');
+    }
+  };
+
+  if (!file) return null;
+
+  return (
+    <div className="border border-gray-200 dark:border-gray-700 rounded p-3 flex flex-col gap-2">
+      <div className="flex items-center justify-between gap-2">
+        <span className="font-medium text-sm text-gray-800 dark:text-gray-200">{label} column mapping</span>
+        <select
+          className="border border-gray-300 rounded px-2 py-1 text-xs"
+          value={profile}
+          onChange={e => setProfile(e.target.value)}
+          disabled={disabled}
+          aria-label={`${label} mapping profile`}
+        >
+          {profiles.map(p => <option key={p.name} value={p.name}>{p.name}</option>)}
+        </select>
+      </div>
+      {error && (
+        <div className="bg-red-100 text-red-700 px-2 py-1 rounded text-xs">
+          {error}
+          {importKey !== '{}' && (
+            <button type="button" className="ml-2 underline" onClick={() => onImportChange({})} disabled={disabled}>
+              Reset sheet settings
+            </button>
+          )}
+        </div>
+      )}
+      {preview?.sheets && (
+        <div className="flex flex-wrap items-center gap-2 text-xs text-gray-700 dark:text-gray-300">
+          <label className="flex items-center gap-1">
+            Sheet
+            <select
+              className="border border-gray-300 rounded px-1 py-0.5 text-xs"
+              value={preview.sheet}
+              onChange={e => setImport({ sheet: e.target.value, headerRow: undefined, range: undefined })}
+              disabled={disabled}
+            >
+              {preview.sheets.map(s => <option key={s} value={s}>{s}</option>)}
+            </select>
+          </label>
+          {/* Typed values are applied on blur; blank means auto-detect */}
+          <label className="flex items-center gap-1">
+            Header row
+            <input
+              key={`header-${importOptions.headerRow ?? ''}`}
+              type="number"
+              min={1}
+              className="border border-gray-300 rounded px-1 py-0.5 text-xs w-16"
+              defaultValue={importOptions.headerRow ?? ''}
+              placeholder={String(preview.header_row ?? '')}
+              onBlur={e => setImport({ headerRow: e.target.value ? Number(e.target.value) : undefined })}
+              disabled={disabled}
+            />
+          </label>
+          <label className="flex items-center gap-1">
+            Range
+            <input
+              key={`range-${importOptions.range ?? ''}`}
+              type="text"
+              className="border border-gray-300 rounded px-1 py-0.5 text-xs w-24"
+              defaultValue={importOptions.range ?? ''}
+              placeholder={preview.range}
+              onBlur={e => setImport({ range: e.target.value.trim() || undefined })}
+              disabled={disabled}
+            />
+          </label>
+          {preview.skipped_rows.length > 0 && (
+            <span className="text-gray-500">Skipped total rows: {preview.skipped_rows.join(', ')}</span>
+          )}
+        </div>
+      )}
+      {preview && (
+        <div className="flex flex-wrap items-center gap-2 text-xs text-gray-700 dark:text-gray-300">
+          <label className="flex items-center gap-1">
+            Date order
+            <select
+              className="border border-gray-300 rounded px-1 py-0.5 text-xs"
+              value={importOptions.dateOrder || ''}
+              onChange={e => setImport({ dateOrder: (e.target.value || undefined) as ImportOptions['dateOrder'] })}
+              disabled={disabled}
+            >
+              <option value="">Auto ({preview.date_order === 'DMY' ? 'DD/MM' : 'MM/DD'}{preview.date_order_source === 'default' ? ', no telling dates' : ''})</option>
+              <option value="MDY">MM/DD/YYYY</option>
+              <option value="DMY">DD/MM/YYYY</option>
+            </select>
+          </label>
+          {preview.date_warnings.length > 0 && (
+            <span className="text-yellow-700" title={preview.date_warnings.slice(0, 20).map(w => `Row ${w.row + 1} ${w.column}: ${w.value}`).join('\n')}>
+              {preview.date_warnings.length} unreadable dates, e.g. "{preview.date_warnings[0].value}"
+            </span>
+          )}
+        </div>
+      )}
+      {preview && (
+        <>
+          <div className="grid grid-cols-2 gap-2">
+            {fields.map(field => (
+              <label key={field} className="flex items-center justify-between gap-2 text-xs text-gray-700 dark:text-gray-300">
+                <span className="capitalize">{field.replace(/([A-Z])/g, ' $1')}</span>
+                <select
+                  className="border border-gray-300 rounded px-1 py-0.5 text-xs flex-1"
+                  value={value[field] || ''}
+                  onChange={e => onChange({ ...value, [field]: e.target.value })}
+                  disabled={disabled}
+                >
+                  <option value="">(none)</option>
+                  {preview.headers.map(h => <option key={h} value={h}>{h}</option>)}
+                </select>
+              </label>
+            ))}
+          </div>
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-xs bg-gray-50 rounded">
+              <thead>
+                <tr>
+                  {preview.headers.map(h => (
+                    <th key={h} className="px-2 py-1 border-b text-left whitespace-nowrap">
+                      {h}
+                      {Object.entries(value).filter(([, col]) => col === h).map(([field]) => (
+                        <span key={field} className="ml-1 text-blue-600">→ {field}</span>
+                      ))}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {preview.rows.map((row, i) => (
+                  <tr key={i}>
+                    {preview.headers.map(h => <td key={h} className="px-2 py-1 border-b whitespace-nowrap">{String(row[h] ?? '')}</td>)}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            <div className="text-xs text-gray-500 mt-1">
+              Showing {preview.rows.length} of {preview.row_count} rows
+              {preview.encoding && ` · ${preview.encoding}, ${preview.delimiter === '\t' ? 'tab' : `"${preview.delimiter}"`}-delimited`}
+            </div>
+            {preview.row_issues.length > 0 && <RowIssues issues={preview.row_issues} />}
+          </div>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              className="border border-gray-300 rounded px-2 py-1 text-xs flex-1"
+              placeholder="Save mapping as profile..."
+              value={profileName}
+              onChange={e => setProfileName(e.target.value)}
+              disabled={disabled}
+            />
+            <button
+              type="button"
+              className="bg-gray-200 hover:bg-gray-300 text-gray-700 px-2 py-1 rounded text-xs font-semibold disabled:opacity-50"
+              onClick={saveProfile}
+              disabled={disabled || !profileName.trim()}
+            >
+              Save profile
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ColumnMapping;
@@ -1,30 +1,91 @@
-import React, { useRef, useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
+import axios from 'axios';
+import ColumnMapping from './ColumnMapping';
+import ReconcileSettings from './ReconcileSettings';
+import { apiBase, DEFAULT_CONFIG, type ColumnMap, type ImportOptions, type MappingProfile, type ReconcileConfig } from '../api';
+
+export interface ReconcileSubmission {
+  fileA: File;
+  fileB: File;
+  mappingA: ColumnMap;
+  mappingB: ColumnMap;
+  importA: ImportOptions;
+  importB: ImportOptions;
+  config: ReconcileConfig;
+  engine: string;
+  bypassCache: boolean;
+  fxRates: File | null;
+  // Named account and period: the prior period's open items are carried into the run
+  account: string;
+  period: string;
+}
 
 export interface FileUploadProps {
-  onSubmit: (files: { fileA: File; fileB: File }) => void;
+  onSubmit: (submission: ReconcileSubmission) => void;
   loading: boolean;
   disabled?: boolean;
 }
 
+// Bank statement formats: OFX/QFX, MT940, CAMT.053 (XML) and BAI2
+const STATEMENT_EXTENSIONS = ['.ofx', '.qfx', '.sta', '.mt940', '.940', '.xml', '.bai', '.bai2', '.txt'];
+const ACCEPT = ['.csv', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet', 'application/vnd.ms-excel', ...STATEMENT_EXTENSIONS].join(', ');
+
 const FileUpload: React.FC<FileUploadProps> = ({ onSubmit, loading, disabled }) => {
   const [fileA, setFileA] = useState<File | null>(null);
   const [fileB, setFileB] = useState<File | null>(null);
   const [error, setError] = useState<string | null>(null);
-  const [progress, setProgress] = useState<number>(0);
+  const [mappingA, setMappingA] = useState<ColumnMap>({});
+  const [mappingB, setMappingB] = useState<ColumnMap>({});
+  const [importA, setImportA] = useState<ImportOptions>({});
+  const [importB, setImportB] = useState<ImportOptions>({});
+  const [profiles, setProfiles] = useState<MappingProfile[]>([]);
+  const [fields, setFields] = useState<string[]>([]);
+  const [config, setConfig] = useState<ReconcileConfig>(DEFAULT_CONFIG);
+  const [engine, setEngine] = useState('');
+  const [bypassCache, setBypassCache] = useState(false);
+  const [fxRates, setFxRates] = useState<File | null>(null);
+  const [account, setAccount] = useState('');
+  const [period, setPeriod] = useState('');
   const fileAInput = useRef<HTMLInputElement>(null);
   const fileBInput = useRef<HTMLInputElement>(null);
 
+  const loadProfiles = () => {
+    axios.get(`${apiBase}/mapping-profiles`)
+      .then(response => {
+        setProfiles(response.data.profiles || []);
+        setFields(response.data.fields || []);
+      })
+      .catch(() => setProfiles([{ name: 'auto', columns: {} }]));
+  };
+
+  useEffect(loadProfiles, []);
+
+  // Start from the server's defaults (e.g. its LLM_MATCH_THRESHOLD)
+  useEffect(() => {
+    axios.get(`${apiBase}/config`)
+      .then(response => setConfig({ ...DEFAULT_CONFIG, ...response.data, reportingCurrency: response.data.reportingCurrency || '', statementEndDate: response.data.statementEndDate || '' }))
+      .catch(() => undefined);
+  }, []);
+
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>, setFile: (f: File | null) => void) => {
     if (e.target.files && e.target.files[0]) {
       const file = e.target.files[0];
-      // File type/size validation (e.g., max 5MB)
+      // File type/size validation (e.g., max 5MB). Statement files often have no
+      // registered MIME type, so their extension is accepted too; the server
+      // detects the actual format from the content.
       const allowedTypes = [
         'text/csv',
         'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
         'application/vnd.ms-excel',
+        'application/x-ofx',
+        'application/vnd.intu.qfx',
+        'application/xml',
+        'text/xml',
+        'text/plain',
       ];
-      if (!allowedTypes.includes(file.type)) {
-        setError('Invalid file type. Please upload a CSV or Excel file.');
+      const extension = file.name.toLowerCase().split('.').pop() || '';
+      if (!allowedTypes.includes(file.type) && !STATEMENT_EXTENSIONS.includes(`.${extension}`)) {
+        setError('Invalid file type. Please upload a CSV, Excel, OFX/QFX, MT940, CAMT.053 or BAI2 file.');
         setFile(null);
         return;
       }
@@ -44,21 +105,22 @@ const FileUpload: React.FC<FileUploadProps> = ({ onSubmit, loading, disabled })
       setError('Please select both files.');
       return;
     }
+    if (account.trim() && !period) {
+      setError('Choose the period this run covers.');
+      return;
+    }
     setError(null);
-    setProgress(0);
-    // Simulate progress for UX (real progress handled in parent via loading)
-    let prog = 0;
-    const interval = setInterval(() => {
-      prog += 10;
-      setProgress(Math.min(prog, 90));
-      if (prog >= 90) clearInterval(interval);
-    }, 100);
-    onSubmit({ fileA, fileB });
+    // Progress is streamed from the server and shown by the parent
+    onSubmit({ fileA, fileB, mappingA, mappingB, importA, importB, config, engine, bypassCache, fxRates, account: account.trim(), period });
   };
 
   const resetFiles = () => {
     setFileA(null);
     setFileB(null);
+    setMappingA({});
+    setMappingB({});
+    setImportA({});
+    setImportB({});
     if (fileAInput.current) fileAInput.current.value = '';
     if (fileBInput.current) fileBInput.current.value = '';
     setError(null);
@@ -67,10 +129,10 @@ const FileUpload: React.FC<FileUploadProps> = ({ onSubmit, loading, disabled })
   return (
     <form onSubmit={handleSubmit} className="bg-white dark:bg-gray-900 p-6 rounded-lg shadow-md w-full max-w-xl mx-auto flex flex-col gap-4">
       <div>
-        <label className="block font-medium mb-1 text-gray-800 dark:text-gray-200">File A (CSV or Excel)</label>
+        <label className="block font-medium mb-1 text-gray-800 dark:text-gray-200">File A (CSV, Excel or bank statement)</label>
         <input
           type="file"
-          accept=".csv, application/vnd.openxmlformats-officedocument.spreadsheetml.sheet, application/vnd.ms-excel"
+          accept={ACCEPT}
           onChange={e => handleFileChange(e, setFileA)}
           ref={fileAInput}
           className="block w-full border border-gray-300 dark:border-gray-700 rounded px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-400 dark:bg-gray-800 dark:text-gray-100"
@@ -79,11 +141,23 @@ const FileUpload: React.FC<FileUploadProps> = ({ onSubmit, loading, disabled })
         />
         {fileA && <span className="text-xs text-gray-500 dark:text-gray-300">{fileA.name}</span>}
       </div>
+      <ColumnMapping
+        file={fileA}
+        label="File A"
+        fields={fields}
+        profiles={profiles}
+        value={mappingA}
+        onChange={setMappingA}
+        importOptions={importA}
+        onImportChange={setImportA}
+        onProfileSaved={loadProfiles}
+        disabled={loading || disabled}
+      />
       <div>
-        <label className="block font-medium mb-1 text-gray-800 dark:text-gray-200">File B (CSV or Excel)</label>
+        <label className="block font-medium mb-1 text-gray-800 dark:text-gray-200">File B (CSV, Excel or bank statement)</label>
         <input
           type="file"
-          accept=".csv, application/vnd.openxmlformats-officedocument.spreadsheetml.sheet, application/vnd.ms-excel"
+          accept={ACCEPT}
           onChange={e => handleFileChange(e, setFileB)}
           ref={fileBInput}
           className="block w-full border border-gray-300 dark:border-gray-700 rounded px-3 py-2 focus:outline-none focus:ring-2 focus:ring-blue-400 dark:bg-gray-800 dark:text-gray-100"
@@ -92,12 +166,56 @@ const FileUpload: React.FC<FileUploadProps> = ({ onSubmit, loading, disabled })
         />
         {fileB && <span className="text-xs text-gray-500 dark:text-gray-300">{fileB.name}</span>}
       </div>
+      <ColumnMapping
+        file={fileB}
+        label="File B"
+        fields={fields}
+        profiles={profiles}
+        value={mappingB}
+        onChange={setMappingB}
+        importOptions={importB}
+        onImportChange={setImportB}
+        onProfileSaved={loadProfiles}
+        disabled={loading || disabled}
+      />
+      <div className="grid grid-cols-2 gap-3 text-xs text-gray-700 dark:text-gray-300">
+        <label className="flex flex-col gap-1">
+          Account (optional)
+          <input
+            type="text"
+            className="border border-gray-300 rounded px-2 py-1 text-xs"
+            value={account}
+            onChange={e => setAccount(e.target.value)}
+            placeholder="e.g. Operating USD"
+            disabled={loading || disabled}
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          Period
+          <input
+            type="month"
+            className="border border-gray-300 rounded px-2 py-1 text-xs"
+            value={period}
+            onChange={e => setPeriod(e.target.value)}
+            disabled={loading || disabled || !account.trim()}
+          />
+        </label>
+        {account.trim() && (
+          <span className="col-span-2 text-gray-500">Open items from this account's previous period are carried into the run.</span>
+        )}
+      </div>
+      <ReconcileSettings
+        config={config}
+        onChange={setConfig}
+        engine={engine}
+        onEngineChange={setEngine}
+        bypassCache={bypassCache}
+        onBypassCacheChange={setBypassCache}
+        fxRates={fxRates}
+        onFxRatesChange={setFxRates}
+        disabled={loading || disabled}
+      />
       {error && <div className="bg-red-100 dark:bg-red-900 text-red-700 dark:text-red-300 px-3 py-2 rounded text-sm">{error}</div>}
-      {loading && (
-        <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2 mb-2">
-          <div className="bg-blue-600 h-2 rounded-full transition-all duration-300" style={{ width: `${progress}%` }}></div>
-        </div>
-      )}
       <div className="flex flex-col sm:flex-row gap-2">
         <button
           type="submit"
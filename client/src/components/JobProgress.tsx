@@ -0,0 +1,67 @@
+import React from 'react';
+import type { JobProgress as Progress, ProvisionalMatch } from '../api';
+
+export interface JobProgressProps {
+  progress: Progress | null;
+  matches: ProvisionalMatch[];
+  onCancel: () => void;
+  cancelling?: boolean;
+}
+
+// Only the latest provisional matches are listed while the job runs
+const MAX_LISTED = 10;
+
+const summarize = (entry: Record<string, unknown>) =>
+  [entry['Date'], entry['Amount'] ?? entry['Debit Amount'] ?? entry['Credit Amount'], entry['Description']]
+    .filter(v => v != null && v !== '')
+    .join(' · ');
+
+const JobProgress: React.FC<JobProgressProps> = ({ progress, matches, onCancel, cancelling }) => {
+  const total = progress?.rows_to_score ?? null;
+  const done = (progress?.rows_scored ?? 0) + (progress?.llm_errors ?? 0);
+  const percent = total ? Math.round((100 * done) / total) : total === 0 ? 100 : 0;
+
+  return (
+    <div className="bg-white rounded-lg shadow-md w-full max-w-xl mx-auto mt-6 p-4 text-sm">
+      <div className="flex items-center justify-between mb-2">
+        <span className="font-semibold text-gray-800">
+          {progress?.status === 'queued' || !progress ? 'Queued…' : `Reconciling… ${percent}%`}
+        </span>
+        <button
+          type="button"
+          className="bg-red-100 hover:bg-red-200 text-red-800 px-3 py-1 rounded text-xs font-semibold disabled:opacity-50"
+          onClick={onCancel}
+          disabled={cancelling}
+        >
+          {cancelling ? 'Cancelling…' : 'Cancel'}
+        </button>
+      </div>
+      <div className="w-full bg-gray-200 rounded-full h-2 mb-2" role="progressbar" aria-valuenow={percent} aria-valuemin={0} aria-valuemax={100}>
+        <div className="bg-blue-600 h-2 rounded-full transition-all duration-300" style={{ width: `${percent}%` }}></div>
+      </div>
+      {progress && (
+        <div className="text-xs text-gray-600">
+          Rows scored {progress.rows_scored}/{total ?? '?'} (of {progress.rows_total} in File A) · Batches {progress.batches_completed}/{progress.batches_sent} completed · Matches so far {progress.matches_found}
+          {progress.llm_errors > 0 && <span className="text-red-700"> · {progress.llm_errors} rows with invalid LLM answers</span>}
+        </div>
+      )}
+      {matches.length > 0 && (
+        <div className="mt-3">
+          <div className="text-xs font-semibold text-gray-700 mb-1">Provisional matches (final assignment may differ)</div>
+          <ul className="divide-y text-xs">
+            {matches.slice(-MAX_LISTED).reverse().map(m => (
+              <li key={`${m.file_a_index}-${m.file_b_index}`} className="py-1 flex justify-between gap-2">
+                <span>
+                  A#{m.file_a_index} {summarize(m.file_a_entry)} ↔ B#{m.file_b_index} {summarize(m.file_b_entry)}
+                </span>
+                <span className="font-bold text-green-700">{m.confidence_score}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default JobProgress;
@@ -0,0 +1,120 @@
+import React, { useEffect, useState } from 'react';
+import axios from 'axios';
+import { apiBase, type LearnedRule } from '../api';
+
+export interface LearnedRulesProps {
+  // Bumped by the parent whenever a session is created or reviewed
+  refreshKey: number;
+}
+
+const KIND_LABELS: Record<LearnedRule['kind'], string> = {
+  description_alias: 'Description',
+  counterparty: 'Counterparty',
+  date_lag: 'Date lag',
+};
+
+const LearnedRules: React.FC<LearnedRulesProps> = ({ refreshKey }) => {
+  const [rules, setRules] = useState<LearnedRule[]>([]);
+  const [minConfirmations, setMinConfirmations] = useState(1);
+  const [account, setAccount] = useState('');
+  const [open, setOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = () => {
+    axios.get(`${apiBase}/learned-rules`)
+      .then(response => {
+        setRules(response.data.rules || []);
+        setMinConfirmations(response.data.min_confirmations ?? 1);
+        setError(null);
+      })
+      .catch(err => setError(err?.response?.data?.error || err.message || 'Could not load learned rules.'));
+  };
+
+  useEffect(load, [refreshKey]);
+
+  const accounts = [...new Set(rules.map(r => r.account))].sort();
+  const selected = accounts.includes(account) ? account : accounts[0] ?? '';
+  const shown = rules.filter(r => r.account === selected);
+
+  const handleDelete = async (id: string) => {
+    try {
+      await axios.delete(`${apiBase}/learned-rules/${id}`);
+      setRules(prev => prev.filter(r => r.id !== id));
+    } catch (err: unknown) {
+      const e = err as { response?: { data?: { error?: string } }; message?: string };
+      setError(e.response?.data?.error || e.message || 'Could not delete learned rule.');
+    }
+  };
+
+  if (rules.length === 0 && !error) return null;
+
+  const isActive = (r: LearnedRule) => r.confirmations >= minConfirmations && r.confirmations > r.rejections;
+
+  return (
+    <div className="bg-white rounded-lg shadow-md w-full max-w-xl mx-auto mt-4">
+      <button
+        type="button"
+        className="w-full text-left px-4 py-2 font-medium text-gray-800"
+        onClick={() => setOpen(o => !o)}
+        aria-expanded={open}
+      >
+        {open ? '▾' : '▸'} Learned matching rules ({rules.length})
+      </button>
+      {open && (
+        <div className="px-4 pb-3 text-xs">
+          {error && <div className="bg-red-100 text-red-700 px-2 py-1 rounded mb-2">{error}</div>}
+          <div className="flex items-center gap-2 mb-2">
+            <select className="border border-gray-300 rounded px-2 py-1" value={selected} onChange={e => setAccount(e.target.value)}>
+              {accounts.map(a => (
+                <option key={a} value={a}>{a || '(no account)'} ({rules.filter(r => r.account === a).length})</option>
+              ))}
+            </select>
+            <span className="text-gray-500">Applied once confirmed {minConfirmations}x and more often than rejected</span>
+          </div>
+          {shown.length > 0 && (
+            <table className="min-w-full">
+              <thead>
+                <tr className="text-left">
+                  <th className="py-1 pr-2 border-b">Kind</th>
+                  <th className="py-1 pr-2 border-b">File A</th>
+                  <th className="py-1 pr-2 border-b">File B</th>
+                  <th className="py-1 pr-2 border-b">Reviews</th>
+                  <th className="py-1 border-b"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {shown.map(rule => (
+                  <tr key={rule.id} className={`align-top ${isActive(rule) ? '' : 'text-gray-400'}`}>
+                    <td className="py-1 pr-2 border-b whitespace-nowrap">{KIND_LABELS[rule.kind]}</td>
+                    {rule.kind === 'date_lag' ? (
+                      <td className="py-1 pr-2 border-b" colSpan={2}>File B dated {rule.lag_days} day(s) after File A</td>
+                    ) : (
+                      <>
+                        <td className="py-1 pr-2 border-b">{rule.example_a}</td>
+                        <td className="py-1 pr-2 border-b">{rule.example_b}</td>
+                      </>
+                    )}
+                    <td className="py-1 pr-2 border-b whitespace-nowrap" title={isActive(rule) ? 'Applied to new runs' : 'Not applied yet'}>
+                      ✓ {rule.confirmations} · ✗ {rule.rejections}
+                    </td>
+                    <td className="py-1 border-b text-right">
+                      <button
+                        type="button"
+                        className="text-red-600 hover:underline"
+                        onClick={() => handleDelete(rule.id)}
+                      >
+                        Delete
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LearnedRules;
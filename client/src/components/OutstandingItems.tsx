@@ -0,0 +1,125 @@
+import React, { useEffect, useState } from 'react';
+import axios from 'axios';
+import { apiBase, type AccountSummary, type OutstandingItem } from '../api';
+
+export interface OutstandingItemsProps {
+  onOpen: (sessionId: string) => void;
+  // Bumped by the parent whenever a session is created or changed
+  refreshKey: number;
+  disabled?: boolean;
+}
+
+interface OutstandingReport {
+  account: string;
+  period: string;
+  session_id: string;
+  statement_end_date: string | null;
+  items: OutstandingItem[];
+  cleared: { file: 'A' | 'B'; index: number; opened_period: string; cleared_period: string }[];
+}
+
+const OutstandingItems: React.FC<OutstandingItemsProps> = ({ onOpen, refreshKey, disabled }) => {
+  const [accounts, setAccounts] = useState<AccountSummary[]>([]);
+  const [account, setAccount] = useState('');
+  const [report, setReport] = useState<OutstandingReport | null>(null);
+  const [open, setOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    axios.get(`${apiBase}/accounts`)
+      .then(response => {
+        const list: AccountSummary[] = response.data.accounts || [];
+        setAccounts(list);
+        setAccount(current => (list.some(a => a.account === current) ? current : list[0]?.account ?? ''));
+        setError(null);
+      })
+      .catch(err => setError(err?.response?.data?.error || err.message || 'Could not load accounts.'));
+  }, [refreshKey]);
+
+  useEffect(() => {
+    if (!account || !open) return;
+    axios.get(`${apiBase}/accounts/${encodeURIComponent(account)}/outstanding`)
+      .then(response => {
+        setReport(response.data);
+        setError(null);
+      })
+      .catch(err => setError(err?.response?.data?.error || err.message || 'Could not load outstanding items.'));
+  }, [account, open, refreshKey]);
+
+  if (accounts.length === 0 && !error) return null;
+
+  return (
+    <div className="bg-white rounded-lg shadow-md w-full max-w-xl mx-auto mt-4">
+      <button
+        type="button"
+        className="w-full text-left px-4 py-2 font-medium text-gray-800"
+        onClick={() => setOpen(o => !o)}
+        aria-expanded={open}
+      >
+        {open ? '▾' : '▸'} Outstanding items by account ({accounts.length})
+      </button>
+      {open && (
+        <div className="px-4 pb-3 text-xs">
+          {error && <div className="bg-red-100 text-red-700 px-2 py-1 rounded mb-2">{error}</div>}
+          <div className="flex items-center gap-2 mb-2">
+            <select className="border border-gray-300 rounded px-2 py-1" value={account} onChange={e => setAccount(e.target.value)}>
+              {accounts.map(a => (
+                <option key={a.account} value={a.account}>{a.account} ({a.open_items} open after {a.latest_period})</option>
+              ))}
+            </select>
+            {report && (
+              <button
+                type="button"
+                className="bg-blue-100 hover:bg-blue-200 text-blue-800 px-2 py-1 rounded font-semibold disabled:opacity-50"
+                onClick={() => onOpen(report.session_id)}
+                disabled={disabled}
+              >
+                Open {report.period}
+              </button>
+            )}
+          </div>
+          {report && (
+            <>
+              <div className="text-gray-500 mb-1">
+                {report.items.length} open after {report.period}
+                {report.statement_end_date && `, aged at ${report.statement_end_date}`}
+                {report.cleared.length > 0 && ` · ${report.cleared.length} carried item${report.cleared.length === 1 ? '' : 's'} cleared in ${report.period}`}
+              </div>
+              {report.items.length > 0 && (
+                <table className="min-w-full">
+                  <thead>
+                    <tr className="text-left">
+                      <th className="py-1 pr-2 border-b">Row</th>
+                      <th className="py-1 pr-2 border-b">Transaction</th>
+                      <th className="py-1 pr-2 border-b">Open since</th>
+                      <th className="py-1 pr-2 border-b">Age (days)</th>
+                      <th className="py-1 border-b">Exception</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.items.map(item => (
+                      <tr key={`${item.file}${item.index}`} className="align-top">
+                        <td className="py-1 pr-2 border-b">{item.file}{item.index}</td>
+                        <td className="py-1 pr-2 border-b">
+                          {[item.entry['Date'], item.entry['Amount'], item.entry['Description']].filter(v => v != null && v !== '').map(String).join(' · ')}
+                        </td>
+                        <td className="py-1 pr-2 border-b whitespace-nowrap">
+                          {item.opened_period}
+                          {item.periods_open > 1 && <span className="text-gray-500"> ({item.periods_open} periods)</span>}
+                        </td>
+                        <td className="py-1 pr-2 border-b text-center">{item.age_days ?? '-'}</td>
+                        <td className="py-1 border-b" title={item.detail ?? undefined}>{item.reason ?? '-'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OutstandingItems;
@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import type { ReconcileConfig } from '../api';
+
+export interface ReconcileSettingsProps {
+  config: ReconcileConfig;
+  onChange: (config: ReconcileConfig) => void;
+  engine: string;
+  onEngineChange: (engine: string) => void;
+  bypassCache: boolean;
+  onBypassCacheChange: (bypass: boolean) => void;
+  fxRates: File | null;
+  onFxRatesChange: (file: File | null) => void;
+  disabled?: boolean;
+}
+
+const inputClass = 'border border-gray-300 rounded px-2 py-1 text-xs w-full';
+
+const ReconcileSettings: React.FC<ReconcileSettingsProps> = ({ config, onChange, engine, onEngineChange, bypassCache, onBypassCacheChange, fxRates, onFxRatesChange, disabled }) => {
+  const [open, setOpen] = useState(false);
+  const set = <K extends keyof ReconcileConfig>(key: K, value: ReconcileConfig[K]) => onChange({ ...config, [key]: value });
+  const num = (value: string) => (value === '' ? 0 : parseFloat(value));
+
+  return (
+    <div className="border border-gray-200 dark:border-gray-700 rounded">
+      <button
+        type="button"
+        className="w-full text-left px-3 py-2 text-sm font-medium text-gray-800 dark:text-gray-200"
+        onClick={() => setOpen(o => !o)}
+        aria-expanded={open}
+      >
+        {open ? '▾' : '▸'} Reconciliation settings
+      </button>
+      {open && (
+        <div className="grid grid-cols-2 gap-3 px-3 pb-3 text-xs text-gray-700 dark:text-gray-300">
+          <label className="flex flex-col gap-1">
+            Match engine
+            <select className={inputClass} value={engine} onChange={e => onEngineChange(e.target.value)} disabled={disabled}>
+              <option value="">Server default</option>
+              <option value="gemini">Gemini (LLM)</option>
+              <option value="openai">OpenAI-compatible / local LLM</option>
+              <option value="rules">Rule-based (offline)</option>
+            </select>
+            <span className="flex items-center gap-1">
+              <input type="checkbox" checked={bypassCache} onChange={e => onBypassCacheChange(e.target.checked)} disabled={disabled} />
+              Ignore cached LLM answers
+            </span>
+          </label>
+          <label className="flex flex-col gap-1">
+            Date window (± days)
+            <input type="number" min={0} className={inputClass} value={config.dateWindowDays} onChange={e => set('dateWindowDays', num(e.target.value))} disabled={disabled} />
+          </label>
+          <label className="flex flex-col gap-1">
+            Amount tolerance
+            <div className="flex gap-1">
+              <input type="number" min={0} step="any" className={inputClass} value={config.amountTolerance} onChange={e => set('amountTolerance', num(e.target.value))} disabled={disabled} />
+              <select className={inputClass} value={config.amountToleranceType} onChange={e => set('amountToleranceType', e.target.value as ReconcileConfig['amountToleranceType'])} disabled={disabled}>
+                <option value="absolute">absolute</option>
+                <option value="percent">%</option>
+              </select>
+            </div>
+          </label>
+          <label className="flex flex-col gap-1">
+            Confidence threshold (0-1)
+            <input type="number" min={0} max={1} step={0.01} className={inputClass} value={config.confidenceThreshold} onChange={e => set('confidenceThreshold', num(e.target.value))} disabled={disabled} />
+          </label>
+          <label className="flex flex-col gap-1">
+            Sign convention
+            <select className={inputClass} value={config.signMode} onChange={e => set('signMode', e.target.value as ReconcileConfig['signMode'])} disabled={disabled}>
+              <option value="same">Same sign in both files</option>
+              <option value="opposite">Opposite sign (bank debit = ledger credit)</option>
+            </select>
+          </label>
+          <label className="flex flex-col gap-1">
+            Statement end date (for ageing unmatched items)
+            <input type="date" className={inputClass} value={config.statementEndDate} onChange={e => set('statementEndDate', e.target.value)} disabled={disabled} placeholder="Latest date in the files" />
+          </label>
+          <label className="flex flex-col gap-1">
+            Currency policy
+            <select className={inputClass} value={config.currencyPolicy} onChange={e => set('currencyPolicy', e.target.value as ReconcileConfig['currencyPolicy'])} disabled={disabled}>
+              <option value="ignore">Ignore currency</option>
+              <option value="same">Same currency only</option>
+              <option value="convert">Convert to reporting currency</option>
+            </select>
+          </label>
+          {config.currencyPolicy === 'convert' && (
+            <>
+              <label className="flex flex-col gap-1">
+                Reporting currency
+                <input type="text" maxLength={3} className={inputClass} value={config.reportingCurrency} onChange={e => set('reportingCurrency', e.target.value.toUpperCase())} disabled={disabled} placeholder="USD" />
+              </label>
+              <label className="flex flex-col gap-1">
+                FX variance tolerance (fraction)
+                <input type="number" min={0} step={0.001} className={inputClass} value={config.fxTolerance} onChange={e => set('fxTolerance', num(e.target.value))} disabled={disabled} />
+              </label>
+              <label className="flex flex-col gap-1 col-span-2">
+                FX rate table (CSV or Excel; optional if the server has one)
+                <input type="file" accept=".csv, .xlsx, .xls" className={inputClass} onChange={e => onFxRatesChange(e.target.files?.[0] ?? null)} disabled={disabled} />
+                {fxRates && <span className="text-gray-500">{fxRates.name}</span>}
+              </label>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReconcileSettings;
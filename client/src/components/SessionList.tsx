@@ -0,0 +1,70 @@
+import React, { useEffect, useState } from 'react';
+import axios from 'axios';
+import { apiBase, type SessionSummary } from '../api';
+
+export interface SessionListProps {
+  activeId: string | null;
+  onOpen: (id: string) => void;
+  // Bumped by the parent whenever a new session is created
+  refreshKey: number;
+  disabled?: boolean;
+}
+
+const SessionList: React.FC<SessionListProps> = ({ activeId, onOpen, refreshKey, disabled }) => {
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const [open, setOpen] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    axios.get(`${apiBase}/sessions`)
+      .then(response => {
+        setSessions(response.data.sessions || []);
+        setError(null);
+      })
+      .catch(err => setError(err?.response?.data?.error || err.message || 'Could not load sessions.'));
+  }, [refreshKey]);
+
+  return (
+    <div className="bg-white rounded-lg shadow-md w-full max-w-xl mx-auto mt-4">
+      <button
+        type="button"
+        className="w-full text-left px-4 py-2 font-medium text-gray-800"
+        onClick={() => setOpen(o => !o)}
+        aria-expanded={open}
+      >
+        {open ? '▾' : '▸'} Past sessions ({sessions.length})
+      </button>
+      {open && (
+        <div className="px-4 pb-3">
+          {error && <div className="bg-red-100 text-red-700 px-2 py-1 rounded text-xs mb-2">{error}</div>}
+          {sessions.length === 0 && !error && <div className="text-gray-500 text-xs py-2">No saved sessions yet.</div>}
+          <ul className="divide-y">
+            {sessions.map(s => (
+              <li key={s.id} className="py-2 flex items-center justify-between gap-2 text-xs">
+                <div>
+                  <div className="font-semibold text-gray-800">
+                    {s.name}
+                    {s.account && <span className="ml-1 font-normal text-gray-500">· {s.account} {s.period}</span>}
+                  </div>
+                  <div className="text-gray-500">
+                    {new Date(s.created_at).toLocaleString()} · {s.matched} matched · {s.unmatched_a}/{s.unmatched_b} unmatched · {s.reviewed}/{s.matched} reviewed
+                  </div>
+                </div>
+                <button
+                  type="button"
+                  className="bg-blue-100 hover:bg-blue-200 text-blue-800 px-2 py-1 rounded font-semibold disabled:opacity-50"
+                  onClick={() => onOpen(s.id)}
+                  disabled={disabled || s.id === activeId}
+                >
+                  {s.id === activeId ? 'Open' : 'Resume'}
+                </button>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SessionList;
@@ -0,0 +1,233 @@
+import express, { Request, Response, Router } from 'express';
+import { Session, loadSessions } from './sessions';
+import { ExceptionReason, UnmatchedException } from './exceptions';
+import { ValidationError } from './config';
+
+const router: Router = express.Router();
+
+// Monthly periods (2025-01), or a period end date (2025-01-31) for shorter cycles
+const PERIOD = /^\d{4}-(0[1-9]|1[0-2])(-(0[1-9]|[12]\d|3[01]))?$/;
+const MAX_ACCOUNT_LENGTH = 100;
+
+/**
+ * Where a run sits in an account's sequence of periods
+ */
+export interface PeriodSpec {
+  account: string;
+  period: string;
+}
+
+/**
+ * An open item brought in from the prior period's session
+ */
+export interface CarriedItem {
+  from_session: string;
+  from_period: string;
+  // Row index in the prior session
+  from_index: number;
+  // Period the item was first left open
+  opened_period: string;
+  // Period the item was matched in; null while it is still open
+  cleared_period: string | null;
+}
+
+export interface CarryForward {
+  account: string;
+  period: string;
+  prior_session_id: string | null;
+  prior_period: string | null;
+  // Carried rows by row index in this run; they follow the uploaded rows
+  file_a: Record<number, CarriedItem>;
+  file_b: Record<number, CarriedItem>;
+}
+
+export interface OutstandingItem {
+  file: 'A' | 'B';
+  index: number;
+  entry: Record<string, any>;
+  opened_period: string;
+  // Periods the item has been open, counting the current one
+  periods_open: number;
+  // Days from the item's date to the statement end date
+  age_days: number | null;
+  reason: ExceptionReason | null;
+  detail: string | null;
+}
+
+/**
+ * Read `account` and `period` from the upload form fields; null when the run is not part of a period sequence
+ */
+export function parsePeriodSpec(body: Record<string, any> | undefined): PeriodSpec | null {
+  const account = typeof body?.account === 'string' ? body.account.trim() : '';
+  const period = typeof body?.period === 'string' ? body.period.trim() : '';
+  if (!account && !period) return null;
+  if (!account) throw new ValidationError('A period needs an account.');
+  if (account.length > MAX_ACCOUNT_LENGTH) throw new ValidationError(`Account name is longer than ${MAX_ACCOUNT_LENGTH} characters.`);
+  if (!period) throw new ValidationError(`Account ${account} needs a period, e.g. 2025-01.`);
+  if (!PERIOD.test(period)) throw new ValidationError(`Invalid period: ${period}. Expected YYYY-MM or YYYY-MM-DD.`);
+  return { account, period };
+}
+
+/**
+ * Sessions of one account, oldest period first; reruns of a period in creation order
+ */
+function accountSessions(account: string, sessions: Session[] = loadSessions()): Session[] {
+  return sessions
+    .filter(s => s.account === account && s.period)
+    .sort((x, y) => x.period!.localeCompare(y.period!) || x.created_at.localeCompare(y.created_at));
+}
+
+// The latest run of the account before the given period
+function priorSession(spec: PeriodSpec): Session | null {
+  const earlier = accountSessions(spec.account).filter(s => s.period! < spec.period);
+  return earlier[earlier.length - 1] ?? null;
+}
+
+// Period an open row of a session was first left open in
+function openedPeriod(session: Session, file: 'A' | 'B', index: number): string {
+  const carried = session.result.carry_forward?.[file === 'A' ? 'file_a' : 'file_b']?.[index] as CarriedItem | undefined;
+  return carried?.opened_period ?? session.period!;
+}
+
+/**
+ * Append the prior period's open items to this run's rows, so they can match
+ * against the new period's transactions
+ */
+export function withCarryForward(
+  spec: PeriodSpec,
+  rowsA: Record<string, any>[],
+  rowsB: Record<string, any>[]
+): { rowsA: Record<string, any>[]; rowsB: Record<string, any>[]; carryForward: CarryForward } {
+  const prior = priorSession(spec);
+  const carryForward: CarryForward = {
+    ...spec,
+    prior_session_id: prior?.id ?? null,
+    prior_period: prior?.period ?? null,
+    file_a: {},
+    file_b: {},
+  };
+  const carry = (file: 'A' | 'B', rows: Record<string, any>[]) => {
+    if (!prior) return rows;
+    const entries: Record<string, any>[] = prior.result[`unmatched_file_${file.toLowerCase()}_entries`] || [];
+    const indices: number[] = prior.result[`unmatched_file_${file.toLowerCase()}_indices`] || [];
+    const target = file === 'A' ? carryForward.file_a : carryForward.file_b;
+    const out = [...rows];
+    entries.forEach((entry, k) => {
+      target[out.length] = {
+        from_session: prior.id,
+        from_period: prior.period!,
+        from_index: indices[k],
+        opened_period: openedPeriod(prior, file, indices[k]),
+        cleared_period: null,
+      };
+      out.push(entry);
+    });
+    return out;
+  };
+  return { rowsA: carry('A', rowsA), rowsB: carry('B', rowsB), carryForward };
+}
+
+/**
+ * Mark carried items the run matched as cleared in its period
+ */
+export function markCleared(carryForward: CarryForward, matches: { file_a_indices: number[]; file_b_indices: number[] }[]) {
+  for (const m of matches) {
+    for (const i of m.file_a_indices) if (carryForward.file_a[i]) carryForward.file_a[i].cleared_period = carryForward.period;
+    for (const j of m.file_b_indices) if (carryForward.file_b[j]) carryForward.file_b[j].cleared_period = carryForward.period;
+  }
+}
+
+/**
+ * Items still open after the account's latest period, oldest first, and the
+ * carried items that cleared in it
+ */
+export function outstandingReport(account: string) {
+  const sessions = accountSessions(account);
+  const latest = sessions[sessions.length - 1];
+  if (!latest) return null;
+  const periods = [...new Set(sessions.map(s => s.period!))];
+  const result = latest.result;
+
+  const items: OutstandingItem[] = [];
+  for (const file of ['A', 'B'] as const) {
+    const key = file.toLowerCase();
+    const entries: Record<string, any>[] = result[`unmatched_file_${key}_entries`] || [];
+    const indices: number[] = result[`unmatched_file_${key}_indices`] || [];
+    const exceptions: Record<number, UnmatchedException> = result[`unmatched_file_${key}_exceptions`] || {};
+    entries.forEach((entry, k) => {
+      const opened = openedPeriod(latest, file, indices[k]);
+      const exception = exceptions[indices[k]];
+      items.push({
+        file,
+        index: indices[k],
+        entry,
+        opened_period: opened,
+        periods_open: periods.filter(p => p >= opened && p <= latest.period!).length,
+        age_days: exception?.age_days ?? null,
+        reason: exception?.reason ?? null,
+        detail: exception?.detail ?? null,
+      });
+    });
+  }
+  items.sort((x, y) => (y.age_days ?? -Infinity) - (x.age_days ?? -Infinity) || x.opened_period.localeCompare(y.opened_period));
+
+  // The match that cleared a carried row, and the row as matched
+  const clearedBy = (file: 'A' | 'B', index: number) => {
+    const side = file === 'A' ? 'file_a' : 'file_b';
+    const match = (result.matches || []).find((m: any) => m[`${side}_indices`].includes(index));
+    if (!match) return { match_id: null, entry: null };
+    const entry = match[`${side}_entry`] ?? match[`${side}_entries`]?.[match[`${side}_indices`].indexOf(index)];
+    return { match_id: match.id as string, entry: (entry ?? null) as Record<string, any> | null };
+  };
+  const carry = result.carry_forward as CarryForward | undefined;
+  const cleared = (['A', 'B'] as const).flatMap(file =>
+    Object.entries((file === 'A' ? carry?.file_a : carry?.file_b) ?? {})
+      .filter(([, item]) => item.cleared_period)
+      .map(([index, item]) => ({ file, index: Number(index), ...item, ...clearedBy(file, Number(index)) }))
+  );
+
+  return {
+    account,
+    period: latest.period!,
+    session_id: latest.id,
+    statement_end_date: result.statement_end_date ?? null,
+    periods,
+    items,
+    cleared,
+  };
+}
+
+/**
+ * Accounts with their periods, latest first
+ */
+export function listAccounts() {
+  const sessions = loadSessions();
+  const accounts = [...new Set(sessions.map(s => s.account).filter((a): a is string => !!a))].sort();
+  return accounts.map(account => {
+    const runs = accountSessions(account, sessions);
+    const latest = runs[runs.length - 1];
+    return {
+      account,
+      latest_period: latest.period!,
+      latest_session_id: latest.id,
+      open_items: (latest.result.unmatched_file_a_entries?.length ?? 0) + (latest.result.unmatched_file_b_entries?.length ?? 0),
+      periods: runs.map(s => ({ period: s.period!, session_id: s.id, created_at: s.created_at })).reverse(),
+    };
+  });
+}
+
+// Route setup
+router.get('/accounts', (_req: Request, res: Response) => {
+  res.json({ accounts: listAccounts() });
+});
+
+router.get('/accounts/:account/outstanding', (req: Request, res: Response) => {
+  const report = outstandingReport(String(req.params.account));
+  if (!report) {
+    res.status(404).json({ error: `Unknown account: ${req.params.account}` });
+    return;
+  }
+  res.json(report);
+});
+
+export default router;
@@ -0,0 +1,170 @@
+// Confidences closer than this are treated as equal
+const TIE_EPSILON = 0.005;
+// Components larger than this skip the exhaustive alternative-optimum check
+const MAX_EXACT_AMBIGUITY_ROWS = 50;
+
+export interface CandidateEdge {
+  a: number;
+  b: number;
+  confidence: number;
+}
+
+export interface AssignmentResult {
+  assigned: CandidateEdge[];
+  // File A rows whose best assignment is not unique, with their competing edges
+  ambiguous: { a: number; edges: CandidateEdge[] }[];
+}
+
+/**
+ * Hungarian algorithm (Kuhn-Munkres, O(n^2 m)) on an n x m weight matrix with
+ * n <= m. Returns, for each row, the column it is assigned to, maximizing the
+ * total weight.
+ */
+function hungarian(weights: number[][]): number[] {
+  const n = weights.length;
+  const m = weights[0]?.length ?? 0;
+  const INF = Number.POSITIVE_INFINITY;
+  const maxW = Math.max(0, ...weights.flat());
+  // Minimize (maxW - w); 1-indexed arrays as in the classic formulation
+  const u = new Array(n + 1).fill(0);
+  const v = new Array(m + 1).fill(0);
+  const p = new Array(m + 1).fill(0);
+  const way = new Array(m + 1).fill(0);
+  for (let i = 1; i <= n; i++) {
+    p[0] = i;
+    let j0 = 0;
+    const minv = new Array(m + 1).fill(INF);
+    const used = new Array(m + 1).fill(false);
+    do {
+      used[j0] = true;
+      const i0 = p[j0];
+      let delta = INF;
+      let j1 = 0;
+      for (let j = 1; j <= m; j++) {
+        if (used[j]) continue;
+        const cur = maxW - weights[i0 - 1][j - 1] - u[i0] - v[j];
+        if (cur < minv[j]) {
+          minv[j] = cur;
+          way[j] = j0;
+        }
+        if (minv[j] < delta) {
+          delta = minv[j];
+          j1 = j;
+        }
+      }
+      for (let j = 0; j <= m; j++) {
+        if (used[j]) {
+          u[p[j]] += delta;
+          v[j] -= delta;
+        } else {
+          minv[j] -= delta;
+        }
+      }
+      j0 = j1;
+    } while (p[j0] !== 0);
+    do {
+      const j1 = way[j0];
+      p[j0] = p[j1];
+      j0 = j1;
+    } while (j0 !== 0);
+  }
+  const rowToCol = new Array(n).fill(-1);
+  for (let j = 1; j <= m; j++) if (p[j] > 0) rowToCol[p[j] - 1] = j - 1;
+  return rowToCol;
+}
+
+/**
+ * Best assignment of one connected component's edges; non-edges weigh 0 and
+ * are dropped from the result
+ */
+function solveComponent(rows: number[], cols: number[], edges: CandidateEdge[], skip?: CandidateEdge) {
+  const transpose = rows.length > cols.length;
+  const [r, c] = transpose ? [cols, rows] : [rows, cols];
+  const rIndex = new Map(r.map((x, k) => [x, k]));
+  const cIndex = new Map(c.map((x, k) => [x, k]));
+  const weights = r.map(() => new Array(c.length).fill(0));
+  const lookup = new Map<string, CandidateEdge>();
+  for (const e of edges) {
+    if (e === skip) continue;
+    const [ri, ci] = transpose ? [rIndex.get(e.b)!, cIndex.get(e.a)!] : [rIndex.get(e.a)!, cIndex.get(e.b)!];
+    weights[ri][ci] = e.confidence;
+    lookup.set(`${ri}:${ci}`, e);
+  }
+  const assigned: CandidateEdge[] = [];
+  hungarian(weights).forEach((ci, ri) => {
+    const e = lookup.get(`${ri}:${ci}`);
+    if (e) assigned.push(e);
+  });
+  const total = assigned.reduce((s, e) => s + e.confidence, 0);
+  return { assigned, total };
+}
+
+/**
+ * Split the candidate graph into connected components (union-find over A/B rows)
+ */
+function components(edges: CandidateEdge[]): CandidateEdge[][] {
+  const parent = new Map<string, string>();
+  const find = (x: string): string => {
+    while (parent.get(x) !== x) {
+      parent.set(x, parent.get(parent.get(x)!)!);
+      x = parent.get(x)!;
+    }
+    return x;
+  };
+  for (const e of edges) {
+    for (const key of [`a${e.a}`, `b${e.b}`]) if (!parent.has(key)) parent.set(key, key);
+    parent.set(find(`a${e.a}`), find(`b${e.b}`));
+  }
+  const groups = new Map<string, CandidateEdge[]>();
+  for (const e of edges) {
+    const root = find(`a${e.a}`);
+    if (!groups.has(root)) groups.set(root, []);
+    groups.get(root)!.push(e);
+  }
+  return [...groups.values()];
+}
+
+/**
+ * Assign File A rows to File B rows so that total confidence is maximal.
+ * An assigned pair is ambiguous when dropping it still leaves an equally good
+ * assignment (a tie or a contested candidate); such rows are not assigned but
+ * reported with their competing edges for review.
+ */
+export function assignOptimal(edges: CandidateEdge[]): AssignmentResult {
+  const assigned: CandidateEdge[] = [];
+  const ambiguous: AssignmentResult['ambiguous'] = [];
+
+  for (const comp of components(edges)) {
+    const rows = [...new Set(comp.map(e => e.a))];
+    const cols = [...new Set(comp.map(e => e.b))];
+    const best = solveComponent(rows, cols, comp);
+
+    const ambiguousA = new Set<number>();
+    if (rows.length <= MAX_EXACT_AMBIGUITY_ROWS) {
+      for (const e of best.assigned) {
+        const alt = solveComponent(rows, cols, comp, e);
+        if (alt.total < best.total - TIE_EPSILON) continue;
+        // Both the displaced row and the rows the alternative reassigns are in contention
+        ambiguousA.add(e.a);
+        for (const x of alt.assigned) if (!best.assigned.includes(x)) ambiguousA.add(x.a);
+      }
+    } else {
+      // Large component: fall back to flagging rows whose top two candidates tie
+      for (const e of best.assigned) {
+        const rivals = comp.filter(x => x !== e && (x.a === e.a || x.b === e.b));
+        if (rivals.some(x => x.confidence >= e.confidence - TIE_EPSILON)) ambiguousA.add(e.a);
+      }
+    }
+
+    const settled = best.assigned.filter(e => !ambiguousA.has(e.a));
+    const settledB = new Set(settled.map(e => e.b));
+    assigned.push(...settled);
+    for (const a of ambiguousA) {
+      const competing = comp
+        .filter(e => e.a === a && !settledB.has(e.b))
+        .sort((x, y) => y.confidence - x.confidence);
+      ambiguous.push({ a, edges: competing });
+    }
+  }
+  return { assigned, ambiguous };
+}
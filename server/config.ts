@@ -0,0 +1,187 @@
+import express, { Request, Response, Router } from 'express';
+import dotenv from 'dotenv';
+import { SignMode, dateToTime, normalizeDateValue } from './normalize';
+import { FxTable, loadDefaultFxRates, parseFxRates } from './fx';
+import { LearnedRule } from './learnedRules';
+import { defaultEngineName, listMatchEngines } from './matchers';
+
+// Load environment variables
+dotenv.config();
+
+const router: Router = express.Router();
+
+/**
+ * A request setting that cannot be used (config, period, engine); routes
+ * answer it with 400
+ */
+export class ValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ValidationError';
+  }
+}
+
+const LLM_MATCH_THRESHOLD = parseFloat(process.env.LLM_MATCH_THRESHOLD || '0.85');
+const FX_VARIANCE_TOLERANCE = parseFloat(process.env.FX_VARIANCE_TOLERANCE || '0.01');
+
+/**
+ * ignore: compare amounts regardless of currency
+ * same: only rows in the same currency can match
+ * convert: convert both sides into reportingCurrency first
+ */
+export type CurrencyPolicy = 'ignore' | 'same' | 'convert';
+
+export interface ReconcileConfig {
+  // Candidate pre-filter: ±days between dates
+  dateWindowDays: number;
+  // Candidate pre-filter: absolute amount difference, or percent of the larger amount
+  amountTolerance: number;
+  amountToleranceType: 'absolute' | 'percent';
+  // Minimum confidence for a proposed match to be accepted
+  confidenceThreshold: number;
+  currencyPolicy: CurrencyPolicy;
+  reportingCurrency: string | null;
+  // 'opposite': File B amounts are expected with the opposite sign (bank debit = ledger credit)
+  signMode: SignMode;
+  // Flag cross-currency matches whose converted amounts differ by more than this fraction
+  fxTolerance: number;
+  // Unmatched items are aged against this date (MM/DD/YYYY); null: the latest date in either file
+  statementEndDate: string | null;
+}
+
+export interface ReconcileOptions extends Partial<ReconcileConfig> {
+  fxRates?: FxTable;
+  // Rules learned from reviews of the account's earlier sessions
+  learnedRules?: LearnedRule[];
+}
+
+export const DEFAULT_CONFIG: ReconcileConfig = {
+  dateWindowDays: 7,
+  amountTolerance: 500,
+  amountToleranceType: 'absolute',
+  confidenceThreshold: LLM_MATCH_THRESHOLD,
+  currencyPolicy: 'ignore',
+  reportingCurrency: null,
+  signMode: 'same',
+  fxTolerance: FX_VARIANCE_TOLERANCE,
+  statementEndDate: null,
+};
+
+/**
+ * Fill in defaults and check the combination is usable
+ */
+export function resolveConfig(options: ReconcileOptions = {}): ReconcileConfig {
+  const { fxRates: _fxRates, learnedRules: _learnedRules, ...overrides } = options;
+  const config: ReconcileConfig = { ...DEFAULT_CONFIG };
+  for (const key of Object.keys(overrides) as (keyof ReconcileConfig)[]) copyField(config, overrides, key);
+  if (config.reportingCurrency) {
+    config.reportingCurrency = config.reportingCurrency.toUpperCase();
+    // A reporting currency on its own implies conversion
+    if (options.currencyPolicy === undefined) config.currencyPolicy = 'convert';
+  }
+  if (config.statementEndDate) {
+    const endDate = normalizeDateValue(config.statementEndDate);
+    if (isNaN(dateToTime(endDate))) throw new ValidationError(`Invalid statementEndDate: ${config.statementEndDate}`);
+    config.statementEndDate = endDate;
+  }
+  if (config.currencyPolicy === 'convert' && !config.reportingCurrency) {
+    throw new ValidationError("currencyPolicy 'convert' needs a reportingCurrency.");
+  }
+  if (!(config.dateWindowDays >= 0)) throw new ValidationError(`Invalid dateWindowDays: ${config.dateWindowDays}`);
+  if (!(config.amountTolerance >= 0)) throw new ValidationError(`Invalid amountTolerance: ${config.amountTolerance}`);
+  if (!(config.confidenceThreshold >= 0 && config.confidenceThreshold <= 1)) {
+    throw new ValidationError(`Invalid confidenceThreshold: ${config.confidenceThreshold}. Expected 0-1.`);
+  }
+  if (!(config.fxTolerance >= 0)) throw new ValidationError(`Invalid fxTolerance: ${config.fxTolerance}`);
+  if (!['absolute', 'percent'].includes(config.amountToleranceType)) {
+    throw new ValidationError(`Invalid amountToleranceType: ${config.amountToleranceType}. Expected 'absolute' or 'percent'.`);
+  }
+  if (!['ignore', 'same', 'convert'].includes(config.currencyPolicy)) {
+    throw new ValidationError(`Invalid currencyPolicy: ${config.currencyPolicy}. Expected 'ignore', 'same' or 'convert'.`);
+  }
+  if (!['same', 'opposite'].includes(config.signMode)) {
+    throw new ValidationError(`Invalid signMode: ${config.signMode}. Expected 'same' or 'opposite'.`);
+  }
+  return config;
+}
+
+const NUMERIC_FIELDS = [
+  'dateWindowDays', 'amountTolerance', 'confidenceThreshold', 'fxTolerance',
+] as const satisfies readonly (keyof ReconcileConfig)[];
+const STRING_FIELDS = [
+  'amountToleranceType', 'currencyPolicy', 'reportingCurrency', 'signMode', 'statementEndDate',
+] as const satisfies readonly (keyof ReconcileConfig)[];
+type StringField = typeof STRING_FIELDS[number];
+
+function copyField<K extends keyof ReconcileConfig>(config: ReconcileConfig, overrides: Partial<ReconcileConfig>, key: K) {
+  const value = overrides[key];
+  if (value !== undefined) config[key] = value;
+}
+
+// The value is only checked against the field's allowed values by resolveConfig
+function setStringField<K extends StringField>(options: ReconcileOptions, key: K, value: string) {
+  options[key] = value as ReconcileConfig[K];
+}
+
+/**
+ * Read reconciliation options from the /reconcile form fields: a JSON `config`
+ * field, and/or the same settings as individual fields (which take precedence)
+ */
+export function parseReconcileOptions(
+  body: Record<string, any> | undefined,
+  fxFile?: Express.Multer.File
+): ReconcileOptions {
+  let raw: Record<string, any> = {};
+  if (body?.config) {
+    try {
+      raw = typeof body.config === 'string' ? JSON.parse(body.config) : body.config;
+    } catch {
+      throw new ValidationError('Invalid config: expected a JSON object.');
+    }
+    if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+      throw new ValidationError('Invalid config: expected a JSON object.');
+    }
+  }
+  for (const key of [...NUMERIC_FIELDS, ...STRING_FIELDS]) {
+    if (body?.[key] != null && body[key] !== '') raw[key] = body[key];
+  }
+
+  const options: ReconcileOptions = {};
+  for (const key of NUMERIC_FIELDS) {
+    if (raw[key] == null || raw[key] === '') continue;
+    const num = typeof raw[key] === 'number' ? raw[key] : parseFloat(raw[key]);
+    if (isNaN(num)) throw new ValidationError(`Invalid ${key}: ${raw[key]}`);
+    options[key] = num;
+  }
+  for (const key of STRING_FIELDS) {
+    if (raw[key] == null || raw[key] === '') continue;
+    setStringField(options, key, String(raw[key]).trim());
+  }
+
+  // Validate early so a bad request fails before any matching work
+  const config = resolveConfig(options);
+  if (config.currencyPolicy === 'convert') {
+    try {
+      options.fxRates = fxFile ? parseFxRates(fxFile.buffer, fxFile.originalname) : loadDefaultFxRates();
+    } catch (error: any) {
+      // An unreadable upload is the request's fault; a bad FX_RATES_FILE is not
+      if (!fxFile) throw error;
+      throw new ValidationError(`${fxFile.originalname}: ${error.message}`);
+    }
+    if (!options.fxRates) {
+      throw new ValidationError('A reporting currency needs an FX rate table: upload fxRates or set FX_RATES_FILE.');
+    }
+  }
+  return options;
+}
+
+// Route setup
+router.get('/config', (_req: Request, res: Response) => {
+  res.json(DEFAULT_CONFIG);
+});
+
+router.get('/engines', (_req: Request, res: Response) => {
+  res.json({ default: defaultEngineName(), engines: listMatchEngines() });
+});
+
+export default router;
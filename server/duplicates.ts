@@ -0,0 +1,108 @@
+import { daysBetween, getRowAmount, getRowCurrency, getRowReference } from './normalize';
+import { descriptionSimilarity, descriptionText } from './matchers';
+
+// Rows booked further apart than this are separate transactions
+const DUPLICATE_DATE_WINDOW = parseInt(process.env.DUPLICATE_DATE_WINDOW_DAYS || '3', 10);
+// Without references, descriptions must be at least this similar
+const DUPLICATE_DESCRIPTION_SIMILARITY = 0.6;
+
+export type DuplicateStatus = 'genuine' | 'erroneous';
+
+/**
+ * Rows of one file that look like the same transaction booked more than once
+ */
+export interface DuplicateGroup {
+  // e.g. "A3+A7"
+  id: string;
+  file: 'A' | 'B';
+  indices: number[];
+  entries: Record<string, any>[];
+  confidence: number;
+  reason: string;
+}
+
+/**
+ * Confidence (0-1) that two rows with the same amount are one transaction
+ * booked twice, with the reason; null if they are not duplicates
+ */
+function duplicateScore(x: Record<string, any>, y: Record<string, any>): { confidence: number; reason: string } | null {
+  const days = x['Date'] && y['Date'] ? daysBetween(x['Date'], y['Date']) : NaN;
+  if (isNaN(days) || days > DUPLICATE_DATE_WINDOW) return null;
+  const refX = getRowReference(x);
+  const refY = getRowReference(y);
+  // Different references are different transactions, whatever the amount
+  if (refX && refY && refX !== refY) return null;
+  const similarity = descriptionSimilarity(descriptionText(x), descriptionText(y));
+  const sameRef = !!refX && refX === refY;
+  if (!sameRef && similarity < DUPLICATE_DESCRIPTION_SIMILARITY) return null;
+
+  const reasons = ['same amount', days === 0 ? 'same date' : `dates ${days} day(s) apart`];
+  if (sameRef) reasons.push(`same reference ${x['Reference'] ?? refX}`);
+  reasons.push(`descriptions ${Math.round(similarity * 100)}% similar`);
+  const confidence = 0.5 + (sameRef ? 0.25 : 0) + 0.15 * (1 - days / Math.max(DUPLICATE_DATE_WINDOW, 1)) + 0.1 * similarity;
+  return { confidence: Math.min(1, confidence), reason: reasons.join(', ') };
+}
+
+/**
+ * Group likely duplicates within one file: rows with the same amount and
+ * currency, close dates, and the same reference or similar descriptions.
+ * Rows linked through another row end up in one group.
+ */
+export function findDuplicates(rows: Record<string, any>[], file: 'A' | 'B'): DuplicateGroup[] {
+  const byAmount = new Map<string, number[]>();
+  rows.forEach((row, i) => {
+    const amount = getRowAmount(row);
+    if (isNaN(amount)) return;
+    const key = `${Math.round(amount * 100)}|${getRowCurrency(row) ?? ''}`;
+    if (!byAmount.has(key)) byAmount.set(key, []);
+    byAmount.get(key)!.push(i);
+  });
+
+  const groups: DuplicateGroup[] = [];
+  for (const indices of byAmount.values()) {
+    if (indices.length < 2) continue;
+    // Union-find over the pairs that look like duplicates
+    const parent = new Map(indices.map(i => [i, i]));
+    const root = (i: number): number => (parent.get(i) === i ? i : root(parent.get(i)!));
+    const links = new Map<number, { confidence: number; reason: string }[]>();
+    for (let p = 0; p < indices.length; p++) {
+      for (let q = p + 1; q < indices.length; q++) {
+        const score = duplicateScore(rows[indices[p]], rows[indices[q]]);
+        if (!score) continue;
+        parent.set(root(indices[q]), root(indices[p]));
+        const r = root(indices[p]);
+        if (!links.has(r)) links.set(r, []);
+        links.get(r)!.push(score);
+      }
+    }
+    const members = new Map<number, number[]>();
+    for (const i of indices) {
+      const r = root(i);
+      if (!members.has(r)) members.set(r, []);
+      members.get(r)!.push(i);
+    }
+    for (const group of members.values()) {
+      if (group.length < 2) continue;
+      // Links were filed under the root at the time; collect them from all members
+      const scores = group.flatMap(i => links.get(i) ?? []);
+      const best = scores.reduce((x, y) => (y.confidence > x.confidence ? y : x));
+      groups.push({
+        id: group.map(i => `${file}${i}`).join('+'),
+        file,
+        indices: group,
+        entries: group.map(i => rows[i]),
+        confidence: parseFloat(Math.min(...scores.map(s => s.confidence)).toFixed(2)),
+        reason: `${group.length} rows: ${best.reason}`,
+      });
+    }
+  }
+  return groups.sort((x, y) => x.indices[0] - y.indices[0]);
+}
+
+/**
+ * Every group member but the first, which stands in for the group when
+ * matching, so a copy booked twice does not block the original's match
+ */
+export function duplicateExtras(groups: DuplicateGroup[]): Set<number> {
+  return new Set(groups.flatMap(g => g.indices.slice(1)));
+}
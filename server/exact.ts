@@ -0,0 +1,94 @@
+import { getRowAmount, getRowReference } from './normalize';
+import { MatchCandidate } from './matchers';
+
+export interface ExactMatch {
+  a: number;
+  b: number;
+  reason: string;
+}
+
+function cents(row: Record<string, any>): number | null {
+  const amount = getRowAmount(row);
+  return isNaN(amount) ? null : Math.round(amount * 100);
+}
+
+/**
+ * Pair rows whose key occurs exactly once among the open rows of each file
+ */
+function uniqueKeyPairs(
+  open: { a: number[]; b: number[] },
+  keyA: (i: number) => string | null,
+  keyB: (j: number) => string | null
+): { a: number; b: number; key: string }[] {
+  const group = (indices: number[], keyOf: (k: number) => string | null) => {
+    const byKey = new Map<string, number[]>();
+    for (const k of indices) {
+      const key = keyOf(k);
+      if (key == null) continue;
+      if (!byKey.has(key)) byKey.set(key, []);
+      byKey.get(key)!.push(k);
+    }
+    return byKey;
+  };
+  const groupsA = group(open.a, keyA);
+  const groupsB = group(open.b, keyB);
+  const pairs: { a: number; b: number; key: string }[] = [];
+  for (const [key, as] of groupsA) {
+    const bs = groupsB.get(key);
+    if (as.length === 1 && bs?.length === 1) pairs.push({ a: as[0], b: bs[0], key });
+  }
+  return pairs;
+}
+
+/**
+ * Deterministic first pass over the comparison rows. Two keys are tried in turn:
+ * the same reference/check number and amount, then the same amount and date.
+ * A pair is only taken when its key is unique in both files and the File B row
+ * is already one of the File A row's candidates. Held-back rows (extra copies
+ * of a duplicate group) do not count against uniqueness and are left open.
+ */
+export function findExactMatches(
+  rowsA: Record<string, any>[],
+  rowsB: Record<string, any>[],
+  candidates: MatchCandidate[][],
+  heldBack: { a: Set<number>; b: Set<number> } = { a: new Set(), b: new Set() }
+): ExactMatch[] {
+  const matches: ExactMatch[] = [];
+  const usedA = new Set<number>();
+  const usedB = new Set<number>();
+  const open = () => ({
+    a: rowsA.map((_, i) => i).filter(i => !usedA.has(i) && !heldBack.a.has(i)),
+    b: rowsB.map((_, j) => j).filter(j => !usedB.has(j) && !heldBack.b.has(j)),
+  });
+  const isCandidate = (i: number, j: number) => candidates[i].some(c => c.idx === j);
+  const take = (i: number, j: number, reason: string) => {
+    matches.push({ a: i, b: j, reason });
+    usedA.add(i);
+    usedB.add(j);
+  };
+
+  const refKey = (row: Record<string, any>) => {
+    const ref = getRowReference(row);
+    const amount = cents(row);
+    return ref && amount != null ? `${ref}|${amount}` : null;
+  };
+  for (const { a, b } of uniqueKeyPairs(open(), i => refKey(rowsA[i]), j => refKey(rowsB[j]))) {
+    if (!isCandidate(a, b)) continue;
+    const sameDate = rowsA[a]['Date'] === rowsB[b]['Date'];
+    take(a, b, `Exact match: reference ${getRowReference(rowsA[a])} and amount agree${sameDate ? ', same date' : ''}`);
+  }
+
+  const dateKey = (row: Record<string, any>) => {
+    const amount = cents(row);
+    return row['Date'] && amount != null ? `${row['Date']}|${amount}` : null;
+  };
+  for (const { a, b } of uniqueKeyPairs(open(), i => dateKey(rowsA[i]), j => dateKey(rowsB[j]))) {
+    if (!isCandidate(a, b)) continue;
+    // Differing references mean different transactions even on the same day
+    const refA = getRowReference(rowsA[a]);
+    const refB = getRowReference(rowsB[b]);
+    if (refA && refB && refA !== refB) continue;
+    take(a, b, 'Exact match: same amount and date, the only such pair in both files');
+  }
+  return matches;
+}
@@ -0,0 +1,266 @@
+import { MatchResult, scorePair } from './matchers';
+import { LlmRowError } from './llmOutput';
+import { dateToTime, formatDateParts, getRowAmount, getRowCurrency } from './normalize';
+import { ReconcileConfig } from './config';
+
+/**
+ * Why a row ended up unmatched
+ * no_candidates: nothing on the other side within the date window and amount tolerance
+ * below_threshold: candidates were scored, none reached the confidence threshold
+ * candidate_taken: the row's best candidate was matched to another row by one of the passes
+ * ambiguous: equally good candidates, left for a reviewer
+ * currency_mismatch: only rows in another currency (or without an FX rate) were close
+ * parse_error: the row's date or amount could not be read
+ * llm_failure: the LLM answer for the row stayed invalid
+ * reviewer_unmatched: a reviewer broke the row's match
+ */
+export type ExceptionReason =
+  | 'no_candidates'
+  | 'below_threshold'
+  | 'candidate_taken'
+  | 'ambiguous'
+  | 'currency_mismatch'
+  | 'parse_error'
+  | 'llm_failure'
+  | 'reviewer_unmatched';
+
+/**
+ * The closest row on the other side that is still unmatched, and how the match
+ * engine scored it (confidence is null when it was never scored)
+ */
+export interface NearMiss {
+  index: number;
+  entry: Record<string, any>;
+  confidence: number | null;
+  reason: string;
+}
+
+/**
+ * The match that consumed a row's best candidate
+ */
+export interface TakenBy {
+  // The candidate, on the other side
+  index: number;
+  match_id: string;
+  pass: string;
+  // Rows on this row's side that the candidate was matched to
+  partners: number[];
+}
+
+export interface UnmatchedException {
+  reason: ExceptionReason;
+  detail: string;
+  near_miss: NearMiss | null;
+  // candidate_taken: where the best candidate went
+  taken_by?: TakenBy;
+  // Days between the row's date and the statement end date; null if the row has no readable date
+  age_days: number | null;
+}
+
+/**
+ * What the reconciliation run knew about each row, as the File A side sees it
+ */
+export interface ExceptionContext {
+  // Rows as uploaded (dates normalized) and as compared (sign-adjusted, converted)
+  normA: Record<string, any>[];
+  normB: Record<string, any>[];
+  cmpA: Record<string, any>[];
+  cmpB: Record<string, any>[];
+  // Pre-filter candidates of each File A row
+  candidates: { idx: number }[][];
+  scored: Record<number, MatchResult[]>;
+  // Matches of every pass (exact, learned, engine, split), which consumed their rows
+  matches: { id: string; pass: string; file_a_indices: number[]; file_b_indices: number[] }[];
+  llmErrors: LlmRowError[];
+  ambiguousA: Set<number>;
+  ambiguousB: Set<number>;
+  config: ReconcileConfig;
+  // Whether two rows fall within the date window and amount tolerance, currency aside
+  withinWindow: (a: Record<string, any>, b: Record<string, any>) => boolean;
+  currenciesCompatible: (a: Record<string, any>, b: Record<string, any>) => boolean;
+}
+
+function rowTime(row: Record<string, any>): number {
+  for (const column of ['Date', 'Value Date']) {
+    const time = row[column] ? dateToTime(row[column]) : NaN;
+    if (!isNaN(time)) return time;
+  }
+  return NaN;
+}
+
+/**
+ * The configured statement end date, or the latest date in either file (MM/DD/YYYY)
+ */
+export function statementEndDate(rows: Record<string, any>[], config: ReconcileConfig): string | null {
+  if (config.statementEndDate) return config.statementEndDate;
+  const times = rows.map(rowTime).filter(t => !isNaN(t));
+  if (times.length === 0) return null;
+  const latest = new Date(Math.max(...times));
+  return formatDateParts({ y: latest.getFullYear(), m: latest.getMonth() + 1, d: latest.getDate() });
+}
+
+/**
+ * Age in days of a row at the statement end date
+ */
+export function rowAge(row: Record<string, any>, endDate: string | null): number | null {
+  const time = rowTime(row);
+  if (!endDate || isNaN(time)) return null;
+  return Math.round((dateToTime(endDate) - time) / (86400 * 1000));
+}
+
+function parseProblem(row: Record<string, any>): string | null {
+  if (isNaN(getRowAmount(row))) return `Amount could not be read: ${row['Amount'] ?? row['Debit Amount'] ?? row['Credit Amount'] ?? '(empty)'}`;
+  if (isNaN(rowTime(row))) return `Date could not be read: ${row['Date'] || '(empty)'}`;
+  return null;
+}
+
+/**
+ * Classify each unmatched row of one file by why it failed to match,
+ * with its best near-miss candidate and its age. Keyed by row index.
+ */
+export function classifyUnmatched(
+  file: 'A' | 'B',
+  indices: number[],
+  ctx: ExceptionContext,
+  endDate: string | null
+): Record<number, UnmatchedException> {
+  const own = file === 'A' ? ctx.normA : ctx.normB;
+  const ownSide = file === 'A' ? 'file_a_indices' : 'file_b_indices';
+  const otherSide = file === 'A' ? 'file_b_indices' : 'file_a_indices';
+  const other = file === 'A' ? ctx.normB : ctx.normA;
+  const ownCmp = file === 'A' ? ctx.cmpA : ctx.cmpB;
+  const otherCmp = file === 'A' ? ctx.cmpB : ctx.cmpA;
+  const otherFile = file === 'A' ? 'B' : 'A';
+  const ambiguous = file === 'A' ? ctx.ambiguousA : ctx.ambiguousB;
+  const failed = new Set(ctx.llmErrors.map(e => e.file_a_index));
+
+  // Candidates and scores from this file's point of view
+  const candidatesOf = new Map<number, number[]>();
+  const scoresOf = new Map<number, { index: number; result: MatchResult }[]>();
+  const add = <T>(map: Map<number, T[]>, key: number, value: T) => {
+    if (!map.has(key)) map.set(key, []);
+    map.get(key)!.push(value);
+  };
+  ctx.candidates.forEach((list, i) => {
+    const allowed = new Set(list.map(c => c.idx));
+    for (const { idx: j } of list) add(candidatesOf, file === 'A' ? i : j, file === 'A' ? j : i);
+    for (const r of ctx.scored[i] || []) {
+      if (!allowed.has(r.file_b_index)) continue;
+      add(scoresOf, file === 'A' ? i : r.file_b_index, { index: file === 'A' ? r.file_b_index : i, result: r });
+    }
+  });
+
+  // Rows of the other file consumed by a match, and by which
+  const consumed = new Map<number, TakenBy>();
+  for (const m of ctx.matches) {
+    for (const idx of m[otherSide]) consumed.set(idx, { index: idx, match_id: m.id, pass: m.pass, partners: m[ownSide] });
+  }
+
+  const nearMiss = (index: number, confidence: number | null, reason: string): NearMiss => ({
+    index,
+    entry: other[index],
+    confidence: confidence == null ? null : parseFloat(confidence.toFixed(2)),
+    reason,
+  });
+  // Every candidate with its engine score, or a rule-based estimate for those
+  // the engine never saw (taken by the exact or learned pass first); best first
+  const rankCandidates = (i: number, candidates: number[]) => {
+    const scores = new Map((scoresOf.get(i) ?? []).map(s => [s.index, s.result]));
+    return candidates
+      .map(index => {
+        const result = scores.get(index);
+        const estimate = result ? null : file === 'A' ? scorePair(ownCmp[i], otherCmp[index]) : scorePair(otherCmp[index], ownCmp[i]);
+        return {
+          index,
+          result,
+          strength: result?.confidence ?? estimate!.confidence,
+          reason: result?.reason ?? `Not scored by the match engine; ${estimate!.reason}`,
+        };
+      })
+      .sort((x, y) => y.strength - x.strength || x.index - y.index);
+  };
+  const classify = (i: number): Omit<UnmatchedException, 'age_days'> => {
+    const problem = parseProblem(own[i]);
+    if (problem) return { reason: 'parse_error', detail: problem, near_miss: null };
+
+    const candidates = candidatesOf.get(i) ?? [];
+    const ranked = rankCandidates(i, candidates);
+    // Near misses only come from rows no pass has matched
+    const open = ranked.find(c => !consumed.has(c.index));
+    const openMiss = open ? nearMiss(open.index, open.result?.confidence ?? null, open.reason) : null;
+    if (ambiguous.has(i)) {
+      return { reason: 'ambiguous', detail: 'Several candidates are equally good matches; left for review', near_miss: openMiss };
+    }
+    if (ownCmp[i]['FX Note']) {
+      return {
+        reason: 'currency_mismatch',
+        detail: `No FX rate for ${getRowCurrency(own[i]) ?? 'the row currency'} into ${ctx.config.reportingCurrency}`,
+        near_miss: null,
+      };
+    }
+
+    if (candidates.length === 0) {
+      // Close on date and amount, but kept apart by currency
+      const amount = getRowAmount(ownCmp[i]);
+      const blocked = otherCmp
+        .map((row, idx) => ({ row, idx }))
+        .filter(({ row }) => {
+          const [a, b] = file === 'A' ? [ownCmp[i], row] : [row, ownCmp[i]];
+          return ctx.withinWindow(a, b) && !ctx.currenciesCompatible(a, b);
+        })
+        .sort((x, y) => Math.abs(getRowAmount(x.row) - amount) - Math.abs(getRowAmount(y.row) - amount));
+      if (blocked.length > 0) {
+        const closest = blocked.find(({ idx }) => !consumed.has(idx))?.idx;
+        return {
+          reason: 'currency_mismatch',
+          detail: closest != null
+            ? `File ${otherFile} row ${closest} is close on date and amount but in ${getRowCurrency(other[closest]) ?? 'another currency'}`
+            : `Only File ${otherFile} rows in another currency are close on date and amount, and they are matched elsewhere`,
+          near_miss: closest != null ? nearMiss(closest, null, 'Currency differs') : null,
+        };
+      }
+      return {
+        reason: 'no_candidates',
+        detail: `No File ${otherFile} row within ±${ctx.config.dateWindowDays} days and the amount tolerance`,
+        near_miss: null,
+      };
+    }
+
+    const best = ranked[0];
+    const takenBy = consumed.get(best.index);
+    if (takenBy) {
+      const partners = takenBy.partners.map(p => `File ${file} row ${p}`).join(', ');
+      return {
+        reason: 'candidate_taken',
+        detail: `Best candidate, File ${otherFile} row ${best.index}, was matched to ${partners} by the ${takenBy.pass} pass`,
+        near_miss: openMiss,
+        taken_by: takenBy,
+      };
+    }
+    if (!best.result) {
+      const llmFailed = file === 'A' ? failed.has(i) : candidates.some(a => failed.has(a));
+      if (llmFailed) {
+        const error = ctx.llmErrors.find(e => (file === 'A' ? e.file_a_index === i : candidates.includes(e.file_a_index)));
+        return { reason: 'llm_failure', detail: `LLM answer was invalid: ${error?.error ?? 'unknown error'}`, near_miss: openMiss };
+      }
+      return { reason: 'below_threshold', detail: `The match engine did not score File ${otherFile} row ${best.index}`, near_miss: openMiss };
+    }
+    if (best.result.match && best.result.confidence >= ctx.config.confidenceThreshold) {
+      // Confident and unmatched: the candidate is held in an ambiguous group
+      return {
+        reason: 'candidate_taken',
+        detail: `Best candidate, File ${otherFile} row ${best.index}, is held for review with another row`,
+        near_miss: openMiss,
+      };
+    }
+    return {
+      reason: 'below_threshold',
+      detail: best.result.match
+        ? `Best candidate scored ${openMiss!.confidence}, below the ${ctx.config.confidenceThreshold} threshold`
+        : `Best candidate was rejected by the match engine (${openMiss!.confidence})`,
+      near_miss: openMiss,
+    };
+  };
+
+  return Object.fromEntries(indices.map(i => [i, { ...classify(i), age_days: rowAge(own[i], endDate) }]));
+}
@@ -0,0 +1,286 @@
+import express, { Request, Response, Router } from 'express';
+import xlsx from 'xlsx';
+import { getRowAmount } from './normalize';
+import { getSession, Session } from './sessions';
+import { UnmatchedException } from './exceptions';
+import { renderTextPdf, PdfLine } from './pdf';
+
+const router: Router = express.Router();
+
+export type ExportFormat = 'xlsx' | 'csv' | 'pdf';
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  csv: 'text/csv; charset=utf-8',
+  pdf: 'application/pdf',
+};
+
+const round2 = (n: number) => Math.round(n * 100) / 100;
+
+function sumAmounts(rows: Record<string, any>[]): number {
+  return round2(rows.reduce((sum, r) => {
+    const amount = getRowAmount(r);
+    return isNaN(amount) ? sum : sum + amount;
+  }, 0));
+}
+
+function entriesA(match: Record<string, any>): Record<string, any>[] {
+  return match.file_a_entry ? [match.file_a_entry] : match.file_a_entries || [];
+}
+
+function entriesB(match: Record<string, any>): Record<string, any>[] {
+  return match.file_b_entry ? [match.file_b_entry] : match.file_b_entries || [];
+}
+
+/**
+ * Counts, totals and the unreconciled difference for a session
+ */
+export function summarizeSession(session: Session) {
+  const result = session.result;
+  const matches: Record<string, any>[] = result.matches || [];
+  const unmatchedA: Record<string, any>[] = result.unmatched_file_a_entries || [];
+  const unmatchedB: Record<string, any>[] = result.unmatched_file_b_entries || [];
+  const matchedA = matches.flatMap(entriesA);
+  const matchedB = matches.flatMap(entriesB);
+  const decisions = Object.values(session.decisions);
+  // With opposite signs a reconciled pair sums to zero rather than netting out by subtraction
+  const sign = result.config?.signMode === 'opposite' ? -1 : 1;
+  const totalA = sumAmounts([...matchedA, ...unmatchedA]);
+  const totalB = sumAmounts([...matchedB, ...unmatchedB]);
+
+  return {
+    matched: matches.length,
+    manual_matches: matches.filter(m => m.manual).length,
+    unmatched_a: unmatchedA.length,
+    unmatched_b: unmatchedB.length,
+    ambiguous: result.ambiguous_matches?.length ?? 0,
+    confirmed: decisions.filter(d => d.action === 'confirmed').length,
+    rejected: decisions.filter(d => d.action === 'rejected').length,
+    total_a: totalA,
+    total_b: totalB,
+    matched_total_a: sumAmounts(matchedA),
+    matched_total_b: sumAmounts(matchedB),
+    unmatched_total_a: sumAmounts(unmatchedA),
+    unmatched_total_b: sumAmounts(unmatchedB),
+    unreconciled_difference: round2(totalA - sign * totalB),
+  };
+}
+
+function summaryRows(session: Session): [string, string | number][] {
+  const s = summarizeSession(session);
+  const config = session.result.config;
+  return [
+    ['Session', session.name],
+    ['File A', session.file_a_name],
+    ['File B', session.file_b_name],
+    ['Created', session.created_at],
+    ['Last updated', session.updated_at],
+    ['Match engine', session.result.match_engine ?? ''],
+    ['Sign convention', config?.signMode ?? 'same'],
+    ['Matched', s.matched],
+    ['  of which manual', s.manual_matches],
+    ['Unmatched in File A', s.unmatched_a],
+    ['Unmatched in File B', s.unmatched_b],
+    ['Ambiguous', s.ambiguous],
+    ['Confirmed', s.confirmed],
+    ['Rejected', s.rejected],
+    ['Total File A', s.total_a],
+    ['Total File B', s.total_b],
+    ['Matched total File A', s.matched_total_a],
+    ['Matched total File B', s.matched_total_b],
+    ['Unmatched total File A', s.unmatched_total_a],
+    ['Unmatched total File B', s.unmatched_total_b],
+    ['Unreconciled difference', s.unreconciled_difference],
+  ];
+}
+
+function describeSide(entries: Record<string, any>[], indices: number[] = []) {
+  const join = (field: string) => entries.map(e => e[field] ?? '').filter(v => v !== '').join('; ');
+  return {
+    Rows: indices.join('; '),
+    Date: join('Date'),
+    Amount: sumAmounts(entries),
+    Reference: join('Reference'),
+    Description: join('Description'),
+  };
+}
+
+function prefixed(prefix: string, obj: Record<string, any>): Record<string, any> {
+  return Object.fromEntries(Object.entries(obj).map(([k, v]) => [`${prefix} ${k}`, v]));
+}
+
+// Engine and model behind a match, or the pass/reviewer that made it
+function matchedBy(m: Record<string, any>): string {
+  if (m.manual) return 'manual';
+  if (m.provider) return m.model ? `${m.provider} (${m.model})` : m.provider;
+  return m.pass ?? '';
+}
+
+function matchedRows(session: Session) {
+  return (session.result.matches || []).map((m: Record<string, any>) => ({
+    'Match ID': m.id,
+    Type: m.type,
+    Confidence: m.confidence_score ?? '',
+    Reason: m.match_reason ?? '',
+    'Matched By': matchedBy(m),
+    Review: session.decisions[m.id]?.action ?? '',
+    'Review Note': session.decisions[m.id]?.note ?? '',
+    ...prefixed('A', describeSide(entriesA(m), m.file_a_indices)),
+    ...prefixed('B', describeSide(entriesB(m), m.file_b_indices)),
+  }));
+}
+
+// Exception reason, near miss and age of an unmatched row (blank for sessions saved before classification)
+function exceptionColumns(exception?: UnmatchedException) {
+  return {
+    Exception: exception?.reason ?? '',
+    'Exception Detail': exception?.detail ?? '',
+    'Age (days)': exception?.age_days ?? '',
+    'Near Miss Row': exception?.near_miss?.index ?? '',
+    'Near Miss Confidence': exception?.near_miss?.confidence ?? '',
+  };
+}
+
+function unmatchedRows(
+  entries: Record<string, any>[] = [],
+  indices: number[] = [],
+  exceptions: Record<number, UnmatchedException> = {}
+) {
+  return entries.map((e, k) => ({ Row: indices[k] ?? '', ...e, ...exceptionColumns(exceptions[indices[k]]) }));
+}
+
+function reviewLogRows(session: Session) {
+  return session.review_log.map(e => ({
+    At: e.at,
+    Action: e.action,
+    'Match ID': e.match_id,
+    Reviewer: e.reviewer ?? '',
+    Note: e.note ?? '',
+  }));
+}
+
+/**
+ * Workbook with Summary, Matched, Unmatched A, Unmatched B and Review Log sheets
+ */
+export function buildWorkbook(session: Session): Buffer {
+  const result = session.result;
+  const workbook = xlsx.utils.book_new();
+  xlsx.utils.book_append_sheet(workbook, xlsx.utils.aoa_to_sheet([['Item', 'Value'], ...summaryRows(session)]), 'Summary');
+  xlsx.utils.book_append_sheet(workbook, xlsx.utils.json_to_sheet(matchedRows(session)), 'Matched');
+  xlsx.utils.book_append_sheet(
+    workbook,
+    xlsx.utils.json_to_sheet(unmatchedRows(result.unmatched_file_a_entries, result.unmatched_file_a_indices, result.unmatched_file_a_exceptions)),
+    'Unmatched A'
+  );
+  xlsx.utils.book_append_sheet(
+    workbook,
+    xlsx.utils.json_to_sheet(unmatchedRows(result.unmatched_file_b_entries, result.unmatched_file_b_indices, result.unmatched_file_b_exceptions)),
+    'Unmatched B'
+  );
+  xlsx.utils.book_append_sheet(workbook, xlsx.utils.json_to_sheet(reviewLogRows(session)), 'Review Log');
+  return xlsx.write(workbook, { type: 'buffer', bookType: 'xlsx' });
+}
+
+// Text Excel would open as a live formula; plain signed numbers are left alone
+const FORMULA_START = /^[=+\-@\t\r]/;
+const SIGNED_NUMBER = /^[+-]?[\d.,]+$/;
+
+/**
+ * Prefix cells that would start a formula with ' so they open as text
+ */
+function csvSafe<T>(value: T): T | string {
+  return typeof value === 'string' && FORMULA_START.test(value) && !SIGNED_NUMBER.test(value) ? `'${value}` : value;
+}
+
+/**
+ * One CSV line per transaction row, tagged with its status and match
+ */
+export function buildCsv(session: Session): string {
+  const result = session.result;
+  const rows: Record<string, any>[] = [];
+  for (const m of result.matches || []) {
+    const meta = {
+      Status: 'matched',
+      'Match ID': m.id,
+      Confidence: m.confidence_score ?? '',
+      Reason: m.match_reason ?? '',
+      'Matched By': matchedBy(m),
+      Review: session.decisions[m.id]?.action ?? '',
+    };
+    entriesA(m).forEach((e, k) => rows.push({ ...meta, File: 'A', Row: m.file_a_indices?.[k] ?? '', ...e }));
+    entriesB(m).forEach((e, k) => rows.push({ ...meta, File: 'B', Row: m.file_b_indices?.[k] ?? '', ...e }));
+  }
+  const unmatched = (
+    file: 'A' | 'B',
+    entries: Record<string, any>[] = [],
+    indices: number[] = [],
+    exceptions: Record<number, UnmatchedException> = {}
+  ) =>
+    entries.forEach((e, k) => rows.push({
+      Status: 'unmatched',
+      'Match ID': '',
+      File: file,
+      Row: indices[k] ?? '',
+      ...e,
+      ...exceptionColumns(exceptions[indices[k]]),
+    }));
+  unmatched('A', result.unmatched_file_a_entries, result.unmatched_file_a_indices, result.unmatched_file_a_exceptions);
+  unmatched('B', result.unmatched_file_b_entries, result.unmatched_file_b_indices, result.unmatched_file_b_exceptions);
+  // Uploaded headers and values end up in the file, so both are escaped
+  const safeRows = rows.map(row => Object.fromEntries(Object.entries(row).map(([key, value]) => [csvSafe(key), csvSafe(value)])));
+  return xlsx.utils.sheet_to_csv(xlsx.utils.json_to_sheet(safeRows));
+}
+
+function rowLine(row: Record<string, any>): string {
+  return [row['Date'], row['Amount'] ?? row['Debit Amount'] ?? row['Credit Amount'], row['Reference'], row['Description']]
+    .filter(v => v != null && v !== '')
+    .join('  |  ');
+}
+
+/**
+ * Printable summary: totals, then the unmatched items and review log
+ */
+export function buildPdf(session: Session): Buffer {
+  const result = session.result;
+  const lines: (PdfLine | string)[] = [{ text: 'Reconciliation Summary', bold: true }, ''];
+  for (const [label, value] of summaryRows(session)) lines.push(`${label}: ${value}`);
+
+  const section = (title: string, entries: Record<string, any>[] = [], indices: number[] = []) => {
+    lines.push('', { text: `${title} (${entries.length})`, bold: true });
+    entries.forEach((e, k) => lines.push(`#${indices[k] ?? k}  ${rowLine(e)}`));
+  };
+  section('Unmatched in File A', result.unmatched_file_a_entries, result.unmatched_file_a_indices);
+  section('Unmatched in File B', result.unmatched_file_b_entries, result.unmatched_file_b_indices);
+
+  lines.push('', { text: `Review log (${session.review_log.length})`, bold: true });
+  for (const e of session.review_log) {
+    lines.push(`${e.at}  ${e.action}  ${e.match_id}${e.reviewer ? `  by ${e.reviewer}` : ''}${e.note ? `  - ${e.note}` : ''}`);
+  }
+  return renderTextPdf(lines);
+}
+
+export function exportSession(session: Session, format: ExportFormat): Buffer {
+  if (format === 'xlsx') return buildWorkbook(session);
+  if (format === 'csv') return Buffer.from(buildCsv(session), 'utf8');
+  return buildPdf(session);
+}
+
+// Route setup
+router.get('/sessions/:id/export', (req: Request, res: Response) => {
+  const session = getSession(String(req.params.id));
+  if (!session) {
+    res.status(404).json({ error: `Unknown session: ${req.params.id}` });
+    return;
+  }
+  const format = String(req.query.format || 'xlsx') as ExportFormat;
+  if (!Object.keys(CONTENT_TYPES).includes(format)) {
+    res.status(400).json({ error: `Invalid format: ${format}. Expected 'xlsx', 'csv' or 'pdf'.` });
+    return;
+  }
+  const filename = `${session.name.replace(/[^\w.-]+/g, '_')}.${format}`;
+  res.setHeader('Content-Type', CONTENT_TYPES[format]);
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+  res.send(exportSession(session, format));
+});
+
+export default router;
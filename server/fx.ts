@@ -0,0 +1,188 @@
+import fs from 'fs';
+import path from 'path';
+import { parseFile } from './parse';
+import {
+  dateToTime,
+  getRowAmount,
+  getRowCurrency,
+  inferDateOrder,
+  normalizeDateValue,
+} from './normalize';
+
+export interface FxRate {
+  date: string;   // MM/DD/YYYY
+  time: number;
+  rate: number;   // 1 unit of base = rate units of quote
+}
+
+/**
+ * Rates per "BASE/QUOTE" pair, sorted by date
+ */
+export type FxTable = Map<string, FxRate[]>;
+
+export interface FxConversion {
+  currency: string;
+  amount: number;
+  rate: number;
+  rate_date: string | null;
+  converted: number;
+}
+
+/**
+ * A rate is a plain decimal, not an amount: its one separator, "." or ",", is
+ * always the decimal point ("1,085" is 1.085). Grouped values are not read.
+ */
+function parseRate(value: any): number {
+  if (typeof value === 'number') return value;
+  const text = String(value ?? '').trim();
+  if (!/^\d+([.,]\d+)?$/.test(text)) return NaN;
+  return parseFloat(text.replace(',', '.'));
+}
+
+function findColumn(headers: string[], pattern: RegExp): string | undefined {
+  return headers.find(h => pattern.test(h.toLowerCase().replace(/[^a-z]/g, '')));
+}
+
+/**
+ * Build an FX table from parsed rate rows. Accepts either separate base/quote
+ * columns (From/To, Base/Quote) or a single pair column ("EUR/USD").
+ */
+export function buildFxTable(rows: Record<string, any>[]): FxTable {
+  const table: FxTable = new Map();
+  if (rows.length === 0) return table;
+  const headers = Object.keys(rows[0]);
+  const dateCol = findColumn(headers, /date/);
+  const rateCol = findColumn(headers, /^(rate|fxrate|exchangerate|value)$/);
+  const baseCol = findColumn(headers, /^(from|base|basecurrency|fromcurrency|source)$/);
+  const quoteCol = findColumn(headers, /^(to|quote|quotecurrency|tocurrency|target)$/);
+  const pairCol = findColumn(headers, /^(pair|currencypair|ccypair|symbol)$/);
+  if (!dateCol || !rateCol || (!pairCol && (!baseCol || !quoteCol))) {
+    throw new Error('FX rate table needs Date, Rate and either From/To or Pair columns.');
+  }
+
+  const dateOrder = inferDateOrder(rows.map(row => row[dateCol])) ?? 'MDY';
+  rows.forEach((row, i) => {
+    const [base, quote] = pairCol
+      ? String(row[pairCol]).toUpperCase().split(/[\/\-: ]+/)
+      : [String(row[baseCol!]).toUpperCase(), String(row[quoteCol!]).toUpperCase()];
+    const date = normalizeDateValue(row[dateCol], dateOrder);
+    const rate = parseRate(row[rateCol]);
+    const time = dateToTime(date);
+    if (!base || !quote || isNaN(rate) || rate <= 0 || isNaN(time)) {
+      throw new Error(`Invalid FX rate on row ${i + 2}: ${JSON.stringify(row)}`);
+    }
+    const key = `${base.trim()}/${quote.trim()}`;
+    if (!table.has(key)) table.set(key, []);
+    table.get(key)!.push({ date, time, rate });
+  });
+  for (const rates of table.values()) rates.sort((x, y) => x.time - y.time);
+  return table;
+}
+
+export function parseFxRates(buffer: Buffer, filename: string): FxTable {
+  return buildFxTable(parseFile(buffer, filename));
+}
+
+/**
+ * FX table from FX_RATES_FILE, if configured
+ */
+export function loadDefaultFxRates(): FxTable | undefined {
+  const file = process.env.FX_RATES_FILE;
+  if (!file) return undefined;
+  return parseFxRates(fs.readFileSync(file), path.basename(file));
+}
+
+function latestOnOrBefore(rates: FxRate[] | undefined, time: number): FxRate | null {
+  if (!rates) return null;
+  let found: FxRate | null = null;
+  for (const r of rates) {
+    if (r.time <= time) found = r;
+    else break;
+  }
+  return found;
+}
+
+/**
+ * Rate converting `from` into `to` on a date: the latest published rate on or
+ * before that date, trying the direct pair and then the inverse.
+ */
+export function lookupRate(table: FxTable, from: string, to: string, date: string): { rate: number; date: string | null } | null {
+  if (from === to) return { rate: 1, date: null };
+  const time = dateToTime(date);
+  if (isNaN(time)) return null;
+  const direct = latestOnOrBefore(table.get(`${from}/${to}`), time);
+  if (direct) return { rate: direct.rate, date: direct.date };
+  const inverse = latestOnOrBefore(table.get(`${to}/${from}`), time);
+  if (inverse) return { rate: 1 / inverse.rate, date: inverse.date };
+  return null;
+}
+
+/**
+ * Convert a row's signed amount into the reporting currency. Rows without a
+ * currency are taken to be in the reporting currency already.
+ */
+export function convertRow(row: Record<string, any>, table: FxTable, reporting: string): FxConversion | null {
+  const amount = getRowAmount(row);
+  const currency = getRowCurrency(row) || reporting;
+  if (isNaN(amount)) return null;
+  const found = lookupRate(table, currency, reporting, row['Date']);
+  if (!found) return null;
+  return { currency, amount, rate: found.rate, rate_date: found.date, converted: amount * found.rate };
+}
+
+/**
+ * Copy of a row with its amount expressed in the reporting currency, keeping
+ * the original amount and rate alongside for the match engine to see.
+ * Rows that cannot be converted get an empty amount so they never pre-filter in.
+ */
+export function withReportingCurrency(row: Record<string, any>, table: FxTable, reporting: string): Record<string, any> {
+  const { ['Debit Amount']: _debit, ['Credit Amount']: _credit, ...rest } = row;
+  const conv = convertRow(row, table, reporting);
+  if (!conv) return { ...rest, Amount: '', Currency: reporting, 'FX Note': 'No FX rate available' };
+  if (conv.currency === reporting) return { ...rest, Amount: conv.amount, Currency: reporting };
+  return {
+    ...rest,
+    Amount: parseFloat(conv.converted.toFixed(2)),
+    Currency: reporting,
+    'Original Amount': conv.amount,
+    'Original Currency': conv.currency,
+    'FX Rate': conv.rate,
+  };
+}
+
+/**
+ * FX details for a match between File A rows and File B rows (as compared, so
+ * already sign-adjusted). Flags cross-currency matches whose converted totals
+ * differ by more than `tolerance` (a fraction of the File A total).
+ */
+export function describeFx(
+  rowsA: Record<string, any>[],
+  rowsB: Record<string, any>[],
+  table: FxTable,
+  reporting: string,
+  tolerance: number
+) {
+  const convA = rowsA.map(r => convertRow(r, table, reporting));
+  const convB = rowsB.map(r => convertRow(r, table, reporting));
+  if (convA.some(c => !c) || convB.some(c => !c)) return null;
+  const round = (n: number) => parseFloat(n.toFixed(2));
+  const totalA = convA.reduce((s, c) => s + c!.converted, 0);
+  const totalB = convB.reduce((s, c) => s + c!.converted, 0);
+  const currencies = new Set([...convA, ...convB].map(c => c!.currency));
+  const variance = Math.abs(totalA - totalB);
+  const variancePct = totalA !== 0 ? variance / Math.abs(totalA) : 0;
+  const crossCurrency = currencies.size > 1;
+  return {
+    reporting_currency: reporting,
+    cross_currency: crossCurrency,
+    rates: [
+      ...convA.map(c => ({ side: 'A', currency: c!.currency, rate: c!.rate, rate_date: c!.rate_date })),
+      ...convB.map(c => ({ side: 'B', currency: c!.currency, rate: c!.rate, rate_date: c!.rate_date })),
+    ].filter(r => r.currency !== reporting),
+    converted_a: round(totalA),
+    converted_b: round(totalB),
+    variance: round(variance),
+    variance_pct: parseFloat((variancePct * 100).toFixed(2)),
+    flagged: crossCurrency && variancePct > tolerance,
+  };
+}
@@ -1,32 +1,28 @@
 import express from 'express';
 import cors from 'cors';
-import multer from 'multer';
 import dotenv from 'dotenv';
-import { parseBuffer, reconcile } from './reconcile';
+import reconcileRouter from './reconcile';
+import configRouter from './config';
+import mappingRouter from './mappings';
+import sessionRouter from './sessions';
+import accountRouter from './accounts';
+import exportRouter from './export';
+import jobRouter from './jobs';
+import llmCacheRouter from './llmCache';
+import learnedRulesRouter from './learnedRules';
 
 dotenv.config();
 const app = express();
 app.use(cors());
-
-const upload = multer({ storage: multer.memoryStorage() });
-
-app.post('/reconcile', upload.fields([{ name: 'fileA' }, { name: 'fileB' }]), async (req, res): Promise<void> => {
-  const files = req.files as Record<string, Express.Multer.File[]>;
-  const fileA = files['fileA']?.[0];
-  const fileB = files['fileB']?.[0];
-  if (!fileA || !fileB) {
-    res.status(400).json({ message: 'Both files are required.' });
-    return;
-  }
-  try {
-    const dataA = parseBuffer(fileA.buffer, fileA.originalname);
-    const dataB = parseBuffer(fileB.buffer, fileB.originalname);
-    const result = await reconcile(dataA, dataB);
-    res.json(result);
-  } catch (err: any) {
-    res.status(500).json({ message: err.message || 'Internal server error' });
-  }
-});
+app.use(reconcileRouter);
+app.use(mappingRouter);
+app.use(configRouter);
+app.use(sessionRouter);
+app.use(accountRouter);
+app.use(exportRouter);
+app.use(jobRouter);
+app.use(llmCacheRouter);
+app.use(learnedRulesRouter);
 
 export default app;
 
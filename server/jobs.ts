@@ -0,0 +1,417 @@
+import express, { Request, Response, Router } from 'express';
+import multer from 'multer';
+import { randomUUID } from 'crypto';
+import { EventEmitter } from 'events';
+import { deleteStore, listStores, readStore, writeStore } from './store';
+import { ImportInfo } from './mappings';
+import { ParseError } from './parse';
+import { getMatcher, MatchResult, parseMatcherOptions } from './matchers';
+import { ReconcileOptions, ValidationError, parseReconcileOptions } from './config';
+import { FxRate } from './fx';
+import { CandidateMatch, prepareUploads, reconcile, runOutput } from './reconcile';
+import { createSession, getSession } from './sessions';
+import { CarryForward } from './accounts';
+import { learnedRulesFor } from './learnedRules';
+
+const router: Router = express.Router();
+const upload = multer({ storage: multer.memoryStorage() });
+
+// Persist the checkpoint after this many newly scored rows
+const CHECKPOINT_EVERY = 10;
+// Comment line sent on idle progress streams so proxies keep them open
+const HEARTBEAT_MS = 15_000;
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface Job {
+  id: string;
+  status: JobStatus;
+  created_at: string;
+  updated_at: string;
+  finished_at: string | null;
+  file_a_name: string;
+  file_b_name: string;
+  session_name?: string;
+  engine: string;
+  // Skip the LLM response cache for this job
+  bypass_cache?: boolean;
+  rows_total: number;
+  // File A rows that need match-engine results (known once the job starts)
+  rows_to_score: number | null;
+  rows_scored: number;
+  // Match-engine calls in the current attempt, and pairs above the threshold so far
+  batches_sent: number;
+  batches_completed: number;
+  matches_found: number;
+  // Rows left unscored this attempt because the LLM answer stayed invalid
+  llm_errors: number;
+  attempts: number;
+  error: string | null;
+  session_id: string | null;
+}
+
+/**
+ * Everything needed to (re)run a job, plus its checkpoint
+ */
+interface JobData {
+  rows_a: Record<string, any>[];
+  rows_b: Record<string, any>[];
+  options: Omit<ReconcileOptions, 'fxRates' | 'learnedRules'>;
+  fx_rates: [string, FxRate[]][] | null;
+  column_mappings: { file_a: unknown; file_b: unknown };
+  imports?: { file_a: ImportInfo; file_b: ImportInfo };
+  // Open items carried in from the account's prior period (already part of rows_a / rows_b)
+  carry_forward?: CarryForward | null;
+  // Match-engine results by File A row
+  scored: Record<number, MatchResult[]>;
+}
+
+/**
+ * Live state of a job queued or running in this process
+ */
+interface JobRun {
+  job: Job;
+  events: EventEmitter;
+  controller: AbortController;
+  // Provisional matches so far, replayed to late subscribers
+  provisional: CandidateMatch[];
+}
+
+const JOB_PREFIX = 'job-';
+const JOB_DATA_PREFIX = 'jobdata-';
+const JOB_ID = /^[0-9a-f-]{36}$/;
+
+// Anything stored as queued or running that is not here was interrupted
+const runs = new Map<string, JobRun>();
+
+const PROGRESS_FIELDS = [
+  'status', 'rows_total', 'rows_to_score', 'rows_scored', 'batches_sent', 'batches_completed', 'matches_found', 'llm_errors',
+] as const;
+
+function progressOf(job: Job) {
+  return Object.fromEntries(PROGRESS_FIELDS.map(k => [k, job[k]]));
+}
+
+function saveJob(job: Job): Job {
+  job.updated_at = new Date().toISOString();
+  writeStore(`${JOB_PREFIX}${job.id}`, job);
+  return job;
+}
+
+export function getJob(id: string): Job | null {
+  if (!JOB_ID.test(id)) return null;
+  const run = runs.get(id);
+  if (run) return run.job;
+  const job = readStore<Job | null>(`${JOB_PREFIX}${id}`, null);
+  if (job && (job.status === 'queued' || job.status === 'running')) {
+    // The server stopped mid-run; the checkpoint lets it be resumed
+    job.status = 'failed';
+    job.error = 'Interrupted by a server restart.';
+    saveJob(job);
+  }
+  return job;
+}
+
+export function listJobs(): Job[] {
+  return listStores(JOB_PREFIX)
+    .map(name => getJob(name.slice(JOB_PREFIX.length)))
+    .filter((j): j is Job => j != null)
+    .sort((a, b) => b.created_at.localeCompare(a.created_at));
+}
+
+async function runJob(run: JobRun): Promise<void> {
+  const { job, events, controller } = run;
+  const dataName = `${JOB_DATA_PREFIX}${job.id}`;
+  const data = readStore<JobData | null>(dataName, null);
+  const emitProgress = () => events.emit('progress', progressOf(job));
+  const finish = (status: JobStatus, error: string | null = null) => {
+    job.status = status;
+    job.error = error;
+    job.finished_at = new Date().toISOString();
+    saveJob(job);
+    runs.delete(job.id);
+    if (error) events.emit('failure', { message: error });
+    events.emit('done', job);
+  };
+  if (!data) {
+    finish('failed', 'Job input is missing.');
+    return;
+  }
+
+  job.status = 'running';
+  job.attempts++;
+  job.error = null;
+  job.batches_sent = 0;
+  job.batches_completed = 0;
+  job.llm_errors = 0;
+  saveJob(job);
+  emitProgress();
+
+  let unsaved = 0;
+  const checkpoint = () => {
+    writeStore(dataName, data);
+    saveJob(job);
+    unsaved = 0;
+  };
+  try {
+    const options: ReconcileOptions = {
+      ...data.options,
+      fxRates: data.fx_rates ? new Map(data.fx_rates) : undefined,
+      // Read when the job runs, so decisions made while it was queued count
+      learnedRules: learnedRulesFor(data.carry_forward?.account),
+    };
+    const result = await reconcile(data.rows_a, data.rows_b, getMatcher(job.engine, job.bypass_cache ? { cache: false } : {}), options, {
+      signal: controller.signal,
+      scored: data.scored,
+      onScoringStart: (rowsToScore, alreadyScored) => {
+        job.rows_to_score = rowsToScore;
+        job.rows_scored = alreadyScored;
+        saveJob(job);
+        emitProgress();
+      },
+      onBatchSent: () => {
+        job.batches_sent++;
+        emitProgress();
+      },
+      onRowScored: (i, results) => {
+        data.scored[i] = results;
+        job.rows_scored++;
+        job.batches_completed++;
+        if (++unsaved >= CHECKPOINT_EVERY) checkpoint();
+        emitProgress();
+      },
+      onProvisionalMatches: (_i, matches) => {
+        job.matches_found += matches.length;
+        run.provisional.push(...matches);
+        for (const match of matches) events.emit('match', match);
+        emitProgress();
+      },
+      onRowFailed: () => {
+        job.llm_errors++;
+        job.batches_completed++;
+        emitProgress();
+      },
+    });
+    const output = runOutput(result, data);
+    const carryForward = output.carry_forward;
+    const period = carryForward ? { account: carryForward.account, period: carryForward.period } : null;
+    const session = createSession(output, job.file_a_name, job.file_b_name, job.session_name, period);
+    job.session_id = session.id;
+    job.matches_found = result.matches.length;
+    // The session holds the result now; the input and checkpoint are no longer needed
+    deleteStore(dataName);
+    finish('completed');
+  } catch (error: any) {
+    writeStore(dataName, data);
+    if (controller.signal.aborted) {
+      finish('cancelled', 'Cancelled by request.');
+    } else {
+      console.error(`Job ${job.id} failed:`, error);
+      finish('failed', error?.message ? String(error.message) : 'Job failed');
+    }
+  }
+}
+
+function startRun(job: Job): Job {
+  const run: JobRun = { job, events: new EventEmitter(), controller: new AbortController(), provisional: [] };
+  // Progress streams come and go; don't warn about many listeners on busy jobs
+  run.events.setMaxListeners(0);
+  runs.set(job.id, run);
+  setImmediate(() => void runJob(run));
+  return job;
+}
+
+/**
+ * Queue a reconciliation job from an upload; returns once the input is saved
+ */
+export function submitJob(
+  files: Record<string, Express.Multer.File[]>,
+  body: Record<string, any> | undefined
+): Job {
+  const fileA = files.fileA?.[0];
+  const fileB = files.fileB?.[0];
+  if (!fileA || !fileB) throw new ValidationError('Both fileA and fileB are required.');
+
+  // Parse and validate up front so a bad upload fails the request, not the job.
+  // The prior period's open items are fixed at submission, like the uploaded rows.
+  const { period: _period, ...uploads } = prepareUploads(fileA, fileB, body);
+  const { fxRates, ...options } = parseReconcileOptions(body, files.fxRates?.[0]);
+  const engine = getMatcher(body?.engine).name;
+  const bypassCache = parseMatcherOptions(body).cache === false;
+
+  const now = new Date().toISOString();
+  const job: Job = {
+    id: randomUUID(),
+    status: 'queued',
+    created_at: now,
+    updated_at: now,
+    finished_at: null,
+    file_a_name: fileA.originalname,
+    file_b_name: fileB.originalname,
+    session_name: body?.sessionName,
+    engine,
+    bypass_cache: bypassCache,
+    rows_total: uploads.rows_a.length,
+    rows_to_score: null,
+    rows_scored: 0,
+    batches_sent: 0,
+    batches_completed: 0,
+    matches_found: 0,
+    llm_errors: 0,
+    attempts: 0,
+    error: null,
+    session_id: null,
+  };
+  writeStore<JobData>(`${JOB_DATA_PREFIX}${job.id}`, {
+    ...uploads,
+    options,
+    fx_rates: fxRates ? [...fxRates.entries()] : null,
+    scored: {},
+  });
+  saveJob(job);
+  return startRun(job);
+}
+
+/**
+ * Re-run a failed or cancelled job, skipping the rows its checkpoint already has
+ */
+export function resumeJob(job: Job): Job {
+  if (job.status !== 'failed' && job.status !== 'cancelled') {
+    throw new Error(`Only failed or cancelled jobs can be resumed; this job is ${job.status}.`);
+  }
+  job.status = 'queued';
+  job.error = null;
+  job.finished_at = null;
+  job.matches_found = 0;
+  saveJob(job);
+  return startRun(job);
+}
+
+/**
+ * Abort a queued or running job; its checkpoint is kept so it can be resumed
+ */
+export function cancelJob(id: string): boolean {
+  const run = runs.get(id);
+  if (!run) return false;
+  run.controller.abort(new Error('Cancelled by request.'));
+  return true;
+}
+
+// Route setup
+router.post(
+  '/jobs',
+  upload.fields([
+    { name: 'fileA', maxCount: 1 },
+    { name: 'fileB', maxCount: 1 },
+    { name: 'fxRates', maxCount: 1 },
+  ]),
+  (req: Request, res: Response) => {
+    try {
+      const job = submitJob((req.files || {}) as Record<string, Express.Multer.File[]>, req.body);
+      res.status(202).json(job);
+    } catch (error: any) {
+      if (error instanceof ParseError || error instanceof ValidationError) {
+        res.status(400).json({ error: error.message, line: error instanceof ParseError ? error.line : undefined });
+        return;
+      }
+      console.error('Job submission error:', error);
+      res.status(500).json({ error: error?.message ? String(error.message) : 'Internal Server Error' });
+    }
+  }
+);
+
+router.get('/jobs', (_req: Request, res: Response) => {
+  res.json({ jobs: listJobs() });
+});
+
+router.get('/jobs/:id', (req: Request, res: Response) => {
+  const job = getJob(String(req.params.id));
+  if (!job) {
+    res.status(404).json({ error: `Unknown job: ${req.params.id}` });
+    return;
+  }
+  res.json(job);
+});
+
+// Server-Sent Events: progress, match and failure events, then a final done event
+router.get('/jobs/:id/events', (req: Request, res: Response) => {
+  const job = getJob(String(req.params.id));
+  if (!job) {
+    res.status(404).json({ error: `Unknown job: ${req.params.id}` });
+    return;
+  }
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache');
+  res.setHeader('Connection', 'keep-alive');
+  res.flushHeaders();
+  const send = (event: string, data: unknown) => res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+
+  send('progress', progressOf(job));
+  const run = runs.get(job.id);
+  if (!run) {
+    // A late subscriber still learns why the job failed
+    if (job.status === 'failed' && job.error) send('failure', { message: job.error });
+    send('done', job);
+    res.end();
+    return;
+  }
+  for (const match of run.provisional) send('match', match);
+
+  const listeners: Record<string, (data: unknown) => void> = {
+    progress: data => send('progress', data),
+    match: data => send('match', data),
+    failure: data => send('failure', data),
+    done: data => {
+      send('done', data);
+      res.end();
+    },
+  };
+  for (const [event, listener] of Object.entries(listeners)) run.events.on(event, listener);
+  const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), HEARTBEAT_MS);
+  res.on('close', () => {
+    clearInterval(heartbeat);
+    for (const [event, listener] of Object.entries(listeners)) run.events.off(event, listener);
+  });
+});
+
+router.get('/jobs/:id/result', (req: Request, res: Response) => {
+  const job = getJob(String(req.params.id));
+  if (!job) {
+    res.status(404).json({ error: `Unknown job: ${req.params.id}` });
+    return;
+  }
+  const session = job.session_id ? getSession(job.session_id) : null;
+  if (job.status !== 'completed' || !session) {
+    res.status(409).json({ error: job.error || `Job is ${job.status}.`, job });
+    return;
+  }
+  res.json({ ...session.result, session_id: session.id });
+});
+
+router.post('/jobs/:id/cancel', (req: Request, res: Response) => {
+  const job = getJob(String(req.params.id));
+  if (!job) {
+    res.status(404).json({ error: `Unknown job: ${req.params.id}` });
+    return;
+  }
+  if (!cancelJob(job.id)) {
+    res.status(409).json({ error: `Job is ${job.status}; only queued or running jobs can be cancelled.` });
+    return;
+  }
+  res.status(202).json(job);
+});
+
+router.post('/jobs/:id/resume', (req: Request, res: Response) => {
+  const job = getJob(String(req.params.id));
+  if (!job) {
+    res.status(404).json({ error: `Unknown job: ${req.params.id}` });
+    return;
+  }
+  try {
+    res.status(202).json(resumeJob(job));
+  } catch (error: any) {
+    res.status(409).json({ error: error.message });
+  }
+});
+
+export default router;
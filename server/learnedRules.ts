@@ -0,0 +1,300 @@
+import express, { Request, Response, Router } from 'express';
+import { createHash } from 'crypto';
+import { readStore, writeStore } from './store';
+import { dateToTime, daysApart, getRowAmount } from './normalize';
+import type { LearnedHint, MatchCandidate } from './matchers';
+import type { ReviewAction } from './sessions';
+
+const router: Router = express.Router();
+
+const RULES_STORE = 'learned-rules';
+// Confirmations before a rule is applied by the learned pass
+const LEARNED_RULE_MIN_CONFIRMATIONS = Math.max(1, parseInt(process.env.LEARNED_RULE_MIN_CONFIRMATIONS || '2', 10) || 2);
+// Runs without an account share one rule set; only learned and applied when enabled
+const LEARN_WITHOUT_ACCOUNT = process.env.LEARN_WITHOUT_ACCOUNT === 'true';
+// Longer gaps between the two dates are coincidence rather than a posting lag
+const MAX_LAG_DAYS = 31;
+// Learned patterns sent with one File A row
+const MAX_HINTS = 8;
+
+// Confidence given to matches made by the learned pass
+export const LEARNED_CONFIDENCE = 0.95;
+
+/**
+ * description_alias: a File A description that reviewers matched to a File B description
+ * counterparty: the same for counterparty names
+ * date_lag: File B dated this many days after File A
+ */
+export type LearnedRuleKind = 'description_alias' | 'counterparty' | 'date_lag';
+
+export interface LearnedRule {
+  id: string;
+  // Account of the sessions it was learned from ('' for runs without one)
+  account: string;
+  kind: LearnedRuleKind;
+  // Normalized description key or counterparty on each side; empty for date lags
+  file_a: string;
+  file_b: string;
+  // date_lag: File B date minus File A date
+  lag_days: number | null;
+  // Values as last reviewed, for display and LLM prompts
+  example_a: string;
+  example_b: string;
+  confirmations: number;
+  rejections: number;
+  // Review decision behind each piece of evidence, by "<session id>/<match id>"
+  evidence: Record<string, ReviewAction>;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface LearnedMatch {
+  a: number;
+  b: number;
+  reason: string;
+  rule_ids: string[];
+}
+
+type Observation = Pick<LearnedRule, 'kind' | 'file_a' | 'file_b' | 'lag_days' | 'example_a' | 'example_b'>;
+
+/**
+ * Stable part of a description: its first words, without numbers and
+ * transaction-specific codes ("AMZN MKTP US*2K3AB1" -> "amzn mktp us")
+ */
+export function descriptionKey(row: Record<string, any>): string | null {
+  const words = String(row['Description'] ?? '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(w => w.length > 1 && !/\d/.test(w));
+  return words.length > 0 ? words.slice(0, 3).join(' ') : null;
+}
+
+function counterpartyKey(row: Record<string, any>): string | null {
+  const name = String(row['Counterparty'] ?? '').toLowerCase().replace(/\s+/g, ' ').trim();
+  return name || null;
+}
+
+// File B date minus File A date in days; NaN if either is unreadable
+function signedLag(a: Record<string, any>, b: Record<string, any>): number {
+  return Math.round((dateToTime(b['Date']) - dateToTime(a['Date'])) / (86400 * 1000));
+}
+
+/**
+ * Patterns a reviewed 1-to-1 pair shows: differing descriptions or
+ * counterparties, and a date lag
+ */
+function observe(a: Record<string, any>, b: Record<string, any>): Observation[] {
+  const observed: Observation[] = [];
+  const descA = descriptionKey(a);
+  const descB = descriptionKey(b);
+  if (descA && descB && descA !== descB) {
+    observed.push({ kind: 'description_alias', file_a: descA, file_b: descB, lag_days: null, example_a: a['Description'], example_b: b['Description'] });
+  }
+  const partyA = counterpartyKey(a);
+  const partyB = counterpartyKey(b);
+  if (partyA && partyB && partyA !== partyB) {
+    observed.push({ kind: 'counterparty', file_a: partyA, file_b: partyB, lag_days: null, example_a: a['Counterparty'], example_b: b['Counterparty'] });
+  }
+  const lag = signedLag(a, b);
+  if (!isNaN(lag) && lag !== 0 && Math.abs(lag) <= MAX_LAG_DAYS) {
+    observed.push({ kind: 'date_lag', file_a: '', file_b: '', lag_days: lag, example_a: a['Date'], example_b: b['Date'] });
+  }
+  return observed;
+}
+
+function ruleId(account: string, o: Observation): string {
+  return createHash('sha256').update(JSON.stringify([account, o.kind, o.file_a, o.file_b, o.lag_days])).digest('hex').slice(0, 16);
+}
+
+function loadRules(): Record<string, LearnedRule[]> {
+  return readStore<Record<string, LearnedRule[]>>(RULES_STORE, {});
+}
+
+/**
+ * Confirmed often enough, and more often than rejected
+ */
+export function isActive(rule: LearnedRule): boolean {
+  return rule.confirmations >= LEARNED_RULE_MIN_CONFIRMATIONS && rule.confirmations > rule.rejections;
+}
+
+export function learnedRulesFor(account = ''): LearnedRule[] {
+  if (!account && !LEARN_WITHOUT_ACCOUNT) return [];
+  return loadRules()[account] ?? [];
+}
+
+export function listLearnedRules(account?: string): LearnedRule[] {
+  const all = loadRules();
+  const rules = account != null ? all[account] ?? [] : Object.values(all).flat();
+  return [...rules].sort((x, y) => y.confirmations - x.confirmations || y.updated_at.localeCompare(x.updated_at));
+}
+
+export function deleteLearnedRule(id: string): boolean {
+  const all = loadRules();
+  for (const [account, rules] of Object.entries(all)) {
+    const kept = rules.filter(r => r.id !== id);
+    if (kept.length === rules.length) continue;
+    all[account] = kept;
+    writeStore(RULES_STORE, all);
+    return true;
+  }
+  return false;
+}
+
+/**
+ * Record a reviewer's verdict on a match as evidence for or against the
+ * patterns it shows. Only 1-to-1 matches teach anything, and matches of runs
+ * without an account only with LEARN_WITHOUT_ACCOUNT; deciding the same match
+ * again replaces its earlier evidence.
+ */
+export function learnFromMatch(
+  account: string | undefined,
+  sessionId: string,
+  match: Record<string, any>,
+  action: ReviewAction
+): void {
+  if (!account && !LEARN_WITHOUT_ACCOUNT) return;
+  if (match.file_a_indices?.length !== 1 || match.file_b_indices?.length !== 1) return;
+  if (!match.file_a_entry || !match.file_b_entry) return;
+  const observed = observe(match.file_a_entry, match.file_b_entry);
+  if (observed.length === 0) return;
+
+  const key = account ?? '';
+  const all = loadRules();
+  const rules = all[key] ?? [];
+  const now = new Date().toISOString();
+  for (const o of observed) {
+    const id = ruleId(key, o);
+    let rule = rules.find(r => r.id === id);
+    if (!rule) {
+      rule = { id, account: key, ...o, confirmations: 0, rejections: 0, evidence: {}, created_at: now, updated_at: now };
+      rules.push(rule);
+    }
+    rule.evidence[`${sessionId}/${match.id}`] = action;
+    const verdicts = Object.values(rule.evidence);
+    rule.confirmations = verdicts.filter(v => v === 'confirmed').length;
+    rule.rejections = verdicts.filter(v => v === 'rejected').length;
+    rule.example_a = o.example_a;
+    rule.example_b = o.example_b;
+    rule.updated_at = now;
+  }
+  all[key] = rules;
+  writeStore(RULES_STORE, all);
+}
+
+/**
+ * Deterministic pass with the account's active rules: open rows with the same
+ * amount whose descriptions or counterparties reviewers have matched before,
+ * dated within the window or at a learned lag. A pair is only taken when
+ * neither row has another such pair.
+ */
+export function findLearnedMatches(
+  rowsA: Record<string, any>[],
+  rowsB: Record<string, any>[],
+  rules: LearnedRule[],
+  open: { a: (i: number) => boolean; b: (j: number) => boolean },
+  compatible: (i: number, j: number) => boolean,
+  dateWindowDays: number
+): LearnedMatch[] {
+  const active = rules.filter(isActive);
+  const identities = active.filter(r => r.kind !== 'date_lag');
+  if (identities.length === 0) return [];
+  const lags = active.filter(r => r.kind === 'date_lag');
+  const cents = (row: Record<string, any>) => {
+    const amount = getRowAmount(row);
+    return isNaN(amount) ? null : Math.round(amount * 100);
+  };
+
+  const byAmount = new Map<number, number[]>();
+  rowsB.forEach((row, j) => {
+    const c = cents(row);
+    if (c == null || !open.b(j)) return;
+    if (!byAmount.has(c)) byAmount.set(c, []);
+    byAmount.get(c)!.push(j);
+  });
+
+  const pairs: LearnedMatch[] = [];
+  rowsA.forEach((a, i) => {
+    const c = cents(a);
+    if (c == null || !open.a(i)) return;
+    const descA = descriptionKey(a);
+    const partyA = counterpartyKey(a);
+    for (const j of byAmount.get(c) ?? []) {
+      const b = rowsB[j];
+      if (!compatible(i, j)) continue;
+      const descB = descriptionKey(b);
+      const partyB = counterpartyKey(b);
+      const matched = identities.filter(r =>
+        r.kind === 'description_alias'
+          ? r.file_a === descA && r.file_b === descB
+          : r.file_a === partyA && r.file_b === partyB
+      );
+      if (matched.length === 0) continue;
+      const days = daysApart(a, b);
+      const lag = signedLag(a, b);
+      const lagRule = lags.find(r => Math.abs(lag - r.lag_days!) <= 1);
+      if (!(days <= dateWindowDays) && !lagRule) continue;
+
+      const reasons = matched.map(r =>
+        `${r.kind === 'description_alias' ? 'description' : 'counterparty'} "${r.example_a}" in File A has been matched to "${r.example_b}" in File B (confirmed ${r.confirmations}x)`
+      );
+      reasons.push('same amount');
+      if (lagRule) reasons.push(`File B dated ${lag} day(s) later, a usual lag (confirmed ${lagRule.confirmations}x)`);
+      else reasons.push(days === 0 ? 'same date' : `dates ${days} day(s) apart`);
+      pairs.push({ a: i, b: j, reason: `Learned rule: ${reasons.join(', ')}`, rule_ids: [...matched, ...(lagRule ? [lagRule] : [])].map(r => r.id) });
+    }
+  });
+
+  const countA = new Map<number, number>();
+  const countB = new Map<number, number>();
+  for (const p of pairs) {
+    countA.set(p.a, (countA.get(p.a) ?? 0) + 1);
+    countB.set(p.b, (countB.get(p.b) ?? 0) + 1);
+  }
+  return pairs.filter(p => countA.get(p.a) === 1 && countB.get(p.b) === 1);
+}
+
+/**
+ * Learned patterns that bear on one File A row and its candidates, as
+ * few-shot context for the LLM: rules reviewers mostly confirmed or mostly rejected
+ */
+export function hintsFor(a: Record<string, any>, candidates: MatchCandidate[], rules: LearnedRule[]): LearnedHint[] {
+  const descA = descriptionKey(a);
+  const partyA = counterpartyKey(a);
+  const descB = new Set(candidates.map(c => descriptionKey(c.b)));
+  const partyB = new Set(candidates.map(c => counterpartyKey(c.b)));
+  const relevant = (r: LearnedRule) => {
+    if (r.kind === 'date_lag') return isActive(r);
+    if (r.confirmations === r.rejections) return false;
+    return r.kind === 'description_alias'
+      ? r.file_a === descA && descB.has(r.file_b)
+      : r.file_a === partyA && partyB.has(r.file_b);
+  };
+  return rules
+    .filter(relevant)
+    .sort((x, y) => y.confirmations + y.rejections - (x.confirmations + x.rejections))
+    .slice(0, MAX_HINTS)
+    .map(r => ({
+      kind: r.kind,
+      file_a: r.example_a,
+      file_b: r.example_b,
+      lag_days: r.lag_days,
+      confirmations: r.confirmations,
+      rejections: r.rejections,
+    }));
+}
+
+// Route setup
+router.get('/learned-rules', (req: Request, res: Response) => {
+  const account = typeof req.query.account === 'string' ? req.query.account : undefined;
+  res.json({ rules: listLearnedRules(account), min_confirmations: LEARNED_RULE_MIN_CONFIRMATIONS });
+});
+
+router.delete('/learned-rules/:id', (req: Request, res: Response) => {
+  if (!deleteLearnedRule(String(req.params.id))) {
+    res.status(404).json({ error: `Unknown learned rule: ${req.params.id}` });
+    return;
+  }
+  res.status(204).end();
+});
+
+export default router;
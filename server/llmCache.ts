@@ -0,0 +1,154 @@
+import express, { Request, Response, Router } from 'express';
+import { createHash } from 'crypto';
+import { deleteStore, listStores, readStore, writeStore } from './store';
+import { LearnedHint, MatchCandidate, MatchResult, Matcher } from './matchers';
+
+const router: Router = express.Router();
+
+// Set LLM_CACHE=off to call the LLM for every row unless a request opts back in
+export const LLM_CACHE_ENABLED = (process.env.LLM_CACHE || 'on').toLowerCase() !== 'off';
+
+export interface CachedResult {
+  // Position of the File B row in the candidate list, so a hit also applies
+  // when the same rows sit at other indices in another upload
+  candidate: number;
+  match: boolean;
+  confidence: number;
+  reason: string;
+  provider?: string;
+  model?: string;
+}
+
+export interface CacheEntry {
+  key: string;
+  // Engine, model and prompt version the answer came from
+  version: string;
+  created_at: string;
+  results: CachedResult[];
+}
+
+export interface CacheStats {
+  hits: number;
+  misses: number;
+}
+
+const CACHE_PREFIX = 'llmcache-';
+const CACHE_KEY = /^[0-9a-f]{64}$/;
+
+/**
+ * JSON with object keys sorted, so column order does not change the hash
+ */
+function stableStringify(value: any): string {
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(',')}]`;
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort().map(k => `${JSON.stringify(k)}:${stableStringify(value[k])}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+export function cacheKey(version: string, a: Record<string, any>, candidates: MatchCandidate[], hints: LearnedHint[] = []): string {
+  // Learned hints change the prompt; without any, keys stay as they were
+  return createHash('sha256')
+    .update(stableStringify({ version, a, candidates: candidates.map(c => c.b), ...(hints.length > 0 ? { hints } : {}) }))
+    .digest('hex');
+}
+
+export function getCacheEntry(key: string): CacheEntry | null {
+  if (!CACHE_KEY.test(key)) return null;
+  return readStore<CacheEntry | null>(`${CACHE_PREFIX}${key}`, null);
+}
+
+export function listCacheEntries(): CacheEntry[] {
+  return listStores(CACHE_PREFIX)
+    .map(name => readStore<CacheEntry | null>(name, null))
+    .filter((e): e is CacheEntry => !!e)
+    .sort((x, y) => y.created_at.localeCompare(x.created_at));
+}
+
+/**
+ * Remove cached answers, optionally only those from one engine/model/prompt version
+ */
+export function clearCache(version?: string): number {
+  let removed = 0;
+  for (const name of listStores(CACHE_PREFIX)) {
+    if (version && readStore<CacheEntry | null>(name, null)?.version !== version) continue;
+    if (deleteStore(name)) removed++;
+  }
+  return removed;
+}
+
+/**
+ * Wrap an LLM matcher so answers are stored on disk and reused for the same
+ * File A row and candidates. Each call returns a fresh wrapper whose hit and
+ * miss counts cover one run.
+ */
+export function withCache(matcher: Matcher, version: string): Matcher & { cacheStats: CacheStats } {
+  const cacheStats: CacheStats = { hits: 0, misses: 0 };
+  return {
+    ...matcher,
+    cacheStats,
+    async matchRow(a, candidates, signal, hints = []) {
+      if (candidates.length === 0) return [];
+      const key = cacheKey(version, a, candidates, hints);
+      const cached = getCacheEntry(key);
+      if (cached) {
+        cacheStats.hits++;
+        return cached.results
+          .filter(r => candidates[r.candidate])
+          .map(({ candidate, ...rest }) => ({ ...rest, file_b_index: candidates[candidate].idx }));
+      }
+      cacheStats.misses++;
+      const results: MatchResult[] = await matcher.matchRow(a, candidates, signal, hints);
+      const positions = new Map(candidates.map((c, k) => [c.idx, k]));
+      const storable = results.filter(r => positions.has(r.file_b_index));
+      // An empty answer usually means the response could not be parsed; ask again next time
+      if (storable.length > 0) {
+        writeStore<CacheEntry>(`${CACHE_PREFIX}${key}`, {
+          key,
+          version,
+          created_at: new Date().toISOString(),
+          results: storable.map(({ file_b_index, ...rest }) => ({ ...rest, candidate: positions.get(file_b_index)! })),
+        });
+      }
+      return results;
+    },
+  };
+}
+
+router.get('/llm-cache', (_req: Request, res: Response) => {
+  const entries = listCacheEntries();
+  const versions: Record<string, number> = {};
+  for (const e of entries) versions[e.version] = (versions[e.version] || 0) + 1;
+  res.json({
+    enabled: LLM_CACHE_ENABLED,
+    count: entries.length,
+    versions,
+    entries: entries.map(e => ({ key: e.key, version: e.version, created_at: e.created_at, candidates: e.results.length })),
+  });
+});
+
+router.get('/llm-cache/:key', (req: Request, res: Response) => {
+  const key = String(req.params.key);
+  const entry = getCacheEntry(key);
+  if (!entry) {
+    res.status(404).json({ error: `Unknown cache entry: ${key}` });
+    return;
+  }
+  res.json(entry);
+});
+
+router.delete('/llm-cache', (req: Request, res: Response) => {
+  const version = typeof req.query.version === 'string' ? req.query.version : undefined;
+  res.json({ removed: clearCache(version) });
+});
+
+router.delete('/llm-cache/:key', (req: Request, res: Response) => {
+  const key = String(req.params.key);
+  if (!CACHE_KEY.test(key) || !deleteStore(`${CACHE_PREFIX}${key}`)) {
+    res.status(404).json({ error: `Unknown cache entry: ${key}` });
+    return;
+  }
+  res.status(204).end();
+});
+
+export default router;
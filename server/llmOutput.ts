@@ -0,0 +1,140 @@
+import { MatchCandidate, MatchResult } from './matchers';
+
+/**
+ * The LLM answered, but not with a usable result for every candidate
+ */
+export class LlmOutputError extends Error {
+  constructor(message: string, public raw: string) {
+    super(message);
+    this.name = 'LlmOutputError';
+  }
+}
+
+/**
+ * Per-row record of an LLM answer that stayed invalid after re-asking
+ */
+export interface LlmRowError {
+  file_a_index: number;
+  error: string;
+  // Start of the last response, for diagnosis
+  raw: string;
+}
+
+// JSON schema of the answer, in the subset both Gemini and OpenAI-style structured output accept
+export const MATCH_RESULTS_SCHEMA = {
+  type: 'array',
+  items: {
+    type: 'object',
+    properties: {
+      file_b_index: { type: 'integer' },
+      match: { type: 'boolean' },
+      confidence: { type: 'number' },
+      reason: { type: 'string' },
+    },
+    required: ['file_b_index', 'match', 'confidence', 'reason'],
+  },
+} as const;
+
+const RAW_EXCERPT_LENGTH = 500;
+
+export function rawExcerpt(content: string): string {
+  return content.length > RAW_EXCERPT_LENGTH ? `${content.slice(0, RAW_EXCERPT_LENGTH)}…` : content;
+}
+
+/**
+ * First complete top-level JSON array or object in a response, skipping code
+ * fences and prose around it. Brackets inside strings are ignored.
+ */
+export function extractJson(content: string): string | null {
+  const start = content.search(/[[{]/);
+  if (start < 0) return null;
+  let depth = 0;
+  let inString = false;
+  for (let k = start; k < content.length; k++) {
+    const ch = content[k];
+    if (inString) {
+      if (ch === '\\') k++;
+      else if (ch === '"') inString = false;
+    } else if (ch === '"') {
+      inString = true;
+    } else if (ch === '[' || ch === '{') {
+      depth++;
+    } else if (ch === ']' || ch === '}') {
+      if (--depth === 0) return content.slice(start, k + 1);
+    }
+  }
+  return null;
+}
+
+function parseLenient(json: string): unknown {
+  try {
+    return JSON.parse(json);
+  } catch {
+    // Trailing commas are the most common slip
+    return JSON.parse(json.replace(/,\s*([\]}])/g, '$1'));
+  }
+}
+
+/**
+ * Parse and validate an LLM answer against its candidates: one entry per
+ * candidate, each with a known file_b_index, a boolean match, a confidence
+ * in 0-1 and a reason. Harmless deviations (numbers or booleans as strings,
+ * percentages, a wrapping object) are repaired; anything else throws
+ * LlmOutputError with every problem found.
+ */
+export function parseMatchResults(content: string, candidates: MatchCandidate[]): MatchResult[] {
+  const json = extractJson(content);
+  if (!json) throw new LlmOutputError('Response contains no JSON.', content);
+  let parsed: any;
+  try {
+    parsed = parseLenient(json);
+  } catch (err) {
+    throw new LlmOutputError(`Response is not valid JSON: ${(err as Error).message}`, content);
+  }
+  if (parsed && !Array.isArray(parsed) && typeof parsed === 'object') {
+    parsed = Object.values(parsed).find(Array.isArray) ?? [parsed];
+  }
+  if (!Array.isArray(parsed)) throw new LlmOutputError('Response is not a JSON array.', content);
+
+  const allowed = new Set(candidates.map(c => c.idx));
+  const seen = new Set<number>();
+  const problems: string[] = [];
+  const results: MatchResult[] = [];
+  parsed.forEach((item, k) => {
+    const at = `item ${k}`;
+    if (!item || typeof item !== 'object') {
+      problems.push(`${at} is not an object`);
+      return;
+    }
+    const index = Number(item.file_b_index);
+    let confidence = typeof item.confidence === 'string' ? parseFloat(item.confidence) : item.confidence;
+    if (typeof confidence === 'number' && confidence > 1 && confidence <= 100) confidence /= 100;
+    const match = item.match === 'true' ? true : item.match === 'false' ? false : item.match;
+    const reason = typeof item.reason === 'string' ? item.reason.trim() : '';
+
+    if (!Number.isInteger(index) || !allowed.has(index)) {
+      problems.push(`${at}: file_b_index ${JSON.stringify(item.file_b_index)} is not one of the candidates`);
+      return;
+    }
+    if (seen.has(index)) {
+      problems.push(`${at}: file_b_index ${index} appears more than once`);
+      return;
+    }
+    seen.add(index);
+    if (typeof match !== 'boolean') problems.push(`${at}: match must be true or false`);
+    if (typeof confidence !== 'number' || !(confidence >= 0 && confidence <= 1)) problems.push(`${at}: confidence must be a number from 0 to 1`);
+    if (!reason) problems.push(`${at}: reason is missing`);
+    results.push({ file_b_index: index, match, confidence, reason });
+  });
+  const missing = candidates.filter(c => !seen.has(c.idx)).map(c => c.idx);
+  if (missing.length > 0) problems.push(`no entry for file_b_index ${missing.join(', ')}`);
+  if (problems.length > 0) throw new LlmOutputError(`Invalid response: ${problems.join('; ')}.`, content);
+  return results;
+}
+
+/**
+ * Follow-up prompt asking the model to correct an invalid answer
+ */
+export function repairPrompt(prompt: string, error: LlmOutputError): string {
+  return `${prompt}\n\nYour previous response could not be used. ${error.message}\nPrevious response:\n${rawExcerpt(error.raw)}\n\nRespond again with ONLY the corrected JSON array, one object per File B candidate listed above.`;
+}
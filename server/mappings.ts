@@ -0,0 +1,309 @@
+import express, { Request, Response, Router } from 'express';
+import multer from 'multer';
+import { ImportOptions, ParseError, ParsedFile, readFile } from './parse';
+import { readStore, writeStore } from './store';
+import { DateReport, normalizeRowDates } from './normalize';
+
+const router: Router = express.Router();
+const upload = multer({ storage: multer.memoryStorage() });
+
+export const CANONICAL_FIELDS = [
+  'date',
+  'valueDate',
+  'amount',
+  'debit',
+  'credit',
+  'currency',
+  'reference',
+  'counterparty',
+  'description',
+] as const;
+
+export type CanonicalField = typeof CANONICAL_FIELDS[number];
+
+/**
+ * Maps canonical fields to source column headers
+ */
+export type ColumnMapping = Partial<Record<CanonicalField, string>>;
+
+export interface MappingProfile {
+  name: string;
+  columns: ColumnMapping;
+  // Where the data sits in an Excel workbook
+  import?: ImportOptions;
+}
+
+/**
+ * Column names mapped rows are rewritten to; the rest of the pipeline reads these
+ */
+export const CANONICAL_COLUMNS: Record<CanonicalField, string> = {
+  date: 'Date',
+  valueDate: 'Value Date',
+  amount: 'Amount',
+  debit: 'Debit Amount',
+  credit: 'Credit Amount',
+  currency: 'Currency',
+  reference: 'Reference',
+  counterparty: 'Counterparty',
+  description: 'Description',
+};
+
+// Known header spellings per field, compared after lowercasing and stripping punctuation
+const HEADER_SYNONYMS: Record<CanonicalField, string[]> = {
+  date: ['date', 'postingdate', 'postingdt', 'transactiondate', 'txndate', 'txndt', 'bookingdate', 'entrydate', 'dt'],
+  valueDate: ['valuedate', 'valuedt', 'valdate', 'effectivedate'],
+  amount: ['amount', 'amt', 'txnamt', 'transactionamount', 'txnamount', 'netamount', 'value'],
+  debit: ['debit', 'debitamount', 'debitamt', 'dr', 'withdrawal', 'withdrawals', 'moneyout', 'paidout'],
+  credit: ['credit', 'creditamount', 'creditamt', 'cr', 'deposit', 'deposits', 'moneyin', 'paidin'],
+  currency: ['currency', 'curr', 'ccy', 'currencycode', 'accountcurrency', 'cur'],
+  reference: ['reference', 'ref', 'refno', 'referenceno', 'referencenumber', 'checknumber', 'checkno', 'chequeno', 'documentno', 'docno', 'invoice', 'invoiceno', 'transactionid', 'txnid'],
+  counterparty: ['counterparty', 'payee', 'payer', 'vendor', 'supplier', 'customer', 'merchant', 'beneficiary', 'name'],
+  description: ['description', 'desc', 'memo', 'narrative', 'narration', 'details', 'particulars', 'text', 'remarks'],
+};
+
+// Looser fallbacks for headers that merely contain a telling word
+const HEADER_PATTERNS: Record<CanonicalField, RegExp> = {
+  date: /date|dt$/,
+  valueDate: /^val.*(date|dt)$/,
+  amount: /amount|amt/,
+  debit: /debit|withdraw/,
+  credit: /credit|deposit/,
+  currency: /curr|ccy/,
+  reference: /ref|check|cheque|invoice/,
+  counterparty: /payee|vendor|customer|merchant|counterparty/,
+  description: /desc|memo|narr|detail/,
+};
+
+const BUILT_IN_PROFILES: MappingProfile[] = [
+  { name: 'auto', columns: {} },
+];
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Guess a column mapping from header names
+ */
+export function detectMapping(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const taken = new Set<string>();
+  const assign = (field: CanonicalField, header: string | undefined) => {
+    if (!header || mapping[field] || taken.has(header)) return;
+    mapping[field] = header;
+    taken.add(header);
+  };
+  // Exact synonyms first, so "Debit Amount" is not claimed as the plain amount
+  for (const field of CANONICAL_FIELDS) {
+    assign(field, headers.find(h => !taken.has(h) && HEADER_SYNONYMS[field].includes(normalizeHeader(h))));
+  }
+  for (const field of ['debit', 'credit', 'valueDate', 'date', 'currency', 'reference', 'counterparty', 'description', 'amount'] as CanonicalField[]) {
+    assign(field, headers.find(h => !taken.has(h) && HEADER_PATTERNS[field].test(normalizeHeader(h))));
+  }
+  return mapping;
+}
+
+export function listProfiles(): MappingProfile[] {
+  return [...BUILT_IN_PROFILES, ...readStore<MappingProfile[]>('mapping-profiles', [])];
+}
+
+export function getProfile(name: string): MappingProfile | undefined {
+  return listProfiles().find(p => p.name === name);
+}
+
+export function saveProfile(profile: MappingProfile): MappingProfile {
+  if (!profile.name || typeof profile.name !== 'string') {
+    throw new Error('Profile name is required.');
+  }
+  if (BUILT_IN_PROFILES.some(p => p.name === profile.name)) {
+    throw new Error(`Cannot overwrite built-in profile: ${profile.name}`);
+  }
+  const columns: ColumnMapping = {};
+  for (const field of CANONICAL_FIELDS) {
+    const header = profile.columns?.[field];
+    if (typeof header === 'string' && header.trim() !== '') columns[field] = header;
+  }
+  const importOptions = parseImportOptions(profile.import);
+  const saved: MappingProfile = { name: profile.name, columns, ...(Object.keys(importOptions).length > 0 ? { import: importOptions } : {}) };
+  const profiles = readStore<MappingProfile[]>('mapping-profiles', []).filter(p => p.name !== saved.name);
+  writeStore('mapping-profiles', [...profiles, saved]);
+  return saved;
+}
+
+export function deleteProfile(name: string): boolean {
+  const profiles = readStore<MappingProfile[]>('mapping-profiles', []);
+  const remaining = profiles.filter(p => p.name !== name);
+  if (remaining.length === profiles.length) return false;
+  writeStore('mapping-profiles', remaining);
+  return true;
+}
+
+/**
+ * Keep the valid import settings of a profile or request
+ */
+export function parseImportOptions(value: unknown): ImportOptions {
+  const options: ImportOptions = {};
+  if (!value || typeof value !== 'object') return options;
+  const { sheet, headerRow, range, dateOrder } = value as Record<string, unknown>;
+  if (typeof sheet === 'string' && sheet.trim() !== '') options.sheet = sheet;
+  if (headerRow !== undefined && headerRow !== null && headerRow !== '') {
+    const row = Number(headerRow);
+    if (!Number.isInteger(row) || row < 1) throw new Error(`Invalid header row: ${headerRow}`);
+    options.headerRow = row;
+  }
+  if (typeof range === 'string' && range.trim() !== '') {
+    if (!/^\$?[A-Z]{1,3}\$?\d+(:\$?[A-Z]{1,3}\$?\d+)?$/i.test(range.trim())) throw new Error(`Invalid range: ${range}`);
+    options.range = range.trim().toUpperCase();
+  }
+  if (dateOrder !== undefined && dateOrder !== null && dateOrder !== '' && dateOrder !== 'auto') {
+    if (dateOrder !== 'MDY' && dateOrder !== 'DMY') throw new Error(`Invalid date order: ${dateOrder} (use MDY, DMY or auto)`);
+    options.dateOrder = dateOrder;
+  }
+  return options;
+}
+
+/**
+ * Import settings for an upload: the mapping profile's, overridden by any
+ * given with the upload (a JSON object of sheet, headerRow, range and dateOrder)
+ */
+export function resolveImportOptions(mappingSpec: string | undefined, importSpec: string | undefined): ImportOptions {
+  const trimmed = (mappingSpec || '').trim();
+  const fromProfile = trimmed !== '' && !trimmed.startsWith('{') ? getProfile(trimmed)?.import ?? {} : {};
+  const given = (importSpec || '').trim() !== '' ? parseImportOptions(JSON.parse(importSpec!)) : {};
+  return { ...fromProfile, ...given };
+}
+
+/**
+ * Resolve an upload's mapping spec (a profile name or a JSON column mapping)
+ * against the file's headers. Fields the spec leaves out, or whose column is
+ * missing from the file, fall back to header auto-detection.
+ */
+export function resolveMapping(spec: string | undefined, headers: string[]): ColumnMapping {
+  let columns: ColumnMapping = {};
+  const trimmed = (spec || '').trim();
+  if (trimmed.startsWith('{')) {
+    columns = JSON.parse(trimmed) as ColumnMapping;
+  } else if (trimmed !== '') {
+    const profile = getProfile(trimmed);
+    if (!profile) throw new Error(`Unknown mapping profile: ${trimmed}`);
+    columns = profile.columns;
+  }
+  const explicit: ColumnMapping = {};
+  for (const field of CANONICAL_FIELDS) {
+    const header = columns[field];
+    if (header && headers.includes(header)) explicit[field] = header;
+  }
+  const detected = detectMapping(headers.filter(h => !Object.values(explicit).includes(h)));
+  return { ...detected, ...explicit };
+}
+
+/**
+ * Rename mapped source columns to their canonical names; unmapped columns are kept as-is
+ */
+export function applyMapping(row: Record<string, any>, mapping: ColumnMapping): Record<string, any> {
+  const sourceToCanonical = new Map<string, string>();
+  for (const field of CANONICAL_FIELDS) {
+    const header = mapping[field];
+    if (header) sourceToCanonical.set(header, CANONICAL_COLUMNS[field]);
+  }
+  const canonicalNames = new Set(sourceToCanonical.values());
+  const out: Record<string, any> = {};
+  for (const [key, value] of Object.entries(row)) {
+    const canonical = sourceToCanonical.get(key);
+    if (canonical) {
+      out[canonical] = value;
+    } else if (canonicalNames.has(key)) {
+      // An unmapped column sharing a canonical name must not clobber the mapped one
+      out[`${key} (unmapped)`] = value;
+    } else {
+      out[key] = value;
+    }
+  }
+  return out;
+}
+
+/**
+ * Headers of a parsed file, in column order
+ */
+export function headersOf(rows: Record<string, any>[]): string[] {
+  const headers = new Set<string>();
+  for (const row of rows) Object.keys(row).forEach(k => headers.add(k));
+  return [...headers];
+}
+
+/**
+ * Apply an upload's mapping spec to all parsed rows
+ */
+export function mapRows(rows: Record<string, any>[], spec: string | undefined) {
+  const mapping = resolveMapping(spec, headersOf(rows));
+  return { rows: rows.map(row => applyMapping(row, mapping)), mapping };
+}
+
+/**
+ * How an upload was read, reported alongside the column mapping
+ */
+export type ImportInfo = Omit<ParsedFile, 'rows'> & DateReport;
+
+/**
+ * Parse an uploaded file with its import settings, apply its mapping spec and
+ * normalize its dates. A file that cannot be read throws a ParseError naming it.
+ */
+export function loadUpload(file: Express.Multer.File, mappingSpec: string | undefined, importSpec: string | undefined) {
+  try {
+    const options = resolveImportOptions(mappingSpec, importSpec);
+    const { rows, ...info } = readFile(file.buffer, options);
+    const mapped = mapRows(rows, mappingSpec);
+    const { rows: dated, ...dates } = normalizeRowDates(mapped.rows, options.dateOrder);
+    return { rows: dated, mapping: mapped.mapping, import: { ...info, ...dates } as ImportInfo };
+  } catch (error: any) {
+    throw new ParseError(`${file.originalname}: ${error.message}`, error instanceof ParseError ? error.line : undefined);
+  }
+}
+
+// Route setup
+router.get('/mapping-profiles', (_req: Request, res: Response) => {
+  res.json({ profiles: listProfiles(), fields: CANONICAL_FIELDS });
+});
+
+router.post('/mapping-profiles', express.json(), (req: Request, res: Response) => {
+  try {
+    res.json(saveProfile(req.body as MappingProfile));
+  } catch (error: any) {
+    res.status(400).json({ error: error.message });
+  }
+});
+
+router.delete('/mapping-profiles/:name', (req: Request, res: Response) => {
+  if (!deleteProfile(String(req.params.name))) {
+    res.status(404).json({ error: `Unknown mapping profile: ${req.params.name}` });
+    return;
+  }
+  res.status(204).end();
+});
+
+// Preview the first rows of an upload with its detected (or profile) mapping and import settings
+router.post('/preview', upload.single('file'), (req: Request, res: Response) => {
+  try {
+    if (!req.file) {
+      res.status(400).json({ error: 'A file is required.' });
+      return;
+    }
+    const options = resolveImportOptions(req.body?.mapping, req.body?.import);
+    const { rows, ...info } = readFile(req.file.buffer, options);
+    const headers = headersOf(rows);
+    const mapping = resolveMapping(req.body?.mapping, headers);
+    const { rows: _dated, ...dates } = normalizeRowDates(rows.map(row => applyMapping(row, mapping)), options.dateOrder);
+    res.json({
+      headers,
+      rows: rows.slice(0, 5),
+      row_count: rows.length,
+      mapping,
+      ...info,
+      ...dates,
+    });
+  } catch (error: any) {
+    res.status(400).json({ error: (error && error.message) ? String(error.message) : 'Could not read file', line: error instanceof ParseError ? error.line : undefined });
+  }
+});
+
+export default router;
@@ -0,0 +1,333 @@
+import dotenv from 'dotenv';
+import {
+  AMOUNT_TOLERANCE,
+  daysApart,
+  getRowAmount,
+  getRowReference,
+} from './normalize';
+import { TaskQueue, createTaskQueue, withRetry } from './queue';
+import { CacheStats, LLM_CACHE_ENABLED, withCache } from './llmCache';
+import { LlmOutputError, parseMatchResults, repairPrompt } from './llmOutput';
+import { LlmProvider, geminiProvider, providers } from './providers';
+import { RedactionReport, compareRedactedFields, createRedactor, redactionVersion } from './redact';
+import { ValidationError } from './config';
+
+// Load environment variables
+dotenv.config();
+
+// Bump whenever the prompt changes so cached answers to the old prompt are not reused
+const PROMPT_VERSION = 3;
+
+// One queue per provider, shared by every run so concurrent jobs stay within
+// the API quota together (the Gemini free tier allows 15 requests per minute)
+const LLM_CONCURRENCY = parseInt(process.env.LLM_CONCURRENCY || '2', 10);
+const LLM_REQUESTS_PER_MINUTE = parseInt(process.env.LLM_REQUESTS_PER_MINUTE || '15', 10);
+const LLM_MAX_RETRIES = parseInt(process.env.LLM_MAX_RETRIES || '4', 10);
+const LLM_RETRY_BASE_MS = parseInt(process.env.LLM_RETRY_BASE_MS || '2000', 10);
+// Times to re-ask when an answer fails validation, before reporting the row in llm_errors
+const LLM_OUTPUT_RETRIES = parseInt(process.env.LLM_OUTPUT_RETRIES || '1', 10);
+
+export interface MatchCandidate {
+  b: Record<string, any>;
+  idx: number;
+}
+
+export interface MatchResult {
+  file_b_index: number;
+  match: boolean;
+  confidence: number;
+  reason: string;
+  // LLM provider and model that gave the answer, for the audit trail
+  provider?: string;
+  model?: string;
+}
+
+/**
+ * A pattern from earlier reviews of the account (see learnedRules.ts), given
+ * to LLM engines as few-shot context
+ */
+export interface LearnedHint {
+  kind: 'description_alias' | 'counterparty' | 'date_lag';
+  // Description or counterparty on each side as reviewed; dates for a date lag
+  file_a: string;
+  file_b: string;
+  lag_days: number | null;
+  confirmations: number;
+  rejections: number;
+}
+
+/**
+ * A match engine scores one File A row against its File B candidates
+ */
+export interface Matcher {
+  name: string;
+  // signal aborts the call (or its place in a queue) when the run is cancelled;
+  // hints are learned patterns relevant to this row
+  matchRow(a: Record<string, any>, candidates: MatchCandidate[], signal?: AbortSignal, hints?: LearnedHint[]): Promise<MatchResult[]>;
+  // Set on LLM matchers that read through the response cache
+  cacheStats?: CacheStats;
+  // What an LLM matcher redacted from the rows it sent so far
+  redactionReport?(): RedactionReport;
+}
+
+export interface MatcherOptions {
+  // false skips the LLM response cache (defaults to LLM_CACHE)
+  cache?: boolean;
+}
+
+/**
+ * Pretty-print for LLM prompt
+ */
+function prettyPrint(row: Record<string, any>): string {
+  return Object.entries(row)
+    .map(([k, v]) => `${k}: ${v}`)
+    .join('\n');
+}
+
+/**
+ * Learned patterns as prompt lines, or '' when there are none
+ */
+function formatHints(hints: LearnedHint[]): string {
+  if (hints.length === 0) return '';
+  const lines = hints.map(h => {
+    const verdict = h.confirmations > h.rejections ? `Confirmed ${h.confirmations}x` : `Rejected ${h.rejections}x`;
+    if (h.kind === 'date_lag') return `- ${verdict}: File B is dated ${h.lag_days} day(s) after File A`;
+    const field = h.kind === 'description_alias' ? 'description' : 'counterparty';
+    const relation = h.confirmations > h.rejections ? 'is the same payee as' : 'is NOT the same payee as';
+    return `- ${verdict}: File A ${field} "${h.file_a}" ${relation} File B ${field} "${h.file_b}"`;
+  });
+  return `**Decisions from earlier reviews of this account** (strong evidence, but still check amounts and dates):\n${lines.join('\n')}\n\n`;
+}
+
+/**
+ * Prompt asking the LLM to score one File A row against each of its candidates
+ */
+export function buildMatchPrompt(
+  a: Record<string, any>,
+  candidates: MatchCandidate[],
+  checks: Map<number, string> = new Map(),
+  hints: LearnedHint[] = []
+): string {
+  const fileAString = prettyPrint(a);
+  const candidatesString = candidates
+    .map(({ b, idx }) => `${idx}:\n${prettyPrint(b)}${checks.has(idx) ? `\nServer check of redacted fields: ${checks.get(idx)}` : ''}`)
+    .join('\n\n');
+  return `You are a financial reconciliation expert.\n\nYour task is to compare the following File A transaction to each of the File B candidates. For each candidate, output a JSON object with: file_b_index, match (true/false), confidence (0-1), and a clear, human-readable reason.\n\n**Instructions:**\n- Consider all possible reasons two transactions may represent the same real-world event, even if there are differences in description, date, amount, or currency.\n- If you detect a possible partial payment, duplicate, or ambiguous record, explain this in the reason and set confidence accordingly.\n- If the amounts are close but not exact, consider rounding, partial payments, or splits.\n- If the dates are off by a few days, consider posting delays.\n- If currencies differ, only match if you are highly confident and explain why.\n- If you are uncertain, set confidence below 0.85 and explain why.\n- Always provide a clear, concise reason for your decision, mentioning any edge cases (partial payment, duplicate, ambiguous, currency/format mismatch, etc.) if relevant.\n- Values in square brackets such as [NAME-1a2b3c4d] or [ACCOUNT-…] are redacted for privacy: identical tokens stand for identical values. Where given, rely on the server check of redacted fields.\n\n**Confidence Scoring System:**\n- Use the full range from 0 (no match) to 1 (perfect match).\n- 0.95–1.0: Nearly certain match (all key fields align, only minor differences).\n- 0.85–0.94: Strong match, but with some uncertainty (e.g., minor field differences, plausible but not perfect).\n- 0.7–0.84: Possible match, but notable uncertainty (e.g., partial payment, ambiguous description, or multiple plausible candidates).\n- 0.5–0.69: Weak match, only some fields align, or possible duplicate/ambiguous.\n- 0.2–0.49: Very weak match, unlikely but not impossible.\n- 0–0.19: No meaningful match.\n- Justify the confidence score in your reason.\n\n- Output ONLY a single JSON array, one object per File B candidate, in the same order as below. Do not include any commentary, markdown, or explanation outside the JSON.\n\n${formatHints(hints)}File A:\n${fileAString}\n\nFile B candidates:\n${candidatesString}`;
+}
+
+/**
+ * Gemini batch match: one LLM call per File A row. Throws LlmOutputError
+ * when the answer does not validate against the candidates.
+ */
+export async function geminiBatchMatchRow(
+  a: Record<string, any>,
+  candidates: MatchCandidate[]
+): Promise<MatchResult[]> {
+  if (candidates.length === 0) return [];
+  const { redactRow } = createRedactor();
+  const prompt = buildMatchPrompt(
+    redactRow(a),
+    candidates.map(c => ({ ...c, b: redactRow(c.b) })),
+    compareRedactedFields(a, candidates)
+  );
+  return parseMatchResults(await geminiProvider.generate(prompt), candidates);
+}
+
+const queues = new Map<string, TaskQueue>();
+
+function queueFor(provider: LlmProvider): TaskQueue {
+  if (!queues.has(provider.name)) {
+    queues.set(provider.name, createTaskQueue({
+      concurrency: LLM_CONCURRENCY,
+      ratePerMinute: provider.ratePerMinute ?? LLM_REQUESTS_PER_MINUTE,
+    }));
+  }
+  return queues.get(provider.name)!;
+}
+
+/**
+ * Match engine backed by an LLM provider, for one run: one queued, retried
+ * call per File A row, re-asked when the answer does not validate. Sensitive
+ * values are redacted before the prompt is built.
+ */
+export function createLlmMatcher(provider: LlmProvider): Matcher {
+  const queue = queueFor(provider);
+  const redactor = createRedactor();
+  return {
+    name: provider.name,
+    redactionReport: redactor.report,
+    async matchRow(a, candidates, signal, hints = []) {
+      if (candidates.length === 0) return [];
+      // Hint values are redacted like the columns they came from
+      const redactHint = (h: LearnedHint): LearnedHint => {
+        if (h.kind === 'date_lag') return h;
+        const field = h.kind === 'description_alias' ? 'Description' : 'Counterparty';
+        return { ...h, file_a: redactor.redactRow({ [field]: h.file_a })[field], file_b: redactor.redactRow({ [field]: h.file_b })[field] };
+      };
+      const prompt = buildMatchPrompt(
+        redactor.redactRow(a),
+        candidates.map(c => ({ ...c, b: redactor.redactRow(c.b) })),
+        compareRedactedFields(a, candidates),
+        hints.map(redactHint)
+      );
+      // Each re-ask is a separate call, queued and rate-limited like the first
+      const call = (p: string) => queue.run(
+        () => withRetry(() => provider.generate(p, signal), { retries: LLM_MAX_RETRIES, baseDelayMs: LLM_RETRY_BASE_MS, signal }),
+        signal
+      );
+      let content = await call(prompt);
+      for (let attempt = 0; ; attempt++) {
+        try {
+          return parseMatchResults(content, candidates).map(r => ({ ...r, provider: provider.name, model: provider.model }));
+        } catch (err) {
+          if (!(err instanceof LlmOutputError) || attempt >= LLM_OUTPUT_RETRIES) throw err;
+          console.warn(`Invalid ${provider.model} response, asking again (${attempt + 1}/${LLM_OUTPUT_RETRIES}): ${err.message}`);
+          content = await call(repairPrompt(prompt, err));
+        }
+      }
+    },
+  };
+}
+
+// Rule-based scoring: weights sum to 1, so an exact amount on the same date
+// clears the default 0.85 threshold even when descriptions differ entirely.
+const RULE_WEIGHTS = { amount: 0.55, date: 0.3, description: 0.15 };
+const RULE_DATE_WINDOW = 7;
+const DESCRIPTION_FIELD = /desc|memo|narr|detail|payee|particular|reference|ref/i;
+
+export function descriptionText(row: Record<string, any>): string {
+  const keys = Object.keys(row).filter(k => DESCRIPTION_FIELD.test(k));
+  return keys.map(k => String(row[k] ?? '')).join(' ');
+}
+
+function tokenize(text: string): Set<string> {
+  return new Set(text.toLowerCase().split(/[^a-z0-9]+/).filter(t => t.length > 1));
+}
+
+/**
+ * Dice coefficient over word tokens (0-1)
+ */
+export function descriptionSimilarity(a: string, b: string): number {
+  const ta = tokenize(a);
+  const tb = tokenize(b);
+  if (ta.size === 0 || tb.size === 0) return 0;
+  let shared = 0;
+  for (const t of ta) if (tb.has(t)) shared++;
+  return (2 * shared) / (ta.size + tb.size);
+}
+
+/**
+ * Score one File A / File B pair with deterministic rules
+ */
+export function scorePair(a: Record<string, any>, b: Record<string, any>): Omit<MatchResult, 'file_b_index'> {
+  const amountA = getRowAmount(a);
+  const amountB = getRowAmount(b);
+  const reasons: string[] = [];
+
+  let amountScore = 0;
+  if (!isNaN(amountA) && !isNaN(amountB)) {
+    const diff = Math.abs(amountA - amountB);
+    if (diff <= AMOUNT_TOLERANCE) {
+      amountScore = 1;
+      reasons.push('amounts match exactly');
+    } else {
+      // Lose all amount credit once the difference reaches 5% of the larger amount
+      const scale = Math.max(Math.abs(amountA), Math.abs(amountB), 1) * 0.05;
+      amountScore = Math.max(0, 1 - diff / scale);
+      reasons.push(`amounts differ by ${diff.toFixed(2)}`);
+    }
+  } else {
+    reasons.push('amount missing or unreadable');
+  }
+
+  let dateScore = 0;
+  const days = daysApart(a, b);
+  if (!isNaN(days)) {
+    dateScore = Math.max(0, 1 - days / RULE_DATE_WINDOW);
+    reasons.push(days === 0 ? 'same date' : `dates ${days} day(s) apart`);
+  } else {
+    reasons.push('date missing or unreadable');
+  }
+
+  const descScore = descriptionSimilarity(descriptionText(a), descriptionText(b));
+  reasons.push(`descriptions ${Math.round(descScore * 100)}% similar`);
+
+  const refA = getRowReference(a);
+  const refB = getRowReference(b);
+  if (refA && refB && refA === refB && amountScore === 1 && days === 0) {
+    return { match: true, confidence: 1, reason: `Exact match: reference ${refA}, ${reasons.join(', ')}` };
+  }
+
+  const confidence =
+    RULE_WEIGHTS.amount * amountScore +
+    RULE_WEIGHTS.date * dateScore +
+    RULE_WEIGHTS.description * descScore;
+  return {
+    match: amountScore > 0 && confidence >= 0.5,
+    confidence,
+    reason: `Rule-based: ${reasons.join(', ')}`,
+  };
+}
+
+export const ruleBasedMatcher: Matcher = {
+  name: 'rules',
+  async matchRow(a, candidates) {
+    return candidates.map(({ b, idx }) => ({ ...scorePair(a, b), file_b_index: idx, provider: 'rules' }));
+  },
+};
+
+// LLM engines are created per run (see getMatcher); these need no per-run state
+const matchers: Record<string, Matcher> = {
+  [ruleBasedMatcher.name]: ruleBasedMatcher,
+};
+
+/**
+ * MATCH_ENGINE, else the first configured LLM provider (Gemini, then an
+ * OpenAI-compatible endpoint), else the rule-based engine
+ */
+export function defaultEngineName(): string {
+  return process.env.MATCH_ENGINE || Object.values(providers).find(p => p.configured)?.name || ruleBasedMatcher.name;
+}
+
+/**
+ * Resolve a matcher by name, falling back to the default engine
+ */
+export function getMatcher(name?: string, { cache = LLM_CACHE_ENABLED }: MatcherOptions = {}): Matcher {
+  const key = name || defaultEngineName();
+  const provider = providers[key];
+  if (provider) {
+    if (!provider.configured) throw new ValidationError(`Match engine ${key} is not configured on this server.`);
+    const matcher = createLlmMatcher(provider);
+    return cache
+      ? withCache(matcher, `${provider.name}/${provider.model}/prompt-v${PROMPT_VERSION}/${redactionVersion()}`)
+      : matcher;
+  }
+  const matcher = matchers[key];
+  if (!matcher) {
+    throw new ValidationError(`Unknown match engine: ${key}. Available: ${engineNames().join(', ')}`);
+  }
+  return matcher;
+}
+
+function engineNames(): string[] {
+  return [...Object.keys(providers), ...Object.keys(matchers)];
+}
+
+/**
+ * Match engines and, for LLM engines, their model and whether the server has them configured
+ */
+export function listMatchEngines(): { name: string; model: string | null; configured: boolean }[] {
+  return engineNames().map(name => ({
+    name,
+    model: providers[name]?.model ?? null,
+    configured: providers[name]?.configured ?? true,
+  }));
+}
+
+/**
+ * Read the per-request cache switch from a form or JSON body ("bypassCache")
+ */
+export function parseMatcherOptions(body: any): MatcherOptions {
+  const bypass = body?.bypassCache;
+  return bypass === true || bypass === 'true' ? { cache: false } : {};
+}
@@ -0,0 +1,353 @@
+export const AMOUNT_TOLERANCE = 0.01; // Allow small rounding differences
+
+/**
+ * Order of day and month in numeric dates such as 03/05/2025
+ */
+export type DateOrder = 'MDY' | 'DMY';
+
+/**
+ * Columns holding dates once rows are in canonical form: the posting date,
+ * the bank's value date and the card/transaction date
+ */
+export const DATE_COLUMNS = ['Date', 'Value Date', 'Transaction Date'];
+
+// Month names and abbreviations (English, German, French, Spanish, Italian, Dutch), accents removed
+const MONTHS: Record<string, number> = {};
+[
+  ['jan', 'january', 'januar', 'janv', 'janvier', 'ene', 'enero', 'gen', 'gennaio', 'januari', 'jaen', 'janner'],
+  ['feb', 'february', 'februar', 'fev', 'fevr', 'fevrier', 'febrero', 'febbraio', 'februari'],
+  ['mar', 'march', 'marz', 'mrz', 'mars', 'marzo', 'mrt', 'maart'],
+  ['apr', 'april', 'avr', 'avril', 'abr', 'abril', 'aprile'],
+  ['may', 'mai', 'mayo', 'mag', 'maggio', 'mei'],
+  ['jun', 'june', 'juni', 'juin', 'junio', 'giu', 'giugno'],
+  ['jul', 'july', 'juli', 'juil', 'juillet', 'julio', 'lug', 'luglio'],
+  ['aug', 'august', 'aout', 'ago', 'agosto', 'augustus'],
+  ['sep', 'sept', 'september', 'septembre', 'septiembre', 'set', 'settembre'],
+  ['oct', 'october', 'okt', 'oktober', 'octobre', 'octubre', 'ott', 'ottobre'],
+  ['nov', 'november', 'novembre', 'noviembre'],
+  ['dec', 'december', 'dez', 'dezember', 'decembre', 'dic', 'diciembre', 'dicembre'],
+].forEach((names, k) => names.forEach(name => { MONTHS[name] = k + 1; }));
+
+const WEEKDAY = /^(mon|tue|wed|thu|fri|sat|sun)[a-z]*$/;
+// Time of day and zone after a date: "T14:22:01Z", " 14:22", " 2:05 PM +01:00"
+const TIME_SUFFIX = /(?:T|\s+)\d{1,2}:\d{2}(?::\d{2}(?:[.,]\d+)?)?\s*(?:[ap]\.?m\.?)?\s*(?:Z|UTC|GMT|[+-]\d{2}:?\d{2})?$/i;
+
+interface DateParts { y: number; m: number; d: number }
+
+function validDate({ y, m, d }: DateParts): DateParts | null {
+  if (!Number.isInteger(y) || m < 1 || m > 12 || d < 1) return null;
+  const daysInMonth = new Date(Date.UTC(y, m, 0)).getUTCDate();
+  return d <= daysInMonth ? { y, m, d } : null;
+}
+
+function fullYear(year: string): number {
+  const yy = parseInt(year, 10);
+  if (year.length > 2) return yy;
+  // 00-49 → 2000-2049, 50-99 → 1950-1999
+  return yy < 50 ? 2000 + yy : 1900 + yy;
+}
+
+function foldMonthName(text: string): string {
+  return text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f.]/g, '');
+}
+
+// Excel serials accepted from text cells: 09/03/1954 to 01/10/2119
+const SERIAL_TEXT_MIN = 20000;
+const SERIAL_TEXT_MAX = 80000;
+
+function fromSerial(serial: number, min: number, max: number): DateParts | null {
+  if (!(serial >= min && serial < max)) return null;
+  const date = new Date(Math.round((Math.floor(serial) - 25569) * 86400 * 1000));
+  return { y: date.getUTCFullYear(), m: date.getUTCMonth() + 1, d: date.getUTCDate() };
+}
+
+/**
+ * Read a date written any common way: ISO 8601 (with or without a time),
+ * YYYYMMDD, numeric day/month/year in the given order, textual months
+ * ("05 Mar 2025", "March 5, 2025", "5. März 2025"), Excel serial numbers
+ * and Date objects. Null if it is not a valid date.
+ */
+export function parseDateValue(val: any, order: DateOrder = 'MDY'): DateParts | null {
+  if (val == null) return null;
+  if (val instanceof Date) {
+    return isNaN(val.getTime()) ? null : { y: val.getFullYear(), m: val.getMonth() + 1, d: val.getDate() };
+  }
+  // Excel serial: days since 1899-12-30. Numeric cells may hold any date after
+  // 1900; as text only 1954-2119 is taken, so a bare year or count stays unreadable
+  if (typeof val === 'number') return fromSerial(val, 61, 2958466);
+  let text = String(val).trim();
+  if (/^\d{1,5}(\.\d+)?$/.test(text)) return fromSerial(Number(text), SERIAL_TEXT_MIN, SERIAL_TEXT_MAX);
+  text = text.replace(TIME_SUFFIX, '');
+  // YYYY-MM-DD, YYYY/MM/DD, YYYY.MM.DD, YYYYMMDD
+  let match = text.match(/^(\d{4})([-/.]?)(\d{1,2})\2(\d{1,2})$/);
+  if (match && (match[2] !== '' || text.length === 8)) return validDate({ y: +match[1], m: +match[3], d: +match[4] });
+  // Day, month and year as numbers
+  match = text.match(/^(\d{1,2})([-/.])(\d{1,2})\2(\d{4}|\d{2})$/);
+  if (match) {
+    const [first, second] = [+match[1], +match[3]];
+    const y = fullYear(match[4]);
+    return validDate(order === 'DMY' ? { y, m: second, d: first } : { y, m: first, d: second });
+  }
+  // Textual month, in any position, with an optional weekday
+  const tokens = text.split(/[\s,/-]+|(?<!\d)\.|\.(?!\d)/).filter(t => t !== '' && !WEEKDAY.test(t.toLowerCase()));
+  if (tokens.length === 3) {
+    const monthAt = tokens.findIndex(t => /^[^\d]+$/.test(t) && MONTHS[foldMonthName(t)] !== undefined);
+    const numbers = tokens.filter((_, k) => k !== monthAt).map(t => t.replace(/(st|nd|rd|th)$/i, ''));
+    if (monthAt >= 0 && numbers.every(t => /^\d+$/.test(t))) {
+      const m = MONTHS[foldMonthName(tokens[monthAt])];
+      // A 4-digit number is the year; otherwise the day comes first ("05 Mar 25", "Mar 05 25")
+      const [day, year] = numbers[0].length === 4 ? [numbers[1], numbers[0]] : [numbers[0], numbers[1]];
+      return validDate({ y: fullYear(year), m, d: +day });
+    }
+  }
+  return null;
+}
+
+export function formatDateParts({ y, m, d }: DateParts): string {
+  return `${String(m).padStart(2, '0')}/${String(d).padStart(2, '0')}/${y}`;
+}
+
+/**
+ * Normalize any date value to MM/DD/YYYY string; values that are not dates
+ * are returned trimmed and unchanged
+ */
+export function normalizeDateValue(val: any, order: DateOrder = 'MDY'): string {
+  if (val == null) return '';
+  const parts = parseDateValue(val, order);
+  return parts ? formatDateParts(parts) : String(val).trim();
+}
+
+/**
+ * Day/month order of a file's numeric dates, from values that can only be
+ * read one way (a first part over 12 is a day). Null if none are telling.
+ */
+export function inferDateOrder(values: any[]): DateOrder | null {
+  let dmy = 0;
+  let mdy = 0;
+  for (const value of values) {
+    const match = String(value ?? '').trim().replace(TIME_SUFFIX, '').match(/^(\d{1,2})[-/.](\d{1,2})[-/.](\d{4}|\d{2})$/);
+    if (!match) continue;
+    if (+match[1] > 12 && +match[2] <= 12) dmy++;
+    else if (+match[2] > 12 && +match[1] <= 12) mdy++;
+  }
+  if (dmy === mdy) return null;
+  return dmy > mdy ? 'DMY' : 'MDY';
+}
+
+/**
+ * A date cell that could not be read; the row stays in the file but cannot
+ * be matched on that date
+ */
+export interface DateWarning {
+  row: number;
+  column: string;
+  value: string;
+}
+
+/**
+ * How a file's dates were read
+ */
+export interface DateReport {
+  date_order: DateOrder;
+  date_order_source: 'declared' | 'inferred' | 'default';
+  date_warnings: DateWarning[];
+}
+
+/**
+ * Normalize the date columns of a file's canonical rows to MM/DD/YYYY. The
+ * day/month order is the one given, else inferred from the values, else MDY.
+ */
+export function normalizeRowDates(rows: Record<string, any>[], order?: DateOrder): DateReport & { rows: Record<string, any>[] } {
+  const values = rows.flatMap(row => DATE_COLUMNS.map(column => row[column]));
+  const inferred = order ? null : inferDateOrder(values);
+  const used: DateOrder = order ?? inferred ?? 'MDY';
+  const warnings: DateWarning[] = [];
+  const normalized = rows.map((row, index) => {
+    const out = { ...row };
+    for (const column of DATE_COLUMNS) {
+      const value = row[column];
+      if (value == null || String(value).trim() === '') continue;
+      const parts = parseDateValue(value, used);
+      if (parts) {
+        out[column] = formatDateParts(parts);
+      } else {
+        warnings.push({ row: index, column, value: String(value) });
+      }
+    }
+    return out;
+  });
+  return {
+    rows: normalized,
+    date_order: used,
+    date_order_source: order ? 'declared' : inferred ? 'inferred' : 'default',
+    date_warnings: warnings,
+  };
+}
+
+/**
+ * Recursively normalize all date-like fields in an object
+ */
+export function normalizeDatesInObject(obj: Record<string, any>): Record<string, any> {
+  const out: Record<string, any> = {};
+  for (const [key, value] of Object.entries(obj)) {
+    if (value && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Date)) {
+      out[key] = normalizeDatesInObject(value);
+    } else if (DATE_COLUMNS.some(column => column.toLowerCase() === key.trim().toLowerCase())) {
+      out[key] = normalizeDateValue(value);
+    } else {
+      out[key] = value;
+    }
+  }
+  return out;
+}
+
+/**
+ * Absolute number of days between two MM/DD/YYYY strings (NaN if unparseable)
+ */
+export function daysBetween(dateA: string, dateB: string): number {
+  return Math.round(Math.abs(dateToTime(dateA) - dateToTime(dateB)) / (86400 * 1000));
+}
+
+/**
+ * Timestamp of a MM/DD/YYYY string (NaN if unparseable)
+ */
+export function dateToTime(date: string): number {
+  const [m, d, y] = String(date).split('/').map(Number);
+  return new Date(y, m - 1, d).getTime();
+}
+
+export function datesAreClose(dateA: string, dateB: string, days = 0): boolean {
+  // Compare MM/DD/YYYY strings, allow ±days
+  return daysBetween(dateA, dateB) <= days;
+}
+
+/**
+ * Days between two rows' closest dates: posting dates, or a value date where
+ * either side has one (a bank may book on the value date). NaN if no dates.
+ */
+export function daysApart(a: Record<string, any>, b: Record<string, any>): number {
+  const datesOf = (row: Record<string, any>) => ['Date', 'Value Date'].map(c => row[c]).filter(v => v != null && v !== '');
+  const gaps = datesOf(a).flatMap(da => datesOf(b).map(db => daysBetween(da, db))).filter(n => !isNaN(n));
+  return gaps.length > 0 ? Math.min(...gaps) : NaN;
+}
+
+/**
+ * Parse a formatted amount into a signed number (NaN if unreadable).
+ * Handles "(1,250.00)" accounting negatives, trailing minus ("1250.00-"),
+ * DR/CR markers (DR is negative), currency symbols/codes, and both
+ * "1,250.00" and "1.250,00" / "1 250,00" / "1'250.00" digit grouping.
+ * The decimal separator is inferred unless given explicitly.
+ */
+export function parseAmount(val: any, decimal?: '.' | ','): number {
+  if (typeof val === 'number') return val;
+  if (val == null) return NaN;
+  let s = String(val).trim();
+  if (s === '') return NaN;
+  let negative = false;
+
+  const marker = s.match(/(?:^|[\s\d.)])(CR|DR)\.?$/i) || s.match(/^(CR|DR)\b/i);
+  if (marker) {
+    negative = marker[1].toUpperCase() === 'DR';
+    s = s.replace(/^(CR|DR)\b\.?|(CR|DR)\.?$/i, '').trim();
+  }
+  if (/^\(.*\)$/.test(s)) {
+    negative = !negative;
+    s = s.slice(1, -1).trim();
+  }
+  // Drop currency symbols/codes and whitespace, keeping signs and separators
+  s = s.replace(/[^\d.,'+-]/g, '');
+  if (s.endsWith('-')) {
+    negative = !negative;
+    s = s.slice(0, -1);
+  }
+  if (s.startsWith('-')) {
+    negative = !negative;
+    s = s.slice(1);
+  } else if (s.startsWith('+')) {
+    s = s.slice(1);
+  }
+  s = s.replace(/'/g, '');
+  if (!/^[\d.,]+$/.test(s)) return NaN;
+
+  if (!decimal) {
+    const lastDot = s.lastIndexOf('.');
+    const lastComma = s.lastIndexOf(',');
+    if (lastDot !== -1 && lastComma !== -1) {
+      decimal = lastDot > lastComma ? '.' : ',';
+    } else if (lastComma !== -1) {
+      // "1,250" / "1,250,000" are thousands; "1250,5" / "12,50" are decimals
+      decimal = /^\d{1,3}(,\d{3})+$/.test(s) ? '.' : ',';
+    } else {
+      // "1.250.000" can only be thousands; a single dot is a decimal point
+      decimal = /^\d{1,3}(\.\d{3}){2,}$/.test(s) ? ',' : '.';
+    }
+  }
+  const thousands = decimal === '.' ? ',' : '.';
+  s = s.split(thousands).join('').replace(decimal, '.');
+  const num = parseFloat(s);
+  if (isNaN(num)) return NaN;
+  return negative ? -num : num;
+}
+
+export function amountsAreClose(a: any, b: any, tol = AMOUNT_TOLERANCE): boolean {
+  return Math.abs(parseAmount(a) - parseAmount(b)) <= tol;
+}
+
+/**
+ * Signed canonical amount of a row: credits (money in) are positive and
+ * debits (money out) negative. NaN if the row has no readable amount.
+ */
+export function getRowAmount(row: Record<string, any>): number {
+  if (row['Amount'] != null && String(row['Amount']).trim() !== '') return parseAmount(row['Amount']);
+  if (row['Credit Amount'] != null && String(row['Credit Amount']).trim() !== '') return Math.abs(parseAmount(row['Credit Amount']));
+  if (row['Debit Amount'] != null && String(row['Debit Amount']).trim() !== '') return -Math.abs(parseAmount(row['Debit Amount']));
+  return NaN;
+}
+
+export type SignMode = 'same' | 'opposite';
+
+/**
+ * Copy of a row with its amount sign-flipped into a single Amount column, for
+ * comparing a bank statement (debit = money out) against a ledger that books
+ * the same movement as a credit
+ */
+export function withOppositeSign(row: Record<string, any>): Record<string, any> {
+  const { ['Debit Amount']: _debit, ['Credit Amount']: _credit, ...rest } = row;
+  const amount = getRowAmount(row);
+  return { ...rest, Amount: isNaN(amount) ? '' : -amount };
+}
+
+/**
+ * Stable match id from the row indices it pairs, e.g. "A3-B7" or "A3-B7+B9"
+ */
+export function matchId(aIdx: number[], bIdx: number[]): string {
+  return `${aIdx.map(i => `A${i}`).join('+')}-${bIdx.map(j => `B${j}`).join('+')}`;
+}
+
+const REFERENCE_FIELD = /ref|check|cheque|invoice|doc/i;
+// Labels banks put in front of a number: "CHK 00123" and "123" are the same check
+const REFERENCE_LABEL = /^(CHK|CHQ|CHECK|CHEQUE|REF|NO|NR|INV|DOC)+(?=\d+$)/;
+
+/**
+ * Reference or check number of a row, normalized for comparison: upper case,
+ * punctuation, spaces and labels removed, leading zeros dropped from numbers
+ */
+export function getRowReference(row: Record<string, any>): string | null {
+  for (const [k, v] of Object.entries(row)) {
+    if (!REFERENCE_FIELD.test(k) || v == null) continue;
+    const ref = String(v).toUpperCase().replace(/[^A-Z0-9]/g, '').replace(REFERENCE_LABEL, '');
+    if (ref !== '') return /^\d+$/.test(ref) ? ref.replace(/^0+(?=\d)/, '') : ref;
+  }
+  return null;
+}
+
+// Utility: extract and normalize currency from a row
+export function getRowCurrency(row: Record<string, any>): string | null {
+  const currencyFields = ['Currency', 'currency', 'Curr', 'curr', 'Account Currency'];
+  for (const field of currencyFields) {
+    if (row[field] && typeof row[field] === 'string') {
+      return row[field].trim().toUpperCase();
+    }
+  }
+  return null;
+}
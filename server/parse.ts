@@ -0,0 +1,325 @@
+import { CsvError, parse as csvParseSync } from 'csv-parse/sync';
+import xlsx from 'xlsx';
+import { StatementFormat, detectStatementFormat, parseStatement } from './statements';
+import { DateOrder } from './normalize';
+
+export type FileFormat = 'csv' | 'excel' | StatementFormat;
+
+/**
+ * Where the data sits in a workbook. Row numbers are 1-based, as Excel shows them.
+ */
+export interface ImportOptions {
+  sheet?: string;
+  headerRow?: number;
+  // A1-style range, e.g. "A5:F200"
+  range?: string;
+  // Day/month order of numeric dates; inferred from the values when left out
+  dateOrder?: DateOrder;
+}
+
+/**
+ * A CSV line that was skipped, or kept with blanks filled in
+ */
+export interface RowIssue {
+  line: number;
+  error: string;
+  skipped: boolean;
+}
+
+/**
+ * An upload that cannot be read at all (as opposed to single bad rows)
+ */
+export class ParseError extends Error {
+  constructor(message: string, public line?: number) {
+    super(message);
+    this.name = 'ParseError';
+  }
+}
+
+export interface ParsedFile {
+  rows: Record<string, any>[];
+  format: FileFormat;
+  // CSV only: detected character encoding and delimiter
+  encoding?: string;
+  delimiter?: string;
+  row_issues: RowIssue[];
+  // Workbook details, for choosing another sheet, header row or range
+  sheets?: string[];
+  sheet?: string;
+  header_row?: number;
+  range?: string;
+  // Sheet row numbers left out as totals or subtotals
+  skipped_rows: number[];
+}
+
+// Excel files are zip (xlsx) or OLE compound (xls) containers
+const ZIP_MAGIC = Buffer.from([0x50, 0x4b, 0x03, 0x04]);
+const OLE_MAGIC = Buffer.from([0xd0, 0xcf, 0x11, 0xe0]);
+
+// "Total", "Subtotal", "Grand total", "Closing balance", ...
+const TOTAL_LABEL = /^\s*(grand\s+|sub-?\s?)?totals?\b|^\s*(closing|ending)\s+balance\b/i;
+// Rows searched for the header when none is given
+const HEADER_SEARCH_ROWS = 20;
+
+const CSV_DELIMITERS = [',', ';', '\t', '|'];
+// Lines sampled to pick the delimiter
+const DELIMITER_SAMPLE_LINES = 20;
+// More bad lines than this and the file is probably not CSV at all
+const MAX_ROW_ISSUES = 1000;
+// Windows-1252 characters for bytes 0x80-0x9F, where it differs from Latin-1
+const CP1252_HIGH = '€\u0081‚ƒ„…†‡ˆ‰Š‹Œ\u008dŽ\u008f\u0090‘’“”•–—˜™š›œ\u009džŸ';
+
+/**
+ * Decode text by its byte order mark; otherwise UTF-8 if it is valid, else
+ * Windows-1252 (what Excel writes for "CSV" on Western-language Windows)
+ */
+export function decodeText(buffer: Buffer): { text: string; encoding: string } {
+  if (buffer[0] === 0xef && buffer[1] === 0xbb && buffer[2] === 0xbf) {
+    return { text: buffer.subarray(3).toString('utf-8'), encoding: 'utf-8' };
+  }
+  const utf16 = (bytes: Buffer, bigEndian: boolean) =>
+    (bigEndian ? Buffer.from(bytes.subarray(0, bytes.length & ~1)).swap16() : bytes).toString('utf16le');
+  if (buffer[0] === 0xff && buffer[1] === 0xfe) return { text: utf16(buffer.subarray(2), false), encoding: 'utf-16le' };
+  if (buffer[0] === 0xfe && buffer[1] === 0xff) return { text: utf16(buffer.subarray(2), true), encoding: 'utf-16be' };
+  // UTF-16 without a BOM: ASCII text leaves every other byte zero
+  const head = buffer.subarray(0, 200);
+  const zeroAt = (parity: number) => head.length >= 4 && head.every((b, k) => (k % 2 === parity) === (b === 0));
+  if (zeroAt(1)) return { text: utf16(buffer, false), encoding: 'utf-16le' };
+  if (zeroAt(0)) return { text: utf16(buffer, true), encoding: 'utf-16be' };
+  try {
+    return { text: new TextDecoder('utf-8', { fatal: true }).decode(buffer), encoding: 'utf-8' };
+  } catch {
+    const text = buffer.toString('latin1').replace(/[\x80-\x9f]/g, c => CP1252_HIGH[c.charCodeAt(0) - 0x80]);
+    return { text, encoding: 'windows-1252' };
+  }
+}
+
+/**
+ * The delimiter that splits the sampled lines into the same number of fields
+ * most often, preferring more fields. Quoted text is ignored.
+ */
+export function detectDelimiter(text: string): string {
+  const lines = text.split(/\r\n|\n|\r/).filter(l => l.trim() !== '').slice(0, DELIMITER_SAMPLE_LINES)
+    .map(l => l.replace(/"[^"]*"/g, '""'));
+  let best = { delimiter: ',', consistency: 0, fields: 0 };
+  for (const delimiter of CSV_DELIMITERS) {
+    const counts = lines.map(l => l.split(delimiter).length - 1);
+    if (counts.length === 0 || counts[0] === 0) continue;
+    const consistency = counts.filter(c => c === counts[0]).length / counts.length;
+    if (consistency > best.consistency || (consistency === best.consistency && counts[0] > best.fields)) {
+      best = { delimiter, consistency, fields: counts[0] };
+    }
+  }
+  return best.delimiter;
+}
+
+function csvErrorMessage(error: CsvError): string {
+  switch (error.code) {
+    case 'CSV_QUOTE_NOT_CLOSED': return 'Unclosed quote';
+    case 'CSV_INVALID_CLOSING_QUOTE': return 'Unexpected text after a closing quote';
+    default: return error.message;
+  }
+}
+
+/**
+ * Parse CSV text into rows keyed by the header line. A line the parser
+ * rejects is reported and skipped, and parsing resumes after it; rows with
+ * extra fields are skipped and short rows are padded, both reported.
+ */
+function readCsv(buffer: Buffer): ParsedFile {
+  const { text, encoding } = decodeText(buffer);
+  const lines = text.split(/\r\n|\n|\r/);
+  // Excel's "sep=;" hint line
+  const hint = /^sep=(.)$/i.exec(lines[0] ?? '');
+  const delimiter = hint ? hint[1] : detectDelimiter(text);
+
+  // Start offset of every line, so parsing can resume after a bad one
+  const lineStarts = [0];
+  for (const m of text.matchAll(/\r\n|\n|\r/g)) lineStarts.push(m.index! + m[0].length);
+
+  const records: { fields: string[]; line: number }[] = [];
+  const issues: RowIssue[] = [];
+  const addIssue = (issue: RowIssue) => {
+    issues.push(issue);
+    if (issues.length > MAX_ROW_ISSUES) throw new ParseError(`More than ${MAX_ROW_ISSUES} malformed lines; is this a ${delimiter === '\t' ? 'tab' : `"${delimiter}"`}-delimited CSV file?`);
+  };
+  // A record starts on the first non-blank line after the one before it ends
+  const nextContentLine = (after: number) => {
+    let line = after + 1;
+    while (line < lines.length && lines[line - 1].trim() === '') line++;
+    return line;
+  };
+  let from = hint ? 2 : 1;
+  while (from <= lines.length) {
+    const offset = from - 1;
+    let last = offset;
+    try {
+      csvParseSync(text.slice(lineStarts[offset]), {
+        delimiter,
+        relax_column_count: true,
+        skip_empty_lines: true,
+        on_record: (fields: string[], context) => {
+          records.push({ fields, line: nextContentLine(last) });
+          last = offset + context.lines;
+          return null;
+        },
+      });
+      break;
+    } catch (error) {
+      if (!(error instanceof CsvError)) throw error;
+      // The bad record starts after the last good one
+      const start = nextContentLine(last);
+      if (records.length === 0) throw new ParseError(`Could not read the header line: ${csvErrorMessage(error)}`, start);
+      addIssue({ line: start, error: csvErrorMessage(error), skipped: true });
+      from = start + 1;
+    }
+  }
+
+  const [header, ...body] = records;
+  if (!header) throw new ParseError('The file is empty.');
+  const headers = headerNames(header.fields, 0);
+  const rows: Record<string, any>[] = [];
+  for (const { fields, line } of body) {
+    if (fields.length > headers.length && fields.slice(headers.length).some(v => v.trim() !== '')) {
+      addIssue({ line, error: `Expected ${headers.length} fields, found ${fields.length}`, skipped: true });
+      continue;
+    }
+    if (fields.length < headers.length) {
+      addIssue({ line, error: `Expected ${headers.length} fields, found ${fields.length}; the rest were left blank`, skipped: false });
+    }
+    rows.push(Object.fromEntries(headers.map((h, c) => [h, fields[c] ?? ''])));
+  }
+  return { rows, format: 'csv', encoding, delimiter, row_issues: issues.sort((x, y) => x.line - y.line), skipped_rows: [] };
+}
+
+/**
+ * Format of an upload from its content; the file name is not consulted
+ */
+export function detectFormat(buffer: Buffer): FileFormat {
+  const magic = buffer.subarray(0, 4);
+  if (magic.equals(ZIP_MAGIC) || magic.equals(OLE_MAGIC)) return 'excel';
+  const head = decodeText(buffer.subarray(0, 4096)).text;
+  const statement = detectStatementFormat(head);
+  if (statement) return statement;
+  if (head.startsWith('%PDF-') || head.includes('\0')) throw new ParseError('Unsupported file: binary content is not CSV, Excel or a bank statement.');
+  return 'csv';
+}
+
+const filled = (row: any[]) => row.filter(v => String(v ?? '').trim() !== '').length;
+
+/**
+ * First row that is filled like a header: at least two cells and most of the
+ * widest row's columns, all of them text. Title rows above it have one cell.
+ */
+function detectHeaderRow(aoa: any[][]): number {
+  const rows = aoa.slice(0, HEADER_SEARCH_ROWS);
+  const widest = Math.max(0, ...rows.map(filled));
+  const k = rows.findIndex(row => {
+    const count = filled(row);
+    return count >= Math.max(2, Math.ceil(widest * 0.6))
+      && row.every(v => String(v ?? '').trim() === '' || isNaN(Number(String(v).replace(/,/g, ''))));
+  });
+  return k >= 0 ? k : 0;
+}
+
+/**
+ * Header names for a header row: blanks get their column letter, repeats a suffix
+ */
+function headerNames(row: any[], firstColumn: number): string[] {
+  const seen = new Map<string, number>();
+  return row.map((v, c) => {
+    let name = String(v ?? '').trim() || `Column ${xlsx.utils.encode_col(firstColumn + c)}`;
+    const n = (seen.get(name) || 0) + 1;
+    seen.set(name, n);
+    if (n > 1) name = `${name} (${n})`;
+    return name;
+  });
+}
+
+function isTotalRow(row: any[]): boolean {
+  return row.some(v => TOTAL_LABEL.test(String(v ?? '')));
+}
+
+/**
+ * Show date cells as ISO text instead of their display format ("3/5/25"), so
+ * they read the same whatever date order the file's text dates use
+ */
+function isoDateCells(sheet: xlsx.WorkSheet): void {
+  for (const [address, cell] of Object.entries(sheet)) {
+    if (address.startsWith('!') || cell.t !== 'd' || !(cell.v instanceof Date)) continue;
+    const date = cell.v as Date;
+    cell.w = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+  }
+}
+
+function readWorkbook(buffer: Buffer, options: ImportOptions): ParsedFile {
+  const workbook = xlsx.read(buffer, { type: 'buffer', cellDates: true });
+  const sheets = workbook.SheetNames;
+  sheets.forEach(name => isoDateCells(workbook.Sheets[name]));
+  let sheetName = options.sheet;
+  if (sheetName && !sheets.includes(sheetName)) {
+    throw new Error(`Unknown sheet: ${sheetName}. Available: ${sheets.join(', ')}`);
+  }
+  const toRows = (name: string) => xlsx.utils.sheet_to_json<any[]>(workbook.Sheets[name], {
+    header: 1,
+    defval: '',
+    raw: false,
+    dateNF: 'yyyy-mm-dd',
+    blankrows: true,
+    ...(name === sheetName && options.range ? { range: options.range } : {}),
+  });
+  // Skip cover sheets: take the first sheet with a table (two rows of two or more cells)
+  sheetName ??= sheets.find(name => toRows(name).filter(row => filled(row) >= 2).length >= 2) ?? sheets[0];
+
+  const sheet = workbook.Sheets[sheetName];
+  const bounds = xlsx.utils.decode_range(options.range || sheet['!ref'] || 'A1');
+  const aoa = toRows(sheetName);
+  const headerIndex = options.headerRow ? options.headerRow - 1 - bounds.s.r : detectHeaderRow(aoa);
+  if (headerIndex < 0 || headerIndex >= aoa.length) {
+    throw new Error(`Header row ${options.headerRow} is outside the data on sheet ${sheetName}.`);
+  }
+  const headers = headerNames(aoa[headerIndex], bounds.s.c);
+  const sheetRow = (k: number) => bounds.s.r + k + 1;
+
+  const skipped: number[] = [];
+  const body = aoa.map((row, k) => ({ row, k })).slice(headerIndex + 1).filter(({ row }) => filled(row) > 0);
+  // Totals at the bottom, then subtotal lines between groups (a label and a few figures)
+  while (body.length > 0 && isTotalRow(body[body.length - 1].row)) skipped.push(sheetRow(body.pop()!.k));
+  const data = body.filter(({ row, k }) => {
+    const firstText = row.find(v => String(v ?? '').trim() !== '');
+    if (TOTAL_LABEL.test(String(firstText)) && filled(row) <= Math.ceil(headers.length / 2)) {
+      skipped.push(sheetRow(k));
+      return false;
+    }
+    return true;
+  });
+
+  return {
+    rows: data.map(({ row }) => Object.fromEntries(headers.map((h, c) => [h, row[c] ?? '']))),
+    format: 'excel',
+    sheets,
+    sheet: sheetName,
+    header_row: sheetRow(headerIndex),
+    range: options.range || sheet['!ref'],
+    row_issues: [],
+    skipped_rows: skipped.sort((x, y) => x - y),
+  };
+}
+
+/**
+ * Parse a CSV, Excel or bank statement (OFX/QFX, MT940, camt.053, BAI2) buffer,
+ * with details of what was read. Statements come out with canonical column names.
+ */
+export function readFile(buffer: Buffer, options: ImportOptions = {}): ParsedFile {
+  const format = detectFormat(buffer);
+  if (format === 'csv') return readCsv(buffer);
+  if (format === 'excel') return readWorkbook(buffer, options);
+  return { rows: parseStatement(decodeText(buffer).text, format), format, row_issues: [], skipped_rows: [] };
+}
+
+/**
+ * Parse an upload into row objects (see readFile)
+ */
+export function parseFile(buffer: Buffer, _filename?: string, options: ImportOptions = {}): Record<string, any>[] {
+  return readFile(buffer, options).rows;
+}
@@ -0,0 +1,84 @@
+// Minimal text-only PDF writer: US Letter pages, Helvetica, one string per line
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 50;
+const FONT_SIZE = 10;
+const LEADING = 13;
+const LINES_PER_PAGE = Math.floor((PAGE_HEIGHT - 2 * MARGIN) / LEADING);
+// Helvetica at 10pt fits roughly this many average characters across the page
+const MAX_CHARS = 95;
+
+export interface PdfLine {
+  text: string;
+  bold?: boolean;
+}
+
+function escapePdfText(text: string): string {
+  return text
+    // Standard fonts only cover Latin-1 here
+    .replace(/[^\x20-\xff]/g, '?')
+    .replace(/\\/g, '\\\\')
+    .replace(/\(/g, '\\(')
+    .replace(/\)/g, '\\)');
+}
+
+function wrap(line: PdfLine): PdfLine[] {
+  if (line.text.length <= MAX_CHARS) return [line];
+  const out: PdfLine[] = [];
+  let rest = line.text;
+  while (rest.length > MAX_CHARS) {
+    const cut = rest.lastIndexOf(' ', MAX_CHARS);
+    const at = cut > MAX_CHARS / 2 ? cut : MAX_CHARS;
+    out.push({ ...line, text: rest.slice(0, at) });
+    rest = '    ' + rest.slice(at).trimStart();
+  }
+  out.push({ ...line, text: rest });
+  return out;
+}
+
+/**
+ * Render lines of text into a paginated PDF document
+ */
+export function renderTextPdf(lines: (PdfLine | string)[]): Buffer {
+  const wrapped = lines
+    .map(l => (typeof l === 'string' ? { text: l } : l))
+    .flatMap(wrap);
+  const pages: PdfLine[][] = [];
+  for (let k = 0; k < wrapped.length; k += LINES_PER_PAGE) pages.push(wrapped.slice(k, k + LINES_PER_PAGE));
+  if (pages.length === 0) pages.push([]);
+
+  // Objects 1-4 are fixed; each page then takes a page object and a content stream
+  const objects: string[] = [];
+  const pageIds = pages.map((_, p) => 5 + p * 2);
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+  objects[4] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>';
+  pages.forEach((pageLines, p) => {
+    const footer = `Page ${p + 1} of ${pages.length}`;
+    const ops = [
+      'BT',
+      `${LEADING} TL`,
+      `${MARGIN} ${PAGE_HEIGHT - MARGIN} Td`,
+      ...pageLines.map(l => `/${l.bold ? 'F2' : 'F1'} ${FONT_SIZE} Tf (${escapePdfText(l.text)}) Tj T*`),
+      'ET',
+      `BT /F1 8 Tf ${MARGIN} ${MARGIN / 2} Td (${footer}) Tj ET`,
+    ].join('\n');
+    objects[pageIds[p]] =
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[p] + 1} 0 R >>`;
+    objects[pageIds[p] + 1] = `<< /Length ${Buffer.byteLength(ops, 'latin1')} >>\nstream\n${ops}\nendstream`;
+  });
+
+  let body = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = Buffer.byteLength(body, 'latin1');
+    body += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+  const xrefAt = Buffer.byteLength(body, 'latin1');
+  body += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) body += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  body += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefAt}\n%%EOF\n`;
+  return Buffer.from(body, 'latin1');
+}
@@ -0,0 +1,93 @@
+import dotenv from 'dotenv';
+import { GoogleGenerativeAI, ResponseSchema } from '@google/generative-ai';
+import OpenAI from 'openai';
+import { MATCH_RESULTS_SCHEMA } from './llmOutput';
+
+// Load environment variables
+dotenv.config();
+
+const GEMINI_API_KEY = process.env.GEMINI_API_KEY!;
+const GEMINI_MODEL = process.env.GEMINI_MODEL || 'gemini-1.5-flash';
+
+// Any OpenAI-compatible chat completions endpoint: OpenAI itself, or a local
+// llama.cpp / Ollama / vLLM server so ledger data never leaves the network
+const OPENAI_BASE_URL = process.env.OPENAI_BASE_URL;
+const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
+const OPENAI_MODEL = process.env.OPENAI_MODEL || 'gpt-4o-mini';
+// json_schema, json_object or none, for servers without structured output
+const OPENAI_RESPONSE_FORMAT = process.env.OPENAI_RESPONSE_FORMAT || 'json_schema';
+
+/**
+ * An LLM backend that turns a prompt into text. Matching, queueing and
+ * validation are shared and live in matchers.ts.
+ */
+export interface LlmProvider {
+  name: string;
+  model: string;
+  // Whether the provider has the settings it needs
+  configured: boolean;
+  // Requests per minute for this provider (undefined = LLM_REQUESTS_PER_MINUTE)
+  ratePerMinute?: number;
+  generate(prompt: string, signal?: AbortSignal): Promise<string>;
+}
+
+const genAI = new GoogleGenerativeAI(GEMINI_API_KEY);
+
+export const geminiProvider: LlmProvider = {
+  name: 'gemini',
+  model: GEMINI_MODEL,
+  configured: !!GEMINI_API_KEY,
+  async generate(prompt, signal) {
+    const model = genAI.getGenerativeModel({
+      model: GEMINI_MODEL,
+      generationConfig: {
+        responseMimeType: 'application/json',
+        responseSchema: MATCH_RESULTS_SCHEMA as unknown as ResponseSchema,
+      },
+    });
+    const result = await model.generateContent([prompt], { signal });
+    return result.response.text();
+  },
+};
+
+let openaiClient: OpenAI | null = null;
+
+export const openaiProvider: LlmProvider = {
+  name: 'openai',
+  model: OPENAI_MODEL,
+  configured: !!(OPENAI_BASE_URL || OPENAI_API_KEY),
+  // Local servers have no quota; a hosted endpoint can be limited with OPENAI_REQUESTS_PER_MINUTE
+  ratePerMinute: process.env.OPENAI_REQUESTS_PER_MINUTE ? parseInt(process.env.OPENAI_REQUESTS_PER_MINUTE, 10) : undefined,
+  async generate(prompt, signal) {
+    // Local servers usually accept any key
+    openaiClient ??= new OpenAI({ baseURL: OPENAI_BASE_URL, apiKey: OPENAI_API_KEY || 'not-needed' });
+    // Structured output needs an object at the top level; the array is unwrapped when parsed
+    const responseFormat: OpenAI.ChatCompletionCreateParams['response_format'] =
+      OPENAI_RESPONSE_FORMAT === 'json_schema'
+        ? {
+            type: 'json_schema',
+            json_schema: {
+              name: 'match_results',
+              schema: { type: 'object', properties: { results: MATCH_RESULTS_SCHEMA }, required: ['results'] },
+            },
+          }
+        : OPENAI_RESPONSE_FORMAT === 'json_object'
+          ? { type: 'json_object' }
+          : undefined;
+    const completion = await openaiClient.chat.completions.create(
+      {
+        model: OPENAI_MODEL,
+        messages: [{ role: 'user', content: prompt }],
+        temperature: 0,
+        ...(responseFormat ? { response_format: responseFormat } : {}),
+      },
+      { signal }
+    );
+    return completion.choices[0]?.message?.content ?? '';
+  },
+};
+
+export const providers: Record<string, LlmProvider> = {
+  [geminiProvider.name]: geminiProvider,
+  [openaiProvider.name]: openaiProvider,
+};
@@ -0,0 +1,121 @@
+export interface TaskQueueOptions {
+  // Tasks running at once
+  concurrency: number;
+  // Task starts per rolling minute (0 = unlimited)
+  ratePerMinute: number;
+}
+
+export interface TaskQueue {
+  run<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T>;
+}
+
+export interface RetryOptions {
+  retries: number;
+  // First backoff delay; doubles on each attempt, with jitter
+  baseDelayMs: number;
+  signal?: AbortSignal;
+}
+
+function abortError(signal: AbortSignal): Error {
+  return signal.reason instanceof Error ? signal.reason : new Error('Aborted');
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError(signal));
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError(signal!));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * FIFO queue that limits how many tasks run at once and how often they start.
+ * Waiting tasks whose signal aborts are dropped without running.
+ */
+export function createTaskQueue({ concurrency, ratePerMinute }: TaskQueueOptions): TaskQueue {
+  const waiting: { start: () => void; signal?: AbortSignal; reject: (err: Error) => void }[] = [];
+  const startTimes: number[] = [];
+  let running = 0;
+  let timer: NodeJS.Timeout | null = null;
+
+  const pump = () => {
+    timer = null;
+    while (waiting.length > 0 && running < concurrency) {
+      const now = Date.now();
+      while (startTimes.length > 0 && now - startTimes[0] >= 60_000) startTimes.shift();
+      if (ratePerMinute > 0 && startTimes.length >= ratePerMinute) {
+        // Wake up when the oldest start leaves the window
+        timer = setTimeout(pump, 60_000 - (now - startTimes[0]));
+        return;
+      }
+      const next = waiting.shift()!;
+      if (next.signal?.aborted) {
+        next.reject(abortError(next.signal));
+        continue;
+      }
+      startTimes.push(now);
+      running++;
+      next.start();
+    }
+  };
+
+  return {
+    run<T>(task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+      return new Promise<T>((resolve, reject) => {
+        const start = () => {
+          // Once running, the task watches the signal itself
+          signal?.removeEventListener('abort', onAbort);
+          task()
+            .then(resolve, reject)
+            .finally(() => {
+              running--;
+              if (!timer) pump();
+            });
+        };
+        const onAbort = () => {
+          const k = waiting.indexOf(entry);
+          if (k >= 0) {
+            waiting.splice(k, 1);
+            reject(abortError(signal!));
+          }
+        };
+        const entry = { start, signal, reject };
+        waiting.push(entry);
+        signal?.addEventListener('abort', onAbort, { once: true });
+        if (!timer) pump();
+      });
+    },
+  };
+}
+
+/**
+ * Rate limits (429) and server errors (5xx) are worth retrying; anything else is not
+ */
+export function isRetryableError(err: any): boolean {
+  const status = err?.status ?? err?.response?.status;
+  if (typeof status === 'number') return status === 429 || status >= 500;
+  return /\b(429|5\d\d)\b|rate limit|overloaded|unavailable|ECONNRESET|ETIMEDOUT/i.test(String(err?.message ?? ''));
+}
+
+/**
+ * Retry a task with exponential backoff while it fails with a retryable error
+ */
+export async function withRetry<T>(task: () => Promise<T>, { retries, baseDelayMs, signal }: RetryOptions): Promise<T> {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task();
+    } catch (err) {
+      if (attempt >= retries || !isRetryableError(err) || signal?.aborted) throw err;
+      const delay = baseDelayMs * 2 ** attempt * (0.75 + Math.random() * 0.5);
+      console.warn(`Retrying after error (attempt ${attempt + 1}/${retries}, ${Math.round(delay)}ms):`, (err as Error)?.message);
+      await sleep(delay, signal);
+    }
+  }
+}
@@ -1,9 +1,28 @@
 import express, { Request, Response, Router } from 'express';
 import multer from 'multer';
-import { parse as csvParseSync } from 'csv-parse/sync';
-import xlsx from 'xlsx';
 import dotenv from 'dotenv';
-import { GoogleGenerativeAI } from '@google/generative-ai';
+import {
+  daysApart,
+  getRowAmount,
+  getRowCurrency,
+  matchId,
+  normalizeDatesInObject,
+  withOppositeSign,
+} from './normalize';
+import { MatchCandidate, MatchResult, Matcher, geminiBatchMatchRow, getMatcher, parseMatcherOptions } from './matchers';
+import { findSplitGroup } from './splits';
+import { findExactMatches } from './exact';
+import { duplicateExtras, findDuplicates } from './duplicates';
+import { classifyUnmatched, statementEndDate } from './exceptions';
+import { LlmOutputError, LlmRowError, rawExcerpt } from './llmOutput';
+import { CandidateEdge, assignOptimal } from './assignment';
+import { ParseError, parseFile } from './parse';
+import { loadUpload } from './mappings';
+import { describeFx, withReportingCurrency } from './fx';
+import { createSession } from './sessions';
+import { CarryForward, markCleared, parsePeriodSpec, withCarryForward } from './accounts';
+import { LEARNED_CONFIDENCE, findLearnedMatches, hintsFor, isActive, learnedRulesFor } from './learnedRules';
+import { ReconcileConfig, ReconcileOptions, ValidationError, parseReconcileOptions, resolveConfig } from './config';
 
 // Load environment variables
 dotenv.config();
@@ -11,174 +30,69 @@ dotenv.config();
 const router: Router = express.Router();
 const upload = multer({ storage: multer.memoryStorage() });
 
-const GEMINI_API_KEY = process.env.GEMINI_API_KEY!;
-const GEMINI_MODEL = process.env.GEMINI_MODEL || 'gemini-1.5-flash';
-const LLM_MATCH_THRESHOLD = parseFloat(process.env.LLM_MATCH_THRESHOLD || '0.85');
-const AMOUNT_TOLERANCE = 0.01; // Allow small rounding differences
-
-const genAI = new GoogleGenerativeAI(GEMINI_API_KEY);
-
-/**
- * Normalize any date value to MM/DD/YYYY string
- */
-function normalizeDateValue(val: any): string {
-  if (val == null) return '';
-  // Excel serial
-  if (typeof val === 'number' && val > 40000 && val < 60000) {
-    const utc_days = Math.floor(val - 25569);
-    const utc_value = utc_days * 86400;
-    const date_info = new Date(utc_value * 1000);
-    const mm = String(date_info.getMonth() + 1).padStart(2, '0');
-    const dd = String(date_info.getDate()).padStart(2, '0');
-    const yyyy = date_info.getFullYear();
-    return `${mm}/${dd}/${yyyy}`;
-  }
-  const valStr = String(val).trim();
-  // MM/DD/YYYY or MM-DD-YYYY
-  let match = valStr.match(/^(\d{1,2})[\/-](\d{1,2})[\/-](\d{4})$/);
-  if (match) {
-    const mm = match[1].padStart(2, '0');
-    const dd = match[2].padStart(2, '0');
-    const yyyy = match[3];
-    return `${mm}/${dd}/${yyyy}`;
-  }
-  // MM/DD/YY or MM-DD-YY
-  match = valStr.match(/^(\d{1,2})[\/-](\d{1,2})[\/-](\d{2})$/);
-  if (match) {
-    const mm = match[1].padStart(2, '0');
-    const dd = match[2].padStart(2, '0');
-    let yy = parseInt(match[3], 10);
-    // 00-49 → 2000-2049, 50-99 → 1950-1999
-    const yyyy = yy < 50 ? (2000 + yy) : (1900 + yy);
-    return `${mm}/${dd}/${yyyy}`;
+function withinAmountTolerance(a: number, b: number, config: ReconcileConfig): boolean {
+  const diff = Math.abs(a - b);
+  if (config.amountToleranceType === 'percent') {
+    return diff <= (config.amountTolerance / 100) * Math.max(Math.abs(a), Math.abs(b));
   }
-  return valStr;
+  return diff <= config.amountTolerance;
 }
 
-/**
- * Recursively normalize all date-like fields in an object
- */
-function normalizeDatesInObject(obj: Record<string, any>): Record<string, any> {
-  const out: Record<string, any> = {};
-  for (const [key, value] of Object.entries(obj)) {
-    if (value && typeof value === 'object' && !Array.isArray(value)) {
-      out[key] = normalizeDatesInObject(value);
-    } else if (key.trim().toLowerCase() === 'date') {
-      out[key] = normalizeDateValue(value);
-    } else {
-      out[key] = value;
-    }
-  }
-  return out;
+function currenciesCompatible(a: Record<string, any>, b: Record<string, any>, config: ReconcileConfig): boolean {
+  if (config.currencyPolicy !== 'same') return true;
+  const currA = getRowCurrency(a);
+  const currB = getRowCurrency(b);
+  return !currA || !currB || currA === currB;
 }
 
 /**
- * Parse CSV/Excel buffer into objects with normalized dates
+ * Hooks for long-running reconciliations (see jobs.ts)
  */
-function parseFile(buffer: Buffer, filename: string): Record<string, any>[] {
-  const ext = filename.toLowerCase().split('.').pop();
-  let rows: Record<string, any>[] = [];
-
-  if (ext === 'csv') {
-    const text = buffer.toString('utf-8');
-    rows = csvParseSync(text, { columns: true, skip_empty_lines: true }) as Record<string, any>[];
-  } else if (ext === 'xlsx' || ext === 'xls') {
-    const workbook = xlsx.read(buffer, { type: 'buffer', cellDates: true });
-    const sheet = workbook.Sheets[workbook.SheetNames[0]];
-    rows = xlsx.utils.sheet_to_json(sheet, {
-      defval: '',
-      raw: false,
-      dateNF: 'MM/DD/YYYY'
-    }) as Record<string, any>[];
-  } else {
-    throw new Error(`Unsupported file extension: ${ext}`);
-  }
-  return rows;
-}
-
-/**
- * Pretty-print for LLM prompt
- */
-function prettyPrint(row: Record<string, any>): string {
-  return Object.entries(row)
-    .map(([k, v]) => `${k}: ${v}`)
-    .join('\n');
+export interface ReconcileRun {
+  // Aborts outstanding match-engine calls
+  signal?: AbortSignal;
+  // Match-engine results already obtained, by File A row: these rows are not re-sent
+  scored?: Record<number, MatchResult[]>;
+  // Called once candidates are known: rows needing match-engine results, and how many are already scored
+  onScoringStart?: (rowsToScore: number, alreadyScored: number) => void;
+  // Called as a File A row is sent to the match engine
+  onBatchSent?: (rowIndex: number, candidateCount: number) => void;
+  // Called as each File A row gets its match-engine results
+  onRowScored?: (rowIndex: number, results: MatchResult[]) => void;
+  // Pairs from a freshly scored row that clear the threshold; assignment may still drop them
+  onProvisionalMatches?: (rowIndex: number, matches: CandidateMatch[]) => void;
+  // Called when a File A row's LLM answer stays invalid; the row is left unscored
+  onRowFailed?: (rowIndex: number, error: LlmRowError) => void;
 }
 
-function datesAreClose(dateA: string, dateB: string, days = 0): boolean {
-  // Compare MM/DD/YYYY strings, allow ±days
-  const [mA, dA, yA] = dateA.split('/').map(Number);
-  const [mB, dB, yB] = dateB.split('/').map(Number);
-  const dtA = new Date(yA, mA - 1, dA);
-  const dtB = new Date(yB, mB - 1, dB);
-  const diff = Math.abs(dtA.getTime() - dtB.getTime());
-  return diff <= days * 86400 * 1000;
+export interface CandidateMatch {
+  file_a_index: number;
+  file_b_index: number;
+  file_a_entry: Record<string, any>;
+  file_b_entry: Record<string, any>;
+  confidence_score: number;
+  match_reason: string;
+  provider: string;
+  model: string | null;
 }
 
-function amountsAreClose(a: any, b: any, tol = AMOUNT_TOLERANCE): boolean {
-  const numA = parseFloat(String(a).replace(/[^\d.-]/g, ''));
-  const numB = parseFloat(String(b).replace(/[^\d.-]/g, ''));
-  return Math.abs(numA - numB) <= tol;
-}
-
-function getRowAmount(row: Record<string, any>): any {
-  if (row['Amount'] && String(row['Amount']).trim() !== '') return row['Amount'];
-  if (row['Credit Amount'] && String(row['Credit Amount']).trim() !== '') return row['Credit Amount'];
-  if (row['Debit Amount'] && String(row['Debit Amount']).trim() !== '') return row['Debit Amount'];
-  return null;
-}
-
-// Utility: extract and normalize currency from a row
-function getRowCurrency(row: Record<string, any>): string | null {
-  const currencyFields = ['Currency', 'currency', 'Curr', 'curr', 'Account Currency'];
-  for (const field of currencyFields) {
-    if (row[field] && typeof row[field] === 'string') {
-      return row[field].trim().toUpperCase();
-    }
-  }
-  return null;
-}
-
-// Add new batch LLM function
-async function geminiBatchMatchRow(
-  a: Record<string, any>,
-  candidates: { b: Record<string, any>; idx: number }[]
-): Promise<Array<{ file_b_index: number; match: boolean; confidence: number; reason: string }>> {
-  if (candidates.length === 0) return [];
-  const fileAString = prettyPrint(a);
-  const candidatesString = candidates
-    .map(({ b, idx }) => `${idx}:\n${prettyPrint(b)}`)
-    .join('\n\n');
-  const prompt = `You are a financial reconciliation expert.\n\nYour task is to compare the following File A transaction to each of the File B candidates. For each candidate, output a JSON object with: file_b_index, match (true/false), confidence (0-1), and a clear, human-readable reason.\n\n**Instructions:**\n- Consider all possible reasons two transactions may represent the same real-world event, even if there are differences in description, date, amount, or currency.\n- If you detect a possible partial payment, duplicate, or ambiguous record, explain this in the reason and set confidence accordingly.\n- If the amounts are close but not exact, consider rounding, partial payments, or splits.\n- If the dates are off by a few days, consider posting delays.\n- If currencies differ, only match if you are highly confident and explain why.\n- If you are uncertain, set confidence below 0.85 and explain why.\n- Always provide a clear, concise reason for your decision, mentioning any edge cases (partial payment, duplicate, ambiguous, currency/format mismatch, etc.) if relevant.\n\n**Confidence Scoring System:**\n- Use the full range from 0 (no match) to 1 (perfect match).\n- 0.95–1.0: Nearly certain match (all key fields align, only minor differences).\n- 0.85–0.94: Strong match, but with some uncertainty (e.g., minor field differences, plausible but not perfect).\n- 0.7–0.84: Possible match, but notable uncertainty (e.g., partial payment, ambiguous description, or multiple plausible candidates).\n- 0.5–0.69: Weak match, only some fields align, or possible duplicate/ambiguous.\n- 0.2–0.49: Very weak match, unlikely but not impossible.\n- 0–0.19: No meaningful match.\n- Justify the confidence score in your reason.\n\n- Output ONLY a single JSON array, one object per File B candidate, in the same order as below. Do not include any commentary, markdown, or explanation outside the JSON.\n\nFile A:\n${fileAString}\n\nFile B candidates:\n${candidatesString}`;
-
-  const model = genAI.getGenerativeModel({ model: GEMINI_MODEL });
-  const result = await model.generateContent([prompt]);
-  const content = result.response.text();
-  try {
-    // Try to parse the first JSON array in the response
-    const match = content.match(/\[[\s\S]*?\]/);
-    const arr = match ? JSON.parse(match[0]) : JSON.parse(content);
-    return arr.map((obj: any) => ({
-      file_b_index: obj.file_b_index,
-      match: !!obj.match,
-      confidence: typeof obj.confidence === 'number' ? obj.confidence : 0,
-      reason: obj.reason || 'No reason provided',
-    }));
-  } catch (err) {
-    console.error('Failed to parse Gemini batch response:', content);
-    // Fallback: return empty array
-    return [];
-  }
-}
-
-// Enhanced reconciliation
+// Enhanced reconciliation (rows are expected in canonical column names, see mapRows)
 export async function reconcile(
   dataA: Record<string, any>[],
-  dataB: Record<string, any>[]
+  dataB: Record<string, any>[],
+  matcher: Matcher = getMatcher(),
+  options: ReconcileOptions = {},
+  run: ReconcileRun = {}
 ) {
+  const config = resolveConfig(options);
+  const reporting = config.currencyPolicy === 'convert' ? config.reportingCurrency! : null;
+  const fxRates = options.fxRates || new Map();
+  const learnedRules = options.learnedRules ?? [];
   const matches: any[] = [];
   const unmatchedA: Record<string, any>[] = [];
   const unmatchedB: Record<string, any>[] = [];
+  const unmatchedAIdx: number[] = [];
+  const unmatchedBIdx: number[] = [];
   const usedA = new Set<number>();
   const usedB = new Set<number>();
   const llmCandidates: any[] = [];
@@ -186,83 +100,355 @@ export async function reconcile(
   // Normalize all dates in both files
   const normA = dataA.map(normalizeDatesInObject);
   const normB = dataB.map(normalizeDatesInObject);
+  // Rows as compared (sign-adjusted, then converted to the reporting currency);
+  // results always report the rows as uploaded
+  const signedB = config.signMode === 'opposite' ? normB.map(withOppositeSign) : normB;
+  const cmpA = reporting ? normA.map(r => withReportingCurrency(r, fxRates, reporting)) : normA;
+  const cmpB = reporting ? signedB.map(r => withReportingCurrency(r, fxRates, reporting)) : signedB;
+  const fxMissing = [
+    ...cmpA.map((r, index) => ({ file: 'A', index, row: normA[index], note: r['FX Note'] })),
+    ...cmpB.map((r, index) => ({ file: 'B', index, row: normB[index], note: r['FX Note'] })),
+  ].filter(r => r.note);
+  const fxFor = (aIdx: number[], bIdx: number[]) => reporting
+    ? describeFx(aIdx.map(i => normA[i]), bIdx.map(j => signedB[j]), fxRates, reporting, config.fxTolerance)
+    : undefined;
 
-  // Only 1-to-1 matching, but batch LLM calls per File A row
-  for (let i = 0; i < normA.length; i++) {
-    if (usedA.has(i)) continue;
-    const a = normA[i];
-    const dateA = a['Date'];
+  // 1-to-1 candidates first, batching match-engine calls per File A row
+  const candidatesFor = (i: number) => {
+    const a = cmpA[i];
     const amountA = getRowAmount(a);
-    const candidates = normB
+    return cmpB
       .map((b, idx) => ({ b, idx }))
-      .filter(({ b, idx }) =>
-        !usedB.has(idx) &&
-        b['Date'] &&
-        datesAreClose(dateA, b['Date'], 7) &&
-        amountsAreClose(amountA, getRowAmount(b), 500)
+      .filter(({ b }) =>
+        daysApart(a, b) <= config.dateWindowDays &&
+        withinAmountTolerance(amountA, getRowAmount(b), config) &&
+        currenciesCompatible(a, b, config)
       );
+  };
+  const allCandidates = normA.map((_, i) => candidatesFor(i));
+
+  // Rows booked twice within a file; extra copies sit out the exact pass so they
+  // don't make the original's key look ambiguous
+  const duplicatesA = findDuplicates(normA, 'A');
+  const duplicatesB = findDuplicates(normB, 'B');
+  const heldBack = { a: duplicateExtras(duplicatesA), b: duplicateExtras(duplicatesB) };
+
+  // Deterministic first pass: exact pairs are locked in without a match-engine call
+  for (const { a: i, b: j, reason } of findExactMatches(cmpA, cmpB, allCandidates, heldBack)) {
+    matches.push({
+      id: matchId([i], [j]),
+      type: '1-to-1',
+      pass: 'exact',
+      file_a_indices: [i],
+      file_b_indices: [j],
+      file_a_entry: normA[i],
+      file_b_entry: normB[j],
+      confidence_score: 1,
+      match_reason: reason,
+      fx: fxFor([i], [j]),
+    });
+    usedA.add(i);
+    usedB.add(j);
+  }
+  // Then pairs that reviewers' earlier decisions on this account vouch for
+  const learned = findLearnedMatches(
+    cmpA,
+    cmpB,
+    learnedRules,
+    { a: i => !usedA.has(i) && !heldBack.a.has(i), b: j => !usedB.has(j) && !heldBack.b.has(j) },
+    (i, j) => currenciesCompatible(cmpA[i], cmpB[j], config),
+    config.dateWindowDays
+  );
+  for (const { a: i, b: j, reason, rule_ids } of learned) {
+    matches.push({
+      id: matchId([i], [j]),
+      type: '1-to-1',
+      pass: 'learned',
+      file_a_indices: [i],
+      file_b_indices: [j],
+      file_a_entry: normA[i],
+      file_b_entry: normB[j],
+      confidence_score: LEARNED_CONFIDENCE,
+      match_reason: reason,
+      rule_ids,
+      fx: fxFor([i], [j]),
+    });
+    usedA.add(i);
+    usedB.add(j);
+  }
+  // Only the residual rows and candidates go to the match engine
+  const rowCandidates = allCandidates.map((c, i) => (usedA.has(i) ? [] : c.filter(({ idx }) => !usedB.has(idx))));
+  const accepts = (r: MatchResult, candidates: MatchCandidate[]) =>
+    r.match && r.confidence >= config.confidenceThreshold && candidates.some(c => c.idx === r.file_b_index);
+  // Which engine (and LLM model) produced an answer
+  const sourceOf = (r: MatchResult) => ({ provider: r.provider ?? matcher.name, model: r.model ?? null });
+  const candidateMatch = (i: number, r: MatchResult): CandidateMatch => ({
+    file_a_entry: normA[i],
+    file_b_entry: normB[r.file_b_index],
+    confidence_score: parseFloat(r.confidence.toFixed(2)),
+    match_reason: r.reason,
+    ...sourceOf(r),
+    file_a_index: i,
+    file_b_index: r.file_b_index,
+  });
+  const scored: Record<number, MatchResult[]> = { ...run.scored };
+  const rowsToScore = rowCandidates.filter(c => c.length > 0).length;
+  run.onScoringStart?.(rowsToScore, rowCandidates.filter((c, i) => c.length > 0 && scored[i]).length);
+
+  // Rows are sent together; the matcher decides how many calls are in flight.
+  // The first failure cancels calls that have not started yet.
+  const controller = new AbortController();
+  const abort = () => controller.abort(run.signal?.reason);
+  if (run.signal?.aborted) abort();
+  run.signal?.addEventListener('abort', abort, { once: true });
+  let failure: unknown = null;
+  const llmErrors: LlmRowError[] = [];
+  try {
+    await Promise.all(rowCandidates.map(async (candidates, i) => {
+      if (candidates.length === 0 || scored[i]) return;
+      try {
+        // Batch match-engine call for this File A row
+        console.log(`[${matcher.name.toUpperCase()} BATCH] FileA row ${i} with ${candidates.length} FileB candidates`);
+        run.onBatchSent?.(i, candidates.length);
+        scored[i] = await matcher.matchRow(cmpA[i], candidates, controller.signal, hintsFor(cmpA[i], candidates, learnedRules));
+        run.onRowScored?.(i, scored[i]);
+        const proposed = scored[i].filter(r => accepts(r, candidates));
+        if (proposed.length > 0) run.onProvisionalMatches?.(i, proposed.map(r => candidateMatch(i, r)));
+      } catch (err) {
+        if (err instanceof LlmOutputError) {
+          // An unusable answer only costs this row; it stays unmatched and is reported
+          const rowError = { file_a_index: i, error: err.message, raw: rawExcerpt(err.raw) };
+          llmErrors.push(rowError);
+          run.onRowFailed?.(i, rowError);
+          return;
+        }
+        if (!failure) failure = err;
+        controller.abort(err);
+      }
+    }));
+  } finally {
+    run.signal?.removeEventListener('abort', abort);
+  }
+  if (failure) throw failure;
+  run.signal?.throwIfAborted();
+
+  const edges: CandidateEdge[] = [];
+  const answers = new Map<string, MatchResult>();
+  for (let i = 0; i < normA.length; i++) {
+    const candidates = rowCandidates[i];
     if (candidates.length === 0) continue;
-    // Batch LLM call for this File A row
-    console.log(`[LLM BATCH] FileA row ${i} with ${candidates.length} FileB candidates`);
-    const batchResults = await geminiBatchMatchRow(a, candidates);
-    // Add all LLM candidate results for explainability
-    for (let j = 0; j < batchResults.length; j++) {
-      const { file_b_index, match, confidence, reason } = batchResults[j];
-      llmCandidates.push({
-        file_a_entry: a,
-        file_b_entry: normB[file_b_index],
-        confidence_score: parseFloat(confidence.toFixed(2)),
-        match_reason: reason,
-        file_a_index: i,
-        file_b_index,
-      });
-    }
-    // Find best match above threshold
-    let bestIdx = -1;
-    let bestConfidence = 0;
-    let bestReason = '';
-    for (const res of batchResults) {
-      if (res.confidence > bestConfidence && res.match) {
-        bestConfidence = res.confidence;
-        bestIdx = res.file_b_index;
-        bestReason = res.reason;
+    // Add all candidate results for explainability
+    for (const r of scored[i] || []) {
+      llmCandidates.push(candidateMatch(i, r));
+      if (accepts(r, candidates)) {
+        edges.push({ a: i, b: r.file_b_index, confidence: r.confidence });
+        answers.set(`${i}:${r.file_b_index}`, r);
       }
     }
-    if (bestIdx !== -1 && bestConfidence >= LLM_MATCH_THRESHOLD) {
-      matches.push({
-        type: '1-to-1',
-        file_a_entry: a,
-        file_b_entry: normB[bestIdx],
-        confidence_score: parseFloat(bestConfidence.toFixed(2)),
-        match_reason: bestReason,
-      });
-      usedA.add(i);
-      usedB.add(bestIdx);
-    }
   }
 
-  // Unmatched
+  // Assign once all confidences are known, maximizing total confidence over the run
+  const assignment = assignOptimal(edges);
+  for (const { a: i, b: j, confidence } of assignment.assigned) {
+    matches.push({
+      id: matchId([i], [j]),
+      type: '1-to-1',
+      pass: 'engine',
+      file_a_indices: [i],
+      file_b_indices: [j],
+      file_a_entry: normA[i],
+      file_b_entry: normB[j],
+      confidence_score: parseFloat(confidence.toFixed(2)),
+      match_reason: answers.get(`${i}:${j}`)!.reason,
+      ...sourceOf(answers.get(`${i}:${j}`)!),
+      fx: fxFor([i], [j]),
+    });
+    usedA.add(i);
+    usedB.add(j);
+  }
+  // Ties and contested candidates are left for review, and kept out of the split search
+  const ambiguous = assignment.ambiguous.map(({ a: i, edges: competing }) => {
+    usedA.add(i);
+    competing.forEach(e => usedB.add(e.b));
+    return {
+      file_a_index: i,
+      file_a_entry: normA[i],
+      candidates: competing.map(e => ({
+        file_b_index: e.b,
+        file_b_entry: normB[e.b],
+        confidence_score: parseFloat(e.confidence.toFixed(2)),
+        match_reason: answers.get(`${i}:${e.b}`)!.reason,
+        ...sourceOf(answers.get(`${i}:${e.b}`)!),
+      })),
+      reason: competing.length > 1
+        ? `${competing.length} File B candidates are equally good matches`
+        : 'File B candidate is an equally good match for another File A row',
+    };
+  });
+  const ambiguousA = new Set(ambiguous.map(x => x.file_a_index));
+  const ambiguousB = new Set(ambiguous.flatMap(x => x.candidates.map(c => c.file_b_index)));
+
+  // 1-to-many: one File A row settled by several File B rows (split payments)
+  for (let i = 0; i < normA.length; i++) {
+    if (usedA.has(i)) continue;
+    const pool = cmpB
+      .map((row, idx) => ({ row, idx }))
+      .filter(({ row, idx }) => !usedB.has(idx) && currenciesCompatible(cmpA[i], row, config));
+    const group = findSplitGroup(cmpA[i], pool, config.dateWindowDays);
+    if (!group || group.confidence < config.confidenceThreshold) continue;
+    matches.push({
+      id: matchId([i], group.indices),
+      type: '1-to-many',
+      pass: 'split',
+      file_a_indices: [i],
+      file_b_indices: group.indices,
+      file_a_entry: normA[i],
+      file_b_entries: group.indices.map(idx => normB[idx]),
+      confidence_score: parseFloat(group.confidence.toFixed(2)),
+      match_reason: `Split payment: ${group.reason}`,
+      fx: fxFor([i], group.indices),
+    });
+    usedA.add(i);
+    group.indices.forEach(idx => usedB.add(idx));
+  }
+
+  // many-to-1: several File A rows settled by one File B row (batched settlements)
+  for (let j = 0; j < normB.length; j++) {
+    if (usedB.has(j)) continue;
+    const pool = cmpA
+      .map((row, idx) => ({ row, idx }))
+      .filter(({ row, idx }) => !usedA.has(idx) && currenciesCompatible(row, cmpB[j], config));
+    const group = findSplitGroup(cmpB[j], pool, config.dateWindowDays);
+    if (!group || group.confidence < config.confidenceThreshold) continue;
+    matches.push({
+      id: matchId(group.indices, [j]),
+      type: 'many-to-1',
+      pass: 'split',
+      file_a_indices: group.indices,
+      file_b_indices: [j],
+      file_a_entries: group.indices.map(idx => normA[idx]),
+      file_b_entry: normB[j],
+      confidence_score: parseFloat(group.confidence.toFixed(2)),
+      match_reason: `Batched settlement: ${group.reason}`,
+      fx: fxFor(group.indices, [j]),
+    });
+    usedB.add(j);
+    group.indices.forEach(idx => usedA.add(idx));
+  }
+
+  // Unmatched (ambiguous rows included until a reviewer resolves them)
   for (let i = 0; i < normA.length; i++) {
-    if (!usedA.has(i) && !unmatchedA.includes(normA[i])) unmatchedA.push(normA[i]);
+    if ((!usedA.has(i) || ambiguousA.has(i)) && !unmatchedA.includes(normA[i])) {
+      unmatchedA.push(normA[i]);
+      unmatchedAIdx.push(i);
+    }
   }
   for (let j = 0; j < normB.length; j++) {
-    if (!usedB.has(j) && !unmatchedB.includes(normB[j])) unmatchedB.push(normB[j]);
+    if ((!usedB.has(j) || ambiguousB.has(j)) && !unmatchedB.includes(normB[j])) {
+      unmatchedB.push(normB[j]);
+      unmatchedBIdx.push(j);
+    }
   }
 
+  // Why each unmatched row failed to match, and how old it is at the statement end date
+  const endDate = statementEndDate([...normA, ...normB], config);
+  const exceptionContext = {
+    normA, normB, cmpA, cmpB,
+    candidates: allCandidates,
+    scored,
+    matches,
+    llmErrors,
+    ambiguousA,
+    ambiguousB,
+    config,
+    withinWindow: (a: Record<string, any>, b: Record<string, any>) =>
+      daysApart(a, b) <= config.dateWindowDays && withinAmountTolerance(getRowAmount(a), getRowAmount(b), config),
+    currenciesCompatible: (a: Record<string, any>, b: Record<string, any>) => currenciesCompatible(a, b, config),
+  };
+
   return {
     matches,
     unmatched_file_a_entries: unmatchedA,
     unmatched_file_b_entries: unmatchedB,
-    llm_candidates: llmCandidates
+    // Row index in the uploaded file of each unmatched entry, in the same order
+    unmatched_file_a_indices: unmatchedAIdx,
+    unmatched_file_b_indices: unmatchedBIdx,
+    // Exception reason, best near miss and age of each unmatched row, by row index
+    unmatched_file_a_exceptions: classifyUnmatched('A', unmatchedAIdx, exceptionContext, endDate),
+    unmatched_file_b_exceptions: classifyUnmatched('B', unmatchedBIdx, exceptionContext, endDate),
+    statement_end_date: endDate,
+    llm_candidates: llmCandidates,
+    ambiguous_matches: ambiguous,
+    // Likely duplicate transactions within each file, for review
+    duplicates_file_a: duplicatesA,
+    duplicates_file_b: duplicatesB,
+    match_engine: matcher.name,
+    // Hits and misses of the LLM response cache (null when the engine does not use it)
+    llm_cache: matcher.cacheStats ?? null,
+    // Columns and values kept out of LLM prompts (null when the engine sends no prompts)
+    redaction: matcher.redactionReport?.() ?? null,
+    // Matches per pass, and File A rows the exact and learned passes kept away from the match engine
+    pass_counts: {
+      exact: matches.filter(m => m.pass === 'exact').length,
+      learned: matches.filter(m => m.pass === 'learned').length,
+      engine: matches.filter(m => m.pass === 'engine').length,
+      split: matches.filter(m => m.pass === 'split').length,
+    },
+    engine_rows_skipped: allCandidates.filter((c, i) => c.length > 0 && rowCandidates[i].length === 0).length,
+    engine_rows_sent: rowCandidates.filter(c => c.length > 0).length,
+    // Rules learned for the run's account, and how many were confirmed enough to apply
+    learned_rules: { available: learnedRules.length, active: learnedRules.filter(isActive).length },
+    // File A rows whose LLM answer was still invalid after re-asking
+    llm_errors: llmErrors.sort((x, y) => x.file_a_index - y.file_a_index),
+    config,
+    fx_flagged_count: matches.filter(m => m.fx?.flagged).length,
+    fx_missing_rates: fxMissing
+  };
+}
+
+/**
+ * Both uploads as reconcile input: parsed, mapped, and followed by the open
+ * items of the account's prior period. Shared by POST /reconcile and POST /jobs.
+ */
+export function prepareUploads(
+  fileA: Express.Multer.File,
+  fileB: Express.Multer.File,
+  body: Record<string, any> | undefined
+) {
+  const mappedA = loadUpload(fileA, body?.mappingA, body?.importA);
+  const mappedB = loadUpload(fileB, body?.mappingB, body?.importB);
+  const period = parsePeriodSpec(body);
+  const carried = period ? withCarryForward(period, mappedA.rows, mappedB.rows) : null;
+  return {
+    rows_a: carried?.rowsA ?? mappedA.rows,
+    rows_b: carried?.rowsB ?? mappedB.rows,
+    period,
+    column_mappings: { file_a: mappedA.mapping, file_b: mappedB.mapping },
+    imports: { file_a: mappedA.import, file_b: mappedB.import },
+    carry_forward: carried?.carryForward ?? null,
   };
 }
 
+/**
+ * A run's result with how its uploads were read; carried items it matched are
+ * marked cleared
+ */
+export function runOutput<T extends { matches: any[] }>(
+  result: T,
+  uploads: { column_mappings: unknown; imports?: unknown; carry_forward?: CarryForward | null }
+) {
+  const carryForward = uploads.carry_forward ?? null;
+  if (carryForward) markCleared(carryForward, result.matches);
+  return { ...result, column_mappings: uploads.column_mappings, imports: uploads.imports, carry_forward: carryForward };
+}
+
 // Route setup
 router.post(
   '/reconcile',
   upload.fields([
     { name: 'fileA', maxCount: 1 },
     { name: 'fileB', maxCount: 1 },
+    { name: 'fxRates', maxCount: 1 },
   ]),
   async (req: Request, res: Response) => {
     try {
@@ -275,18 +461,25 @@ router.post(
         return;
       }
 
-      const dataA = parseFile(fileA.buffer, fileA.originalname);
-      const dataB = parseFile(fileB.buffer, fileB.originalname);
-
-      // Warn if too many LLM calls for free tier
-      if (dataA.length > 15 || dataB.length > 15) {
-        res.status(400).json({ error: 'Too many rows for Gemini free tier. Please upload smaller files.' });
+      const uploads = prepareUploads(fileA, fileB, req.body);
+      // LLM calls are queued and rate-limited in matchers.ts; large files are better
+      // submitted as a background job (POST /jobs)
+      const result = await reconcile(uploads.rows_a, uploads.rows_b, getMatcher(req.body?.engine, parseMatcherOptions(req.body)), {
+        ...parseReconcileOptions(req.body, files.fxRates?.[0]),
+        learnedRules: learnedRulesFor(uploads.period?.account),
+      });
+      const output = runOutput(result, uploads);
+      const session = createSession(output, fileA.originalname, fileB.originalname, req.body?.sessionName, uploads.period);
+      res.json({ ...output, session_id: session.id });
+    } catch (error: any) {
+      if (error instanceof ParseError) {
+        res.status(400).json({ error: error.message, line: error.line });
+        return;
+      }
+      if (error instanceof ValidationError) {
+        res.status(400).json({ error: error.message });
         return;
       }
-
-      const result = await reconcile(dataA, dataB);
-      res.json(result);
-    } catch (error: any) {
       console.error('Reconciliation error:', error);
       res.status(500).json({ error: (error && error.message) ? String(error.message) : 'Internal Server Error' });
     }
@@ -295,4 +488,4 @@ router.post(
 
 export default router;
 
-export { parseFile, parseFile as parseBuffer, geminiBatchMatchRow };
\ No newline at end of file
+export { parseFile, parseFile as parseBuffer, geminiBatchMatchRow };
@@ -0,0 +1,195 @@
+import dotenv from 'dotenv';
+import { createHmac, randomBytes } from 'crypto';
+import { MatchCandidate, descriptionSimilarity } from './matchers';
+
+// Load environment variables
+dotenv.config();
+
+// REDACTION=off sends rows to the LLM unchanged
+const REDACTION_ENABLED = (process.env.REDACTION || 'on').toLowerCase() !== 'off';
+// token: same value → same token in both files, so the LLM can still see equality
+// mask: numbers keep their last 4 digits, other values are replaced entirely
+const REDACTION_MODE: RedactionMode = process.env.REDACT_MODE === 'mask' ? 'mask' : 'token';
+// Columns whose whole value is sensitive, matched against the column name
+const REDACT_FIELDS = new RegExp(
+  process.env.REDACT_FIELDS ||
+    'account|acct|iban|card|\\bpan\\b|name|counterparty|payee|payer|customer|beneficiary|routing|sort.?code|swift|\\bbic\\b',
+  'i'
+);
+// Keyed so tokens cannot be reversed by hashing guesses; set it to keep tokens stable across restarts
+const REDACTION_SECRET = process.env.REDACTION_SECRET || randomBytes(32).toString('hex');
+
+export type RedactionMode = 'token' | 'mask';
+
+type ValueKind = 'IBAN' | 'CARD' | 'ACCOUNT' | 'NAME';
+
+/**
+ * What was redacted from the rows sent to the LLM in one run
+ */
+export interface RedactionReport {
+  enabled: boolean;
+  mode: RedactionMode;
+  // Columns redacted because of their name
+  fields: string[];
+  // Values found and redacted inside other columns, by kind
+  patterns: Record<string, number>;
+}
+
+// IBANs and digit runs as long as a card number (kept only if Luhn-valid), found
+// in one pass so a replacement token is never matched again. Other long numbers
+// (invoice references, YYYYMMDD dates) are left for the matcher.
+const SENSITIVE_VALUE = /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b|\b\d(?:[ -]?\d){12,18}\b/g;
+// Account numbers written after a label ("acct 12345678", "A/C No. 1234-5678")
+const ACCOUNT_REFERENCE = /\b(a\/c|acct|account)(\s*(?:no|nr|number))?([.:#\s]*)(\d(?:[ -]?\d){5,17})\b/gi;
+// Personal names after a title ("Mr J Smith", "DR ANNA WEBER")
+const TITLED_NAME = /\b(?:Mr|Mrs|Ms|Miss|Dr|MR|MRS|MS|MISS|DR)\.?\s+[A-Z][A-Za-z'-]*(?:\s+[A-Z][A-Za-z'-]*)?/g;
+// Columns the matching depends on and that hold no personal data; they win over REDACT_FIELDS
+// ("Account Currency" stays readable)
+const PLAIN_FIELD = /amount|date|currency/i;
+// Bumped when the redaction rules change, so cached answers to old prompts are not reused
+const REDACTION_RULES_VERSION = 2;
+
+function isRedactedField(field: string): boolean {
+  return REDACT_FIELDS.test(field) && !PLAIN_FIELD.test(field);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function luhnValid(digits: string): boolean {
+  let sum = 0;
+  for (let k = 0; k < digits.length; k++) {
+    let d = Number(digits[digits.length - 1 - k]);
+    if (k % 2 === 1 && (d *= 2) > 9) d -= 9;
+    sum += d;
+  }
+  return sum % 10 === 0;
+}
+
+function kindOfField(field: string): ValueKind {
+  if (/iban/i.test(field)) return 'IBAN';
+  if (/card|\bpan\b/i.test(field)) return 'CARD';
+  if (/account|acct|routing|sort.?code|swift|\bbic\b/i.test(field)) return 'ACCOUNT';
+  return 'NAME';
+}
+
+function normalizeValue(value: string): string {
+  return value.toUpperCase().replace(/[^A-Z0-9]/g, '');
+}
+
+function replacement(kind: ValueKind, value: string): string {
+  const normalized = normalizeValue(value);
+  if (REDACTION_MODE === 'mask') {
+    return kind === 'NAME' || normalized.length <= 4 ? `[${kind}]` : `****${normalized.slice(-4)}`;
+  }
+  const digest = createHmac('sha256', REDACTION_SECRET).update(`${kind}:${normalized}`).digest('hex').slice(0, 8);
+  return `[${kind}-${digest}]`;
+}
+
+/**
+ * Redactor for one run: rows pass through it before prompt construction, and
+ * it keeps the report of what it removed
+ */
+export function createRedactor() {
+  const fields = new Set<string>();
+  const patterns: Record<string, number> = {};
+  const count = (kind: ValueKind) => { patterns[kind] = (patterns[kind] || 0) + 1; };
+  // Values of name columns seen in this run; they are also redacted where they
+  // appear in descriptions, with the same token
+  const knownNames = new Set<string>();
+  let knownNamePattern: RegExp | null = null;
+  const learnName = (name: string) => {
+    const trimmed = name.trim().replace(/\s+/g, ' ');
+    if (trimmed.length < 3 || knownNames.has(trimmed.toLowerCase())) return;
+    knownNames.add(trimmed.toLowerCase());
+    // Longest first, so "John Smith Ltd" wins over "John Smith"
+    const alternatives = [...knownNames].sort((x, y) => y.length - x.length).map(n => escapeRegExp(n).replace(/ /g, '\\s+'));
+    knownNamePattern = new RegExp(`(?<![\\w[])(?:${alternatives.join('|')})(?!\\w)`, 'gi');
+  };
+
+  const redactText = (text: string): string => {
+    const redactName = (m: string) => {
+      count('NAME');
+      return replacement('NAME', m);
+    };
+    let out = knownNamePattern ? text.replace(knownNamePattern, redactName) : text;
+    out = out.replace(TITLED_NAME, redactName);
+    out = out.replace(ACCOUNT_REFERENCE, (_m, label: string, suffix = '', separator: string, number: string) => {
+      count('ACCOUNT');
+      return `${label}${suffix}${separator}${replacement('ACCOUNT', number)}`;
+    });
+    return out.replace(SENSITIVE_VALUE, m => {
+      const digits = m.replace(/[ -]/g, '');
+      let kind: ValueKind;
+      if (/^[A-Z]/.test(digits)) kind = 'IBAN';
+      else if (luhnValid(digits)) kind = 'CARD';
+      else return m;
+      count(kind);
+      return replacement(kind, m);
+    });
+  };
+
+  const redactRow = (row: Record<string, any>): Record<string, any> => {
+    if (!REDACTION_ENABLED) return row;
+    // Name columns first, so their values are known before the free text is scanned
+    for (const [key, value] of Object.entries(row)) {
+      if (value != null && value !== '' && isRedactedField(key) && kindOfField(key) === 'NAME') learnName(String(value));
+    }
+    const out: Record<string, any> = {};
+    for (const [key, value] of Object.entries(row)) {
+      if (value == null || value === '' || PLAIN_FIELD.test(key)) {
+        out[key] = value;
+      } else if (REDACT_FIELDS.test(key)) {
+        fields.add(key);
+        out[key] = replacement(kindOfField(key), String(value));
+      } else if (typeof value === 'string') {
+        out[key] = redactText(value);
+      } else {
+        out[key] = value;
+      }
+    }
+    return out;
+  };
+
+  return {
+    redactRow,
+    report: (): RedactionReport => ({ enabled: REDACTION_ENABLED, mode: REDACTION_MODE, fields: [...fields].sort(), patterns: { ...patterns } }),
+  };
+}
+
+export type Redactor = ReturnType<typeof createRedactor>;
+
+/**
+ * Server-side comparison of the columns the LLM only sees redacted, one line
+ * per candidate (e.g. "Counterparty: equal"), so it can still weigh them
+ */
+export function compareRedactedFields(a: Record<string, any>, candidates: MatchCandidate[]): Map<number, string> {
+  const checks = new Map<number, string>();
+  if (!REDACTION_ENABLED) return checks;
+  for (const { b, idx } of candidates) {
+    const notes: string[] = [];
+    for (const key of Object.keys(a)) {
+      if (!isRedactedField(key) || a[key] == null || a[key] === '' || b[key] == null || b[key] === '') continue;
+      const va = normalizeValue(String(a[key]));
+      const vb = normalizeValue(String(b[key]));
+      if (va === vb) {
+        notes.push(`${key}: equal`);
+      } else if (kindOfField(key) === 'NAME') {
+        const similarity = descriptionSimilarity(String(a[key]), String(b[key]));
+        notes.push(`${key}: ${similarity >= 0.5 ? 'similar' : 'different'} (word overlap ${similarity.toFixed(2)})`);
+      } else {
+        notes.push(`${key}: different`);
+      }
+    }
+    if (notes.length > 0) checks.set(idx, notes.join('; '));
+  }
+  return checks;
+}
+
+/**
+ * Identifies the redaction settings in cache keys: a change must not reuse answers to other prompts
+ */
+export function redactionVersion(): string {
+  return REDACTION_ENABLED ? `redact-v${REDACTION_RULES_VERSION}-${REDACTION_MODE}-${REDACT_FIELDS.source}` : 'redact-off';
+}
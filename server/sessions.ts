@@ -0,0 +1,401 @@
+import express, { Request, Response, Router } from 'express';
+import { randomUUID } from 'crypto';
+import { deleteStore, listStores, readStore, writeStore } from './store';
+import { matchId } from './normalize';
+import { DuplicateGroup, DuplicateStatus } from './duplicates';
+import { UnmatchedException, rowAge } from './exceptions';
+import type { CarryForward, PeriodSpec } from './accounts';
+import { learnFromMatch } from './learnedRules';
+
+const router: Router = express.Router();
+
+export type ReviewAction = 'confirmed' | 'rejected';
+
+export interface ReviewDecision {
+  match_id: string;
+  action: ReviewAction;
+  note?: string;
+  reviewer?: string;
+  decided_at: string;
+}
+
+/**
+ * A reviewer's call on a duplicate group: a real repeat, or booked twice in error
+ */
+export interface DuplicateDecision {
+  group_id: string;
+  status: DuplicateStatus;
+  note?: string;
+  reviewer?: string;
+  decided_at: string;
+}
+
+export interface ReviewLogEntry {
+  action: ReviewAction | 'matched' | 'unmatched' | 'duplicate_genuine' | 'duplicate_erroneous';
+  // Match id, or duplicate group id for duplicate decisions
+  match_id: string;
+  note?: string;
+  reviewer?: string;
+  at: string;
+}
+
+export interface Session {
+  id: string;
+  name: string;
+  created_at: string;
+  updated_at: string;
+  file_a_name: string;
+  file_b_name: string;
+  result: Record<string, any>;
+  // Latest decision per match id
+  decisions: Record<string, ReviewDecision>;
+  // Every review action in order, including manual matches and unmatches
+  review_log: ReviewLogEntry[];
+  // Latest decision per duplicate group id
+  duplicate_decisions: Record<string, DuplicateDecision>;
+  // Named account and period of a rolling reconciliation (see accounts.ts)
+  account?: string;
+  period?: string;
+}
+
+const SESSION_PREFIX = 'session-';
+const SESSION_ID = /^[0-9a-f-]{36}$/;
+
+function storeName(id: string): string {
+  if (!SESSION_ID.test(id)) throw new Error(`Invalid session id: ${id}`);
+  return `${SESSION_PREFIX}${id}`;
+}
+
+export function getSession(id: string): Session | null {
+  if (!SESSION_ID.test(id)) return null;
+  const session = readStore<Session | null>(storeName(id), null);
+  if (session && !session.review_log) session.review_log = [];
+  if (session && !session.duplicate_decisions) session.duplicate_decisions = {};
+  return session;
+}
+
+export function saveSession(session: Session): Session {
+  session.updated_at = new Date().toISOString();
+  writeStore(storeName(session.id), session);
+  return session;
+}
+
+/**
+ * Persist a reconciliation run as a new review session
+ */
+export function createSession(
+  result: Record<string, any>,
+  fileAName: string,
+  fileBName: string,
+  name?: string,
+  period?: PeriodSpec | null
+): Session {
+  const now = new Date().toISOString();
+  return saveSession({
+    id: randomUUID(),
+    name: name || `${fileAName} vs ${fileBName}`,
+    created_at: now,
+    updated_at: now,
+    file_a_name: fileAName,
+    file_b_name: fileBName,
+    result,
+    decisions: {},
+    review_log: [],
+    duplicate_decisions: {},
+    ...(period ? { account: period.account, period: period.period } : {}),
+  });
+}
+
+function summarize(session: Session) {
+  return {
+    id: session.id,
+    name: session.name,
+    created_at: session.created_at,
+    updated_at: session.updated_at,
+    file_a_name: session.file_a_name,
+    file_b_name: session.file_b_name,
+    account: session.account,
+    period: session.period,
+    matched: session.result.matches?.length ?? 0,
+    unmatched_a: session.result.unmatched_file_a_entries?.length ?? 0,
+    unmatched_b: session.result.unmatched_file_b_entries?.length ?? 0,
+    reviewed: Object.keys(session.decisions).length,
+  };
+}
+
+/**
+ * Every stored session, in no particular order
+ */
+export function loadSessions(): Session[] {
+  return listStores(SESSION_PREFIX)
+    .map(name => getSession(name.slice(SESSION_PREFIX.length)))
+    .filter((s): s is Session => s != null);
+}
+
+export function listSessions() {
+  return loadSessions()
+    .map(summarize)
+    .sort((a, b) => b.created_at.localeCompare(a.created_at));
+}
+
+// Carried-forward rows matched by hand clear in the session's period; unmatched, they are open again
+function markCarried(carry: CarryForward | undefined, aIdx: number[], bIdx: number[], cleared: boolean) {
+  if (!carry) return;
+  for (const i of aIdx) if (carry.file_a[i]) carry.file_a[i].cleared_period = cleared ? carry.period : null;
+  for (const j of bIdx) if (carry.file_b[j]) carry.file_b[j].cleared_period = cleared ? carry.period : null;
+}
+
+/**
+ * Record review decisions against a session's matches
+ */
+export function recordDecisions(
+  session: Session,
+  decisions: { match_id: string; action: ReviewAction; note?: string; reviewer?: string }[]
+): Session {
+  const matchIds = new Set((session.result.matches || []).map((m: any) => m.id));
+  for (const d of decisions) {
+    if (!matchIds.has(d.match_id)) throw new Error(`Unknown match id: ${d.match_id}`);
+    if (d.action !== 'confirmed' && d.action !== 'rejected') {
+      throw new Error(`Invalid action: ${d.action}. Expected 'confirmed' or 'rejected'.`);
+    }
+  }
+  const decidedAt = new Date().toISOString();
+  const matchById = new Map<string, Record<string, any>>((session.result.matches || []).map((m: any) => [m.id, m]));
+  for (const d of decisions) {
+    // Verdicts teach the account's learned matching rules
+    learnFromMatch(session.account, session.id, matchById.get(d.match_id)!, d.action);
+    session.decisions[d.match_id] = {
+      match_id: d.match_id,
+      action: d.action,
+      note: d.note,
+      reviewer: d.reviewer,
+      decided_at: decidedAt,
+    };
+    session.review_log.push({ action: d.action, match_id: d.match_id, note: d.note, reviewer: d.reviewer, at: decidedAt });
+  }
+  return saveSession(session);
+}
+
+function requireNote(note: unknown): string {
+  if (typeof note !== 'string' || note.trim() === '') {
+    throw new Error('A reviewer note is required.');
+  }
+  return note.trim();
+}
+
+function sortedPairs(entries: Record<string, any>[], indices: number[]) {
+  return indices.map((idx, k) => ({ idx, entry: entries[k] })).sort((x, y) => x.idx - y.idx);
+}
+
+/**
+ * Pair unmatched File A rows with unmatched File B rows by hand
+ */
+export function createManualMatch(
+  session: Session,
+  aIdx: number[],
+  bIdx: number[],
+  note: unknown,
+  reviewer?: string
+): Session {
+  const text = requireNote(note);
+  const result = session.result;
+  if (!Array.isArray(aIdx) || !Array.isArray(bIdx) || aIdx.length === 0 || bIdx.length === 0) {
+    throw new Error('Select at least one File A row and one File B row.');
+  }
+  const unmatchedAIdx: number[] = result.unmatched_file_a_indices || [];
+  const unmatchedBIdx: number[] = result.unmatched_file_b_indices || [];
+  for (const i of aIdx) if (!unmatchedAIdx.includes(i)) throw new Error(`File A row ${i} is not unmatched.`);
+  for (const j of bIdx) if (!unmatchedBIdx.includes(j)) throw new Error(`File B row ${j} is not unmatched.`);
+
+  const a = [...new Set(aIdx)].sort((x, y) => x - y);
+  const b = [...new Set(bIdx)].sort((x, y) => x - y);
+  const entryA = (i: number) => result.unmatched_file_a_entries[unmatchedAIdx.indexOf(i)];
+  const entryB = (j: number) => result.unmatched_file_b_entries[unmatchedBIdx.indexOf(j)];
+  const id = matchId(a, b);
+  const type = a.length === 1 && b.length === 1 ? '1-to-1'
+    : a.length === 1 ? '1-to-many'
+    : b.length === 1 ? 'many-to-1'
+    : 'many-to-many';
+
+  const match = {
+    id,
+    type,
+    file_a_indices: a,
+    file_b_indices: b,
+    ...(a.length === 1 ? { file_a_entry: entryA(a[0]) } : { file_a_entries: a.map(entryA) }),
+    ...(b.length === 1 ? { file_b_entry: entryB(b[0]) } : { file_b_entries: b.map(entryB) }),
+    confidence_score: null,
+    match_reason: `Manual match: ${text}`,
+    manual: true,
+  };
+  result.matches.push(match);
+  learnFromMatch(session.account, session.id, match, 'confirmed');
+
+  const keepA = unmatchedAIdx.map((i, k) => ({ i, k })).filter(({ i }) => !a.includes(i));
+  const keepB = unmatchedBIdx.map((j, k) => ({ j, k })).filter(({ j }) => !b.includes(j));
+  result.unmatched_file_a_entries = keepA.map(({ k }) => result.unmatched_file_a_entries[k]);
+  result.unmatched_file_a_indices = keepA.map(({ i }) => i);
+  result.unmatched_file_b_entries = keepB.map(({ k }) => result.unmatched_file_b_entries[k]);
+  result.unmatched_file_b_indices = keepB.map(({ j }) => j);
+  for (const i of a) delete result.unmatched_file_a_exceptions?.[i];
+  for (const j of b) delete result.unmatched_file_b_exceptions?.[j];
+  markCarried(result.carry_forward, a, b, true);
+  // Rows settled by hand are no longer ambiguous
+  if (Array.isArray(result.ambiguous_matches)) {
+    result.ambiguous_matches = result.ambiguous_matches
+      .filter((x: any) => !a.includes(x.file_a_index))
+      .map((x: any) => ({ ...x, candidates: x.candidates.filter((c: any) => !b.includes(c.file_b_index)) }))
+      .filter((x: any) => x.candidates.length > 0);
+  }
+
+  session.review_log.push({ action: 'matched', match_id: id, note: text, reviewer, at: new Date().toISOString() });
+  return saveSession(session);
+}
+
+/**
+ * Break a match and send its rows back to the unmatched lists
+ */
+export function unmatch(session: Session, id: string, note: unknown, reviewer?: string): Session {
+  const text = requireNote(note);
+  const result = session.result;
+  const match = (result.matches || []).find((m: any) => m.id === id);
+  if (!match) throw new Error(`Unknown match id: ${id}`);
+
+  const entriesA = match.file_a_entry ? [match.file_a_entry] : match.file_a_entries;
+  const entriesB = match.file_b_entry ? [match.file_b_entry] : match.file_b_entries;
+  const pairsA = sortedPairs(
+    [...result.unmatched_file_a_entries, ...entriesA],
+    [...(result.unmatched_file_a_indices || []), ...match.file_a_indices]
+  );
+  const pairsB = sortedPairs(
+    [...result.unmatched_file_b_entries, ...entriesB],
+    [...(result.unmatched_file_b_indices || []), ...match.file_b_indices]
+  );
+  // A broken match counts against the patterns it showed
+  learnFromMatch(session.account, session.id, match, 'rejected');
+  result.matches = result.matches.filter((m: any) => m !== match);
+  result.unmatched_file_a_entries = pairsA.map(p => p.entry);
+  result.unmatched_file_a_indices = pairsA.map(p => p.idx);
+  result.unmatched_file_b_entries = pairsB.map(p => p.entry);
+  result.unmatched_file_b_indices = pairsB.map(p => p.idx);
+  const reopened = (entry: Record<string, any>): UnmatchedException => ({
+    reason: 'reviewer_unmatched',
+    detail: `Match ${id} was broken by a reviewer: ${text}`,
+    near_miss: null,
+    age_days: rowAge(entry, result.statement_end_date ?? null),
+  });
+  if (result.unmatched_file_a_exceptions) {
+    match.file_a_indices.forEach((i: number, k: number) => { result.unmatched_file_a_exceptions[i] = reopened(entriesA[k]); });
+  }
+  if (result.unmatched_file_b_exceptions) {
+    match.file_b_indices.forEach((j: number, k: number) => { result.unmatched_file_b_exceptions[j] = reopened(entriesB[k]); });
+  }
+  markCarried(result.carry_forward, match.file_a_indices, match.file_b_indices, false);
+  delete session.decisions[id];
+
+  session.review_log.push({ action: 'unmatched', match_id: id, note: text, reviewer, at: new Date().toISOString() });
+  return saveSession(session);
+}
+
+/**
+ * Mark a duplicate group (from duplicates_file_a / duplicates_file_b) as genuine or erroneous
+ */
+export function recordDuplicateDecision(
+  session: Session,
+  groupId: string,
+  status: unknown,
+  note?: string,
+  reviewer?: string
+): Session {
+  const groups: DuplicateGroup[] = [...(session.result.duplicates_file_a || []), ...(session.result.duplicates_file_b || [])];
+  if (!groups.some(g => g.id === groupId)) throw new Error(`Unknown duplicate group: ${groupId}`);
+  if (status !== 'genuine' && status !== 'erroneous') {
+    throw new Error(`Invalid status: ${status}. Expected 'genuine' or 'erroneous'.`);
+  }
+  const decidedAt = new Date().toISOString();
+  session.duplicate_decisions[groupId] = { group_id: groupId, status, note, reviewer, decided_at: decidedAt };
+  session.review_log.push({ action: `duplicate_${status}`, match_id: groupId, note, reviewer, at: decidedAt });
+  return saveSession(session);
+}
+
+// Route setup
+router.get('/sessions', (_req: Request, res: Response) => {
+  res.json({ sessions: listSessions() });
+});
+
+router.get('/sessions/:id', (req: Request, res: Response) => {
+  const session = getSession(String(req.params.id));
+  if (!session) {
+    res.status(404).json({ error: `Unknown session: ${req.params.id}` });
+    return;
+  }
+  res.json(session);
+});
+
+router.post('/sessions/:id/decisions', express.json(), (req: Request, res: Response) => {
+  const session = getSession(String(req.params.id));
+  if (!session) {
+    res.status(404).json({ error: `Unknown session: ${req.params.id}` });
+    return;
+  }
+  try {
+    // Accept a single decision or { decisions: [...] }
+    const decisions = Array.isArray(req.body?.decisions) ? req.body.decisions : [req.body];
+    const updated = recordDecisions(session, decisions);
+    res.json({ decisions: updated.decisions });
+  } catch (error: any) {
+    res.status(400).json({ error: error.message });
+  }
+});
+
+router.post('/sessions/:id/matches', express.json(), (req: Request, res: Response) => {
+  const session = getSession(String(req.params.id));
+  if (!session) {
+    res.status(404).json({ error: `Unknown session: ${req.params.id}` });
+    return;
+  }
+  try {
+    const { file_a_indices, file_b_indices, note, reviewer } = req.body || {};
+    res.json(createManualMatch(session, file_a_indices, file_b_indices, note, reviewer));
+  } catch (error: any) {
+    res.status(400).json({ error: error.message });
+  }
+});
+
+router.post('/sessions/:id/matches/:matchId/unmatch', express.json(), (req: Request, res: Response) => {
+  const session = getSession(String(req.params.id));
+  if (!session) {
+    res.status(404).json({ error: `Unknown session: ${req.params.id}` });
+    return;
+  }
+  try {
+    res.json(unmatch(session, String(req.params.matchId), req.body?.note, req.body?.reviewer));
+  } catch (error: any) {
+    res.status(400).json({ error: error.message });
+  }
+});
+
+router.post('/sessions/:id/duplicates/:groupId', express.json(), (req: Request, res: Response) => {
+  const session = getSession(String(req.params.id));
+  if (!session) {
+    res.status(404).json({ error: `Unknown session: ${req.params.id}` });
+    return;
+  }
+  try {
+    const updated = recordDuplicateDecision(session, String(req.params.groupId), req.body?.status, req.body?.note, req.body?.reviewer);
+    res.json({ duplicate_decisions: updated.duplicate_decisions });
+  } catch (error: any) {
+    res.status(400).json({ error: error.message });
+  }
+});
+
+router.delete('/sessions/:id', (req: Request, res: Response) => {
+  const id = String(req.params.id);
+  if (!SESSION_ID.test(id) || !deleteStore(storeName(id))) {
+    res.status(404).json({ error: `Unknown session: ${id}` });
+    return;
+  }
+  res.status(204).end();
+});
+
+export default router;
@@ -0,0 +1,93 @@
+import {
+  AMOUNT_TOLERANCE,
+  daysBetween,
+  getRowAmount,
+} from './normalize';
+import { descriptionSimilarity, descriptionText } from './matchers';
+
+const MAX_GROUP_SIZE = 5;   // Most rows a single split/batch may combine
+const MAX_POOL_SIZE = 25;   // Nearest-by-date rows searched per target
+const MAX_SEARCH_STEPS = 20_000; // Combinations tried per target before settling for the best so far
+const SPLIT_DATE_WINDOW = 7;
+
+export interface SplitGroup {
+  indices: number[];
+  confidence: number;
+  reason: string;
+}
+
+/**
+ * Find the subset of pool rows whose amounts sum to the target row's amount
+ * (within AMOUNT_TOLERANCE), preferring the group with the closest dates.
+ * Only groups of two or more rows are returned; 1-to-1 is handled elsewhere.
+ */
+export function findSplitGroup(
+  target: Record<string, any>,
+  pool: { row: Record<string, any>; idx: number }[],
+  dateWindow = SPLIT_DATE_WINDOW
+): SplitGroup | null {
+  const targetAmount = getRowAmount(target);
+  const targetDate = target['Date'];
+  if (isNaN(targetAmount) || targetAmount === 0 || !targetDate) return null;
+
+  // Candidate parts share the target's sign, are strictly smaller, and fall in the
+  // date window; the nearest by date (then the largest) are searched
+  const targetText = descriptionText(target);
+  const parts = pool
+    .map(({ row, idx }) => ({
+      idx,
+      row,
+      amount: getRowAmount(row),
+      days: row['Date'] ? daysBetween(targetDate, row['Date']) : NaN,
+    }))
+    .filter(p =>
+      !isNaN(p.amount) &&
+      !isNaN(p.days) &&
+      p.days <= dateWindow &&
+      Math.sign(p.amount) === Math.sign(targetAmount) &&
+      Math.abs(p.amount) < Math.abs(targetAmount) - AMOUNT_TOLERANCE
+    )
+    .sort((x, y) => x.days - y.days || Math.abs(y.amount) - Math.abs(x.amount))
+    .slice(0, MAX_POOL_SIZE)
+    .map(({ row, ...p }) => ({ ...p, desc: descriptionSimilarity(targetText, descriptionText(row)) }))
+    .sort((x, y) => Math.abs(y.amount) - Math.abs(x.amount));
+
+  let best: { chosen: typeof parts; confidence: number } | null = null;
+  const chosen: typeof parts = [];
+  const goal = Math.abs(targetAmount);
+  // What the parts from k on add up to at most, to stop once the goal is out of reach
+  const remaining = parts.map(p => Math.abs(p.amount));
+  for (let k = remaining.length - 2; k >= 0; k--) remaining[k] += remaining[k + 1];
+  let steps = 0;
+
+  const search = (start: number, sum: number) => {
+    if (chosen.length >= 2 && Math.abs(sum - goal) <= AMOUNT_TOLERANCE) {
+      const avgDate = chosen.reduce((s, p) => s + (1 - p.days / Math.max(dateWindow, 1)), 0) / chosen.length;
+      const avgDesc = chosen.reduce((s, p) => s + p.desc, 0) / chosen.length;
+      const confidence = 0.75 + 0.2 * avgDate + 0.05 * avgDesc;
+      if (!best || confidence > best.confidence) best = { chosen: [...chosen], confidence };
+      return;
+    }
+    if (chosen.length >= MAX_GROUP_SIZE) return;
+    for (let k = start; k < parts.length; k++) {
+      if (sum + remaining[k] < goal - AMOUNT_TOLERANCE || ++steps > MAX_SEARCH_STEPS) return;
+      const next = sum + Math.abs(parts[k].amount);
+      if (next > goal + AMOUNT_TOLERANCE) continue;
+      chosen.push(parts[k]);
+      search(k + 1, next);
+      chosen.pop();
+    }
+  };
+  search(0, 0);
+
+  if (!best) return null;
+  const { chosen: group, confidence } = best as { chosen: typeof parts; confidence: number };
+  const maxDays = Math.max(...group.map(p => p.days));
+  return {
+    indices: group.map(p => p.idx),
+    confidence,
+    reason: `${group.length} entries sum to ${targetAmount.toFixed(2)} (${group
+      .map(p => p.amount.toFixed(2))
+      .join(' + ')}), all within ${maxDays} day(s)`,
+  };
+}
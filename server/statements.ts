@@ -0,0 +1,309 @@
+import { parseAmount } from './normalize';
+
+/**
+ * Bank statement formats recognised by content
+ */
+export type StatementFormat = 'ofx' | 'mt940' | 'camt053' | 'bai2';
+
+// Rows use the canonical column names, so the auto mapping picks them up as-is
+type StatementRow = Record<string, any>;
+
+/**
+ * Which statement format a file is in, from its first bytes (null if none)
+ */
+export function detectStatementFormat(text: string): StatementFormat | null {
+  const head = text.slice(0, 4096).replace(/^﻿/, '').trimStart();
+  if (/^OFXHEADER\s*:|<\?OFX\b|<OFX>/i.test(head)) return 'ofx';
+  if (/^<\?xml[\s\S]*camt\.053|<(?:\w+:)?BkToCstmrStmt\b/.test(head)) return 'camt053';
+  if (/^01,[^\n]*\/\s*$/m.test(head.split(/\r?\n/)[0]) && /^(02|03|16),/m.test(head)) return 'bai2';
+  if (/^:20:/m.test(head) && /^:(25|60[FM]|61):/m.test(head)) return 'mt940';
+  return null;
+}
+
+/**
+ * Parse a bank statement into canonical rows
+ */
+export function parseStatement(text: string, format: StatementFormat): StatementRow[] {
+  switch (format) {
+    case 'ofx': return parseOfx(text);
+    case 'mt940': return parseMt940(text);
+    case 'camt053': return parseCamt053(text);
+    case 'bai2': return parseBai2(text);
+  }
+}
+
+// ISO, so a declared date order never applies to statement dates
+function formatDate(y: number, m: number, d: number): string {
+  return `${y}-${String(m).padStart(2, '0')}-${String(d).padStart(2, '0')}`;
+}
+
+// YYYYMMDD or YYYY-MM-DD (time and zone ignored)
+function isoDate(value: string | undefined): string {
+  const match = value?.match(/^(\d{4})-?(\d{2})-?(\d{2})/);
+  return match ? formatDate(+match[1], +match[2], +match[3]) : '';
+}
+
+// YYMMDD, with 2-digit years in 1950-2049
+function yymmdd(value: string): { y: number; m: number; d: number } {
+  const yy = +value.slice(0, 2);
+  return { y: yy < 50 ? 2000 + yy : 1900 + yy, m: +value.slice(2, 4), d: +value.slice(4, 6) };
+}
+
+function compact(row: StatementRow): StatementRow {
+  return Object.fromEntries(Object.entries(row).filter(([, v]) => v !== undefined && v !== ''));
+}
+
+// ---- OFX / QFX (SGML 1.x and XML 2.x) ----
+
+function ofxField(block: string, tag: string): string | undefined {
+  // SGML leaves elements unclosed, so read up to the next tag or line end
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match ? decodeXml(match[1].trim()) : undefined;
+}
+
+function parseOfx(text: string): StatementRow[] {
+  const rows: StatementRow[] = [];
+  // One statement per bank or credit card account
+  const statements = text.match(/<(STMTRS|CCSTMTRS)>[\s\S]*?<\/\1>/gi) || [text];
+  for (const statement of statements) {
+    const currency = ofxField(statement, 'CURDEF');
+    const account = ofxField(statement, 'ACCTID');
+    for (const trn of statement.match(/<STMTTRN>[\s\S]*?<\/STMTTRN>/gi) || []) {
+      const name = ofxField(trn, 'NAME');
+      const memo = ofxField(trn, 'MEMO');
+      rows.push(compact({
+        Date: isoDate(ofxField(trn, 'DTPOSTED')),
+        'Transaction Date': isoDate(ofxField(trn, 'DTUSER')),
+        Amount: parseAmount(ofxField(trn, 'TRNAMT'), '.'),
+        Currency: ofxField(trn, 'CURSYM') || currency,
+        Reference: ofxField(trn, 'CHECKNUM') || ofxField(trn, 'REFNUM'),
+        Counterparty: name,
+        Description: memo || name,
+        Type: ofxField(trn, 'TRNTYPE'),
+        'Bank Reference': ofxField(trn, 'FITID'),
+        Account: account,
+      }));
+    }
+  }
+  return rows;
+}
+
+// ---- SWIFT MT940 ----
+
+// :61: value date, optional entry date, D/C mark (R = reversal), funds code, amount,
+// transaction type, reference for the account owner, optional //bank reference
+const MT940_LINE = /^(\d{6})(\d{4})?(RC|RD|C|D)([A-Z])?(\d+,\d*)([A-Z][A-Z0-9]{3})(.*?)(?:\/\/(.*))?$/;
+
+/**
+ * Counterparty and free text from a :86: field, either German ?-subfields
+ * (?20-?29 purpose, ?32-?33 name) or SWIFT /CODE/ subfields
+ */
+function mt940Details(info: string): { counterparty?: string; description: string } {
+  const flat = info.replace(/\r?\n/g, '');
+  if (/\?\d\d/.test(flat)) {
+    const sub: Record<string, string> = {};
+    for (const m of flat.matchAll(/\?(\d\d)([^?]*)/g)) sub[m[1]] = (sub[m[1]] || '') + m[2];
+    const purpose = Object.keys(sub).filter(k => k >= '20' && k <= '29').sort().map(k => sub[k].trim()).join(' ');
+    const name = [sub['32'], sub['33']].filter(Boolean).join('');
+    return { counterparty: name || undefined, description: (purpose || sub['00'] || '').trim() };
+  }
+  const name = flat.match(/\/NAME\/([^/]*)/)?.[1];
+  const remittance = flat.match(/\/REMI\/(?:USTD\/\/)?([^/]*)/)?.[1];
+  return { counterparty: name?.trim() || undefined, description: (remittance || flat).trim() };
+}
+
+function parseMt940(text: string): StatementRow[] {
+  // Join continuation lines onto their field
+  const fields: { tag: string; value: string }[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    const tagged = line.match(/^:(\d\d[A-Z]?):(.*)$/);
+    if (tagged) fields.push({ tag: tagged[1], value: tagged[2] });
+    else if (fields.length > 0 && !/^-\}?$|^\{/.test(line.trim())) fields[fields.length - 1].value += `\n${line}`;
+  }
+
+  const rows: StatementRow[] = [];
+  let account: string | undefined;
+  let currency: string | undefined;
+  let current: StatementRow | null = null;
+  const flush = () => {
+    if (current) rows.push(compact(current));
+    current = null;
+  };
+  for (const { tag, value } of fields) {
+    if (tag === '25') {
+      flush();
+      account = value.trim();
+    } else if (tag === '60F' || tag === '60M') {
+      flush();
+      currency = value.match(/^[CD]\d{6}([A-Z]{3})/)?.[1];
+    } else if (tag === '61') {
+      flush();
+      const [first, ...rest] = value.split('\n');
+      const m = first.trim().match(MT940_LINE);
+      if (!m) continue;
+      const valueDate = yymmdd(m[1]);
+      let date = valueDate;
+      if (m[2]) {
+        // The entry date has no year; it can fall in the year before or after the value date
+        const em = +m[2].slice(0, 2);
+        const y = em - valueDate.m > 6 ? valueDate.y - 1 : valueDate.m - em > 6 ? valueDate.y + 1 : valueDate.y;
+        date = { y, m: em, d: +m[2].slice(2, 4) };
+      }
+      const amount = parseAmount(m[5], ',');
+      const negative = m[3] === 'D' || m[3] === 'RC';
+      const ownerRef = m[7].trim();
+      current = {
+        Date: formatDate(date.y, date.m, date.d),
+        'Value Date': formatDate(valueDate.y, valueDate.m, valueDate.d),
+        Amount: negative ? -amount : amount,
+        Currency: currency,
+        Reference: ownerRef && ownerRef !== 'NONREF' ? ownerRef : undefined,
+        Type: m[6],
+        'Bank Reference': m[8]?.trim(),
+        Description: rest.join(' ').trim(),
+        Account: account,
+      };
+    } else if (tag === '86' && current) {
+      const { counterparty, description } = mt940Details(value);
+      current.Counterparty = counterparty;
+      current.Description = [description, current.Description].filter(Boolean).join(' ');
+      flush();
+    } else if (tag === '62F' || tag === '62M') {
+      flush();
+    }
+  }
+  flush();
+  return rows;
+}
+
+// ---- ISO 20022 camt.053 ----
+
+function decodeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, n) => String.fromCharCode(+n))
+    .replace(/&amp;/g, '&');
+}
+
+// All elements with this name (any namespace prefix), as raw inner XML
+function xmlElements(xml: string, name: string): string[] {
+  const re = new RegExp(`<(?:\\w+:)?${name}(?:\\s[^>]*)?>([\\s\\S]*?)</(?:\\w+:)?${name}>`, 'g');
+  return [...xml.matchAll(re)].map(m => m[1]);
+}
+
+// Text of the first element along a path of nested names
+function xmlText(xml: string | undefined, ...path: string[]): string | undefined {
+  let node = xml;
+  for (const name of path) {
+    if (node === undefined) return undefined;
+    node = xmlElements(node, name)[0];
+  }
+  return node === undefined ? undefined : decodeXml(node.replace(/<[^>]+>/g, '').trim());
+}
+
+function parseCamt053(text: string): StatementRow[] {
+  const rows: StatementRow[] = [];
+  for (const stmt of xmlElements(text, 'Stmt')) {
+    const acct = xmlElements(stmt, 'Acct')[0];
+    // Id nests another Id under Othr, so look below it directly
+    const account = xmlText(acct, 'IBAN') || xmlText(acct, 'Othr', 'Id');
+    const accountCurrency = xmlText(acct, 'Ccy');
+    for (const entry of xmlElements(stmt, 'Ntry')) {
+      // Entry-level amount and direction come before the transaction details
+      const [entryHead, details = ''] = entry.split(/<(?:\w+:)?NtryDtls\b/);
+      const amountTag = entryHead.match(/<(?:\w+:)?Amt\b(?:[^>]*?\bCcy="([A-Z]{3})")?[^>]*>([^<]+)</);
+      const amount = parseAmount(amountTag?.[2], '.');
+      const credit = xmlText(entryHead, 'CdtDbtInd') !== 'DBIT';
+      const tx = xmlElements(details, 'TxDtls')[0] || details;
+      const parties = xmlElements(tx, 'RltdPties')[0];
+      // Money in names the debtor, money out the creditor
+      const counterparty = credit
+        ? xmlText(parties, 'Dbtr', 'Nm') || xmlText(parties, 'Dbtr', 'Pty', 'Nm')
+        : xmlText(parties, 'Cdtr', 'Nm') || xmlText(parties, 'Cdtr', 'Pty', 'Nm');
+      const endToEnd = xmlText(tx, 'Refs', 'EndToEndId');
+      const remittance = xmlElements(tx, 'Ustrd').map(u => decodeXml(u.trim())).join(' ');
+      rows.push(compact({
+        Date: isoDate(xmlText(entryHead, 'BookgDt', 'Dt') || xmlText(entryHead, 'BookgDt', 'DtTm')),
+        'Value Date': isoDate(xmlText(entryHead, 'ValDt', 'Dt') || xmlText(entryHead, 'ValDt', 'DtTm')),
+        Amount: credit ? amount : -amount,
+        Currency: amountTag?.[1] || accountCurrency,
+        Reference: xmlText(tx, 'CdtrRefInf', 'Ref')
+          || (endToEnd && endToEnd !== 'NOTPROVIDED' ? endToEnd : undefined)
+          || xmlText(tx, 'Refs', 'InstrId'),
+        Counterparty: counterparty,
+        Description: remittance || xmlText(entryHead, 'AddtlNtryInf'),
+        Type: xmlText(entryHead, 'BkTxCd', 'Prtry', 'Cd') || xmlText(entryHead, 'BkTxCd', 'Domn', 'Fmly', 'SubFmlyCd'),
+        'Bank Reference': xmlText(entryHead, 'AcctSvcrRef') || xmlText(entryHead, 'NtryRef'),
+        Account: account,
+      }));
+    }
+  }
+  return rows;
+}
+
+// ---- BAI2 ----
+
+function parseBai2(text: string): StatementRow[] {
+  // Records end with "/"; 88 records continue the previous one
+  const records: string[][] = [];
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim().replace(/\/$/, '');
+    if (line === '') continue;
+    if (line.startsWith('88,') && records.length > 0) {
+      const previous = records[records.length - 1];
+      // Continued 16 text reads on; other records take more fields
+      if (previous[0] === '16') previous[previous.length - 1] += ` ${line.slice(3)}`;
+      else previous.push(...line.slice(3).split(','));
+    } else {
+      records.push(line.split(','));
+    }
+  }
+
+  const rows: StatementRow[] = [];
+  let groupDate = '';
+  let groupCurrency = 'USD';
+  let account = '';
+  let currency = 'USD';
+  for (const fields of records) {
+    const code = fields[0];
+    if (code === '02') {
+      if (/^\d{6}$/.test(fields[4] || '')) {
+        const d = yymmdd(fields[4]);
+        groupDate = formatDate(d.y, d.m, d.d);
+      }
+      groupCurrency = fields[6] || 'USD';
+    } else if (code === '03') {
+      account = fields[1];
+      currency = fields[2] || groupCurrency;
+    } else if (code === '16') {
+      const typeCode = +fields[1];
+      let k = 3;
+      const fundsType = (fields[k++] || '').toUpperCase();
+      // Funds availability adds fields before the references
+      if (fundsType === 'S') k += 3;
+      else if (fundsType === 'V') k += 2;
+      else if (fundsType === 'D') k += 1 + 2 * (+fields[k] || 0);
+      const bankRef = fields[k++];
+      const customerRef = fields[k++];
+      const description = fields.slice(k).join(',').trim();
+      // Amounts carry no decimal point: two implied decimals
+      const amount = (+fields[2] || 0) / 100;
+      // Type codes 100-399 are credits, 400-699 debits
+      const debit = typeCode >= 400 && typeCode < 700;
+      rows.push(compact({
+        Date: groupDate,
+        Amount: debit ? -amount : amount,
+        Currency: currency,
+        Reference: customerRef,
+        Description: description,
+        Type: fields[1],
+        'Bank Reference': bankRef,
+        Account: account,
+      }));
+    }
+  }
+  return rows;
+}
@@ -0,0 +1,46 @@
+import fs from 'fs';
+import path from 'path';
+
+// Local JSON stores live here; override with DATA_DIR for deployments
+const DATA_DIR = path.resolve(process.env.DATA_DIR || 'data');
+
+function storePath(name: string): string {
+  return path.join(DATA_DIR, `${name}.json`);
+}
+
+/**
+ * Read a named JSON store, returning the fallback if it does not exist yet
+ */
+export function readStore<T>(name: string, fallback: T): T {
+  const file = storePath(name);
+  if (!fs.existsSync(file)) return fallback;
+  return JSON.parse(fs.readFileSync(file, 'utf-8')) as T;
+}
+
+/**
+ * Write a named JSON store atomically (write to temp file, then rename)
+ */
+export function writeStore<T>(name: string, value: T): void {
+  fs.mkdirSync(DATA_DIR, { recursive: true });
+  const file = storePath(name);
+  const tmp = `${file}.${process.pid}.tmp`;
+  fs.writeFileSync(tmp, JSON.stringify(value, null, 2));
+  fs.renameSync(tmp, file);
+}
+
+/**
+ * Names of the stores starting with a prefix
+ */
+export function listStores(prefix: string): string[] {
+  if (!fs.existsSync(DATA_DIR)) return [];
+  return fs.readdirSync(DATA_DIR)
+    .filter(f => f.startsWith(prefix) && f.endsWith('.json'))
+    .map(f => f.slice(0, -'.json'.length));
+}
+
+export function deleteStore(name: string): boolean {
+  const file = storePath(name);
+  if (!fs.existsSync(file)) return false;
+  fs.unlinkSync(file);
+  return true;
+}
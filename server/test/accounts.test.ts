@@ -0,0 +1,77 @@
+import './helpers';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { reconcile, runOutput } from '../reconcile';
+import { getMatcher } from '../matchers';
+import { createSession } from '../sessions';
+import { ValidationError } from '../config';
+import { PeriodSpec, listAccounts, outstandingReport, parsePeriodSpec, withCarryForward } from '../accounts';
+
+// Reconcile one period of an account the way a run does, and save it
+async function runPeriod(spec: PeriodSpec, rowsA: Record<string, any>[], rowsB: Record<string, any>[]) {
+  const carried = withCarryForward(spec, rowsA, rowsB);
+  const result = await reconcile(carried.rowsA, carried.rowsB, getMatcher('rules'));
+  const output = runOutput(result, { column_mappings: {}, carry_forward: carried.carryForward });
+  return createSession(output, 'ledger.csv', 'bank.csv', undefined, spec);
+}
+
+test('account and period are both needed, in the expected format', () => {
+  assert.equal(parsePeriodSpec({}), null);
+  assert.deepEqual(parsePeriodSpec({ account: ' Main ', period: '2025-01' }), { account: 'Main', period: '2025-01' });
+  assert.deepEqual(parsePeriodSpec({ account: 'Main', period: '2025-01-15' })?.period, '2025-01-15');
+  for (const body of [
+    { period: '2025-01' },
+    { account: 'Main' },
+    { account: 'Main', period: '2025-13' },
+    { account: 'Main', period: 'January' },
+    { account: 'x'.repeat(101), period: '2025-01' },
+  ]) {
+    assert.throws(() => parsePeriodSpec(body), ValidationError, JSON.stringify(body));
+  }
+});
+
+test('open items carry into the next period and clear when matched there', async () => {
+  const account = 'Operating';
+  const january = await runPeriod(
+    { account, period: '2025-01' },
+    [
+      { Date: '01/05/2025', Description: 'Coffee', Amount: '50' },
+      { Date: '01/28/2025', Description: 'Deposit', Amount: '75' },
+      { Date: '01/30/2025', Description: 'Cheque 1042', Amount: '300' },
+    ],
+    [{ Date: '01/05/2025', Description: 'Coffee', Amount: '50' }]
+  );
+  assert.deepEqual(january.result.unmatched_file_a_indices, [1, 2]);
+  assert.equal(january.result.carry_forward.prior_session_id, null);
+
+  const rowsA = [{ Date: '02/01/2025', Description: 'Rent', Amount: '900' }];
+  const carried = withCarryForward({ account, period: '2025-02' }, rowsA, []);
+  assert.equal(carried.rowsA.length, 3);
+  assert.deepEqual(carried.carryForward.file_a[2], {
+    from_session: january.id,
+    from_period: '2025-01',
+    from_index: 2,
+    opened_period: '2025-01',
+    cleared_period: null,
+  });
+
+  const february = await runPeriod({ account, period: '2025-02' }, rowsA, [
+    { Date: '02/02/2025', Description: 'Cheque 1042', Amount: '300' },
+    { Date: '02/01/2025', Description: 'Rent', Amount: '900' },
+  ]);
+  assert.equal(february.result.carry_forward.file_a[2].cleared_period, '2025-02');
+  assert.equal(february.result.carry_forward.file_a[1].cleared_period, null);
+
+  const report = outstandingReport(account)!;
+  assert.equal(report.period, '2025-02');
+  assert.deepEqual(report.periods, ['2025-01', '2025-02']);
+  assert.deepEqual(report.items.map(i => [i.file, i.entry.Description, i.opened_period, i.periods_open]), [['A', 'Deposit', '2025-01', 2]]);
+  assert.deepEqual(report.cleared.map(c => [c.file, c.index, c.from_period, c.match_id, c.entry?.Description]), [
+    ['A', 2, '2025-01', 'A2-B0', 'Cheque 1042'],
+  ]);
+
+  const listed = listAccounts().find(a => a.account === account)!;
+  assert.equal(listed.latest_session_id, february.id);
+  assert.equal(listed.open_items, 1);
+  assert.equal(outstandingReport('Nobody'), null);
+});
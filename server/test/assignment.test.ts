@@ -0,0 +1,46 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { assignOptimal } from '../assignment';
+
+const pairs = (edges: { a: number; b: number }[]) => edges.map(e => `${e.a}-${e.b}`).sort();
+
+test('maximizes total confidence instead of taking each row greedily', () => {
+  // Greedy would give B0 to A0 (0.9) and leave A1 with B1 (0.1)
+  const { assigned, ambiguous } = assignOptimal([
+    { a: 0, b: 0, confidence: 0.9 },
+    { a: 0, b: 1, confidence: 0.85 },
+    { a: 1, b: 0, confidence: 0.88 },
+    { a: 1, b: 1, confidence: 0.1 },
+  ]);
+  assert.deepEqual(pairs(assigned), ['0-1', '1-0']);
+  assert.deepEqual(ambiguous, []);
+});
+
+test('independent rows are assigned separately', () => {
+  const { assigned } = assignOptimal([
+    { a: 0, b: 5, confidence: 0.9 },
+    { a: 1, b: 6, confidence: 0.9 },
+  ]);
+  assert.deepEqual(pairs(assigned), ['0-5', '1-6']);
+});
+
+test('tied alternatives are left for review with their competing edges', () => {
+  const { assigned, ambiguous } = assignOptimal([
+    { a: 0, b: 0, confidence: 0.9 },
+    { a: 0, b: 1, confidence: 0.9 },
+    { a: 1, b: 0, confidence: 0.9 },
+    { a: 1, b: 1, confidence: 0.9 },
+  ]);
+  assert.deepEqual(assigned, []);
+  assert.deepEqual(ambiguous.map(x => x.a).sort(), [0, 1]);
+  assert.deepEqual(ambiguous[0].edges.map(e => e.b).sort(), [0, 1]);
+});
+
+test('a row contested by a single candidate is ambiguous', () => {
+  const { assigned, ambiguous } = assignOptimal([
+    { a: 0, b: 0, confidence: 0.95 },
+    { a: 1, b: 0, confidence: 0.95 },
+  ]);
+  assert.deepEqual(assigned, []);
+  assert.deepEqual(ambiguous.map(x => x.a).sort(), [0, 1]);
+});
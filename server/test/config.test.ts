@@ -0,0 +1,66 @@
+import './helpers';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import express from 'express';
+import { AddressInfo } from 'net';
+import { DEFAULT_CONFIG, ValidationError, parseReconcileOptions, resolveConfig } from '../config';
+import reconcileRouter from '../reconcile';
+
+test('form fields override the JSON config and are typed', () => {
+  const options = parseReconcileOptions({
+    config: JSON.stringify({ dateWindowDays: 3, currencyPolicy: 'same' }),
+    dateWindowDays: '5',
+    signMode: ' opposite ',
+  });
+  assert.deepEqual(options, { dateWindowDays: 5, currencyPolicy: 'same', signMode: 'opposite' });
+  assert.deepEqual(resolveConfig({}), DEFAULT_CONFIG);
+});
+
+test('unusable settings are validation errors', () => {
+  for (const body of [
+    { config: 'null' },
+    { config: '5' },
+    { config: '[1]' },
+    { config: '{not json' },
+    { dateWindowDays: 'soon' },
+    { dateWindowDays: '-1' },
+    { confidenceThreshold: '1.5' },
+    { currencyPolicy: 'sometimes' },
+    { currencyPolicy: 'convert' },
+    { statementEndDate: 'someday' },
+  ]) {
+    assert.throws(() => parseReconcileOptions(body), ValidationError, JSON.stringify(body));
+  }
+});
+
+test('a reporting currency implies conversion and needs FX rates', () => {
+  const config = resolveConfig({ reportingCurrency: 'eur', fxRates: new Map() });
+  assert.equal(config.currencyPolicy, 'convert');
+  assert.equal(config.reportingCurrency, 'EUR');
+  const saved = process.env.FX_RATES_FILE;
+  delete process.env.FX_RATES_FILE;
+  try {
+    assert.throws(() => parseReconcileOptions({ reportingCurrency: 'EUR' }), /FX rate table/);
+  } finally {
+    if (saved !== undefined) process.env.FX_RATES_FILE = saved;
+  }
+});
+
+test('POST /reconcile answers an unusable config with 400', async () => {
+  const app = express();
+  app.use(reconcileRouter);
+  const server = app.listen(0);
+  try {
+    const { port } = server.address() as AddressInfo;
+    const form = new FormData();
+    form.append('fileA', new Blob(['Date,Description,Amount\n01/05/2025,Coffee,50\n']), 'a.csv');
+    form.append('fileB', new Blob(['Date,Description,Amount\n01/05/2025,Coffee,50\n']), 'b.csv');
+    form.append('engine', 'rules');
+    form.append('config', 'null');
+    const response = await fetch(`http://127.0.0.1:${port}/reconcile`, { method: 'POST', body: form });
+    assert.equal(response.status, 400);
+    assert.match((await response.json()).error, /Invalid config/);
+  } finally {
+    server.close();
+  }
+});
@@ -0,0 +1,44 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { duplicateExtras, findDuplicates } from '../duplicates';
+
+test('rows with the same amount, close dates and similar descriptions form a group', () => {
+  const groups = findDuplicates([
+    { Date: '01/05/2025', Description: 'Office supplies order', Amount: '120.00' },
+    { Date: '01/05/2025', Description: 'Coffee', Amount: '4.50' },
+    { Date: '01/06/2025', Description: 'Office supplies order', Amount: '120.00' },
+    { Date: '01/20/2025', Description: 'Office supplies order', Amount: '120.00' },
+  ], 'A');
+  assert.equal(groups.length, 1);
+  assert.equal(groups[0].id, 'A0+A2');
+  assert.deepEqual(groups[0].indices, [0, 2]);
+  assert.equal(groups[0].reason, '2 rows: same amount, dates 1 day(s) apart, descriptions 100% similar');
+  assert.equal(groups[0].confidence, 0.7);
+});
+
+test('rows linked through another row end up in one group', () => {
+  const groups = findDuplicates([
+    { Date: '01/01/2025', Description: 'Cloud hosting', Amount: '99' },
+    { Date: '01/03/2025', Description: 'Cloud hosting', Amount: '99' },
+    { Date: '01/05/2025', Description: 'Cloud hosting', Amount: '99' },
+  ], 'B');
+  assert.deepEqual(groups.map(g => g.id), ['B0+B1+B2']);
+  assert.deepEqual([...duplicateExtras(groups)], [1, 2]);
+});
+
+test('a shared reference outweighs the description, a different one rules a pair out', () => {
+  const groups = findDuplicates([
+    { Date: '01/05/2025', Description: 'Payment', Reference: 'INV-7', Amount: '500' },
+    { Date: '01/05/2025', Description: 'Transfer received', Reference: 'INV-7', Amount: '500' },
+    { Date: '01/05/2025', Description: 'Payment', Reference: 'INV-8', Amount: '500' },
+    { Date: '01/05/2025', Description: 'Payment', Currency: 'EUR', Amount: '500' },
+    { Date: '01/05/2025', Description: 'Stationery', Amount: '500' },
+  ], 'A');
+  assert.deepEqual(groups.map(g => g.id), ['A0+A1']);
+  assert.match(groups[0].reason, /same reference INV-7/);
+});
+
+test('a file without duplicates has no groups', () => {
+  assert.deepEqual(findDuplicates([{ Date: '01/05/2025', Description: 'Rent', Amount: 'n/a' }, { Date: '01/05/2025', Description: 'Rent', Amount: 'n/a' }], 'A'), []);
+  assert.equal(duplicateExtras([]).size, 0);
+});
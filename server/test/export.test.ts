@@ -0,0 +1,64 @@
+import './helpers';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import xlsx from 'xlsx';
+import { reconcile } from '../reconcile';
+import { getMatcher } from '../matchers';
+import { createSession, recordDecisions } from '../sessions';
+import { buildCsv, exportSession, summarizeSession } from '../export';
+
+const rowsA = [
+  { Date: '01/05/2025', Description: 'Coffee', Amount: '50' },
+  { Date: '01/06/2025', Description: '=HYPERLINK("http://x")', Amount: '-12.50' },
+  { Date: '01/20/2025', Description: '@SUM(A1:A2)', Amount: '9000' },
+];
+const rowsB = [
+  { Date: '01/05/2025', Description: 'Coffee', Amount: '50' },
+  { Date: '01/09/2025', Description: '+1 555 0100', Amount: '418' },
+];
+
+async function newSession() {
+  const result = await reconcile(rowsA, rowsB, getMatcher('rules'));
+  return createSession(result, 'ledger.csv', 'bank.csv');
+}
+
+test('the summary counts matches and decisions and nets the totals', async () => {
+  const session = await newSession();
+  recordDecisions(session, [{ match_id: 'A0-B0', action: 'confirmed' }]);
+  const summary = summarizeSession(session);
+  assert.deepEqual(
+    [summary.matched, summary.unmatched_a, summary.unmatched_b, summary.confirmed, summary.rejected],
+    [1, 2, 1, 1, 0]
+  );
+  assert.equal(summary.total_a, 9037.5);
+  assert.equal(summary.total_b, 468);
+  assert.equal(summary.matched_total_a, 50);
+  assert.equal(summary.unreconciled_difference, 8569.5);
+});
+
+test('CSV cells that would open as formulas are escaped, signed numbers are not', async () => {
+  const rows = xlsx.utils.sheet_to_json<Record<string, string>>(
+    xlsx.read(buildCsv(await newSession()), { type: 'string', raw: true }).Sheets.Sheet1,
+    { raw: false }
+  );
+  const descriptions = rows.map(r => r.Description);
+  assert.ok(descriptions.includes(`'=HYPERLINK("http://x")`));
+  assert.ok(descriptions.includes(`'@SUM(A1:A2)`));
+  assert.ok(descriptions.includes(`'+1 555 0100`));
+  assert.ok(rows.some(r => r.Amount === '-12.50'));
+  assert.deepEqual(rows.map(r => [r.Status, r.File]), [
+    ['matched', 'A'],
+    ['matched', 'B'],
+    ['unmatched', 'A'],
+    ['unmatched', 'A'],
+    ['unmatched', 'B'],
+  ]);
+});
+
+test('every format renders a file of its kind', async () => {
+  const session = await newSession();
+  const workbook = xlsx.read(exportSession(session, 'xlsx'));
+  assert.deepEqual(workbook.SheetNames, ['Summary', 'Matched', 'Unmatched A', 'Unmatched B', 'Review Log']);
+  assert.equal(exportSession(session, 'pdf').subarray(0, 5).toString(), '%PDF-');
+  assert.match(exportSession(session, 'csv').toString('utf8'), /^Status,Match ID,/);
+});
@@ -0,0 +1,60 @@
+import { upload } from './helpers';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildFxTable, describeFx, lookupRate, withReportingCurrency } from '../fx';
+import { ValidationError, parseReconcileOptions } from '../config';
+
+const table = buildFxTable([
+  { Date: '01/01/2025', Pair: 'EUR/USD', Rate: '1.05' },
+  { Date: '01/10/2025', Pair: 'EUR/USD', Rate: '1,085' },
+  { Date: '01/01/2025', Pair: 'GBP/USD', Rate: 1.25 },
+]);
+
+test('uses the latest rate on or before the date', () => {
+  assert.deepEqual(lookupRate(table, 'EUR', 'USD', '01/05/2025'), { rate: 1.05, date: '01/01/2025' });
+  assert.deepEqual(lookupRate(table, 'EUR', 'USD', '01/15/2025'), { rate: 1.085, date: '01/10/2025' });
+  assert.equal(lookupRate(table, 'EUR', 'USD', '12/31/2024'), null);
+  assert.deepEqual(lookupRate(table, 'USD', 'USD', '01/05/2025'), { rate: 1, date: null });
+});
+
+test('inverts the pair when only the other direction is published', () => {
+  assert.deepEqual(lookupRate(table, 'USD', 'GBP', '01/05/2025'), { rate: 1 / 1.25, date: '01/01/2025' });
+  assert.equal(lookupRate(table, 'EUR', 'GBP', '01/05/2025'), null);
+});
+
+test('rates are decimals; grouped or unreadable rates are rejected', () => {
+  const fromTo = buildFxTable([{ Date: '2025-01-01', From: 'eur', To: 'usd', Rate: '1,085' }]);
+  assert.equal(fromTo.get('EUR/USD')![0].rate, 1.085);
+  for (const rate of ['1,085.50', '1.000,5', 'n/a', '0', '-1.2']) {
+    assert.throws(() => buildFxTable([{ Date: '01/01/2025', Pair: 'EUR/USD', Rate: rate }]), /Invalid FX rate/, rate);
+  }
+  assert.throws(() => buildFxTable([{ Day: '01/01/2025', Rate: '1.1' }]), /needs Date, Rate/);
+});
+
+test('an unreadable uploaded table is a validation error', () => {
+  const fxFile = upload('rates.csv', 'Date,Pair,Rate\n01/01/2025,EUR/USD,"1,085.50"\n');
+  assert.throws(() => parseReconcileOptions({ reportingCurrency: 'USD' }, fxFile), ValidationError);
+  const options = parseReconcileOptions({ reportingCurrency: 'USD' }, upload('rates.csv', 'Date,Pair,Rate\n01/01/2025,EUR/USD,1.1\n'));
+  assert.equal(options.fxRates?.get('EUR/USD')?.[0].rate, 1.1);
+});
+
+test('rows are converted into the reporting currency, keeping the original', () => {
+  const row = withReportingCurrency({ Date: '01/05/2025', Amount: '100', Currency: 'EUR' }, table, 'USD');
+  assert.deepEqual(
+    [row.Amount, row.Currency, row['Original Amount'], row['Original Currency'], row['FX Rate']],
+    [105, 'USD', 100, 'EUR', 1.05]
+  );
+  const missing = withReportingCurrency({ Date: '01/05/2025', Amount: '100', Currency: 'JPY' }, table, 'USD');
+  assert.equal(missing.Amount, '');
+  assert.equal(missing['FX Note'], 'No FX rate available');
+});
+
+test('cross-currency matches are flagged beyond the tolerance', () => {
+  const eur = [{ Date: '01/05/2025', Amount: '100', Currency: 'EUR' }];
+  const close = describeFx(eur, [{ Date: '01/05/2025', Amount: '105.50', Currency: 'USD' }], table, 'USD', 0.01)!;
+  assert.equal(close.cross_currency, true);
+  assert.equal(close.flagged, false);
+  const far = describeFx(eur, [{ Date: '01/05/2025', Amount: '110', Currency: 'USD' }], table, 'USD', 0.01)!;
+  assert.equal(far.variance, 5);
+  assert.equal(far.flagged, true);
+});
@@ -0,0 +1,28 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+
+// Import this first in tests that touch the JSON stores: they then write to a
+// temp dir, which is removed when the test file finishes
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'reconcile-test-'));
+process.env.DATA_DIR = dataDir;
+process.on('exit', () => fs.rmSync(dataDir, { recursive: true, force: true }));
+
+/**
+ * An in-memory upload as multer hands it to the routes
+ */
+export function upload(originalname: string, content: string | Buffer): Express.Multer.File {
+  const buffer = Buffer.isBuffer(content) ? content : Buffer.from(content);
+  return { originalname, buffer, size: buffer.length, mimetype: 'text/csv' } as Express.Multer.File;
+}
+
+/**
+ * Poll until the condition holds, failing after the timeout
+ */
+export async function waitFor(condition: () => boolean, timeoutMs = 5000): Promise<void> {
+  const until = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > until) throw new Error('Timed out waiting for condition');
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+}
@@ -0,0 +1,46 @@
+import { upload, waitFor } from './helpers';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ValidationError } from '../config';
+import { cancelJob, getJob, resumeJob, submitJob } from '../jobs';
+import { getSession } from '../sessions';
+
+const fileA = 'Date,Description,Amount\n01/05/2025,Coffee,50\n01/06/2025,Office chairs,420\n';
+const fileB = 'Date,Description,Amount\n01/05/2025,Coffee,50\n01/07/2025,Chairs,420\n';
+
+const files = () => ({ fileA: [upload('a.csv', fileA)], fileB: [upload('b.csv', fileB)] });
+const settled = (id: string) => () => !['queued', 'running'].includes(getJob(id)!.status);
+
+test('a job runs in the background and saves its result as a session', async () => {
+  const job = submitJob(files(), { engine: 'rules', sessionName: 'January' });
+  assert.equal(job.status, 'queued');
+  assert.equal(job.rows_total, 2);
+  await waitFor(settled(job.id));
+
+  const done = getJob(job.id)!;
+  assert.equal(done.status, 'completed');
+  assert.equal(done.rows_scored, done.rows_to_score);
+  assert.equal(done.matches_found, 2);
+  const session = getSession(done.session_id!)!;
+  assert.equal(session.name, 'January');
+  assert.equal(session.result.matches.length, 2);
+});
+
+test('bad submissions fail before a job is created', () => {
+  assert.throws(() => submitJob({ fileA: [upload('a.csv', fileA)] }, {}), ValidationError);
+  assert.throws(() => submitJob(files(), { engine: 'nope' }), ValidationError);
+  assert.throws(() => submitJob(files(), { engine: 'rules', dateWindowDays: '-1' }), ValidationError);
+});
+
+test('a cancelled job can be resumed to completion', async () => {
+  const job = submitJob(files(), { engine: 'rules' });
+  assert.equal(cancelJob(job.id), true);
+  await waitFor(settled(job.id));
+  assert.equal(getJob(job.id)!.status, 'cancelled');
+  assert.equal(cancelJob(job.id), false);
+
+  resumeJob(getJob(job.id)!);
+  await waitFor(settled(job.id));
+  assert.equal(getJob(job.id)!.status, 'completed');
+  assert.throws(() => resumeJob(getJob(job.id)!), /Only failed or cancelled jobs/);
+});
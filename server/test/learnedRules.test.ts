@@ -0,0 +1,61 @@
+import './helpers';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { findLearnedMatches, isActive, learnFromMatch, learnedRulesFor } from '../learnedRules';
+
+const match = (id: string, a: Record<string, any>, b: Record<string, any>) => ({
+  id,
+  file_a_indices: [0],
+  file_b_indices: [0],
+  file_a_entry: a,
+  file_b_entry: b,
+});
+const amazon = match(
+  'A0-B0',
+  { Date: '01/05/2025', Description: 'AMZN MKTP US*2K3AB1', Amount: '25.00' },
+  { Date: '01/05/2025', Description: 'Amazon Marketplace order', Amount: '25.00' }
+);
+
+test('a rule needs two confirmations, and more confirmations than rejections', () => {
+  learnFromMatch('acme', 'session-1', amazon, 'confirmed');
+  const [rule] = learnedRulesFor('acme');
+  assert.equal(rule.kind, 'description_alias');
+  assert.equal(rule.file_a, 'amzn mktp us');
+  assert.equal(isActive(rule), false);
+
+  learnFromMatch('acme', 'session-2', amazon, 'confirmed');
+  assert.equal(isActive(learnedRulesFor('acme')[0]), true);
+
+  learnFromMatch('acme', 'session-3', amazon, 'rejected');
+  learnFromMatch('acme', 'session-4', amazon, 'rejected');
+  assert.equal(isActive(learnedRulesFor('acme')[0]), false);
+});
+
+test('deciding the same match again replaces its evidence', () => {
+  learnFromMatch('repeat', 'session-1', amazon, 'confirmed');
+  learnFromMatch('repeat', 'session-1', amazon, 'confirmed');
+  assert.equal(learnedRulesFor('repeat')[0].confirmations, 1);
+});
+
+test('runs without an account teach nothing by default', () => {
+  learnFromMatch(undefined, 'session-1', amazon, 'confirmed');
+  learnFromMatch('', 'session-2', amazon, 'confirmed');
+  assert.deepEqual(learnedRulesFor(), []);
+});
+
+test('the learned pass pairs same-amount rows an active rule links', () => {
+  learnFromMatch('shop', 'session-1', amazon, 'confirmed');
+  learnFromMatch('shop', 'session-2', amazon, 'confirmed');
+  const rowsA = [
+    { Date: '02/03/2025', Description: 'AMZN MKTP US*9ZZ', Amount: '40.00' },
+    { Date: '02/04/2025', Description: 'AMZN MKTP US*7QQ', Amount: '12.00' },
+  ];
+  const rowsB = [
+    { Date: '02/03/2025', Description: 'Amazon Marketplace order', Amount: '40.00' },
+    { Date: '02/04/2025', Description: 'Amazon Marketplace order', Amount: '13.00' },
+  ];
+  const open = { a: () => true, b: () => true };
+  const pairs = findLearnedMatches(rowsA, rowsB, learnedRulesFor('shop'), open, () => true, 7);
+  assert.deepEqual(pairs.map(p => [p.a, p.b]), [[0, 0]]);
+  assert.match(pairs[0].reason, /^Learned rule: description "AMZN MKTP US\*2K3AB1"/);
+});
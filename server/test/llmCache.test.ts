@@ -0,0 +1,63 @@
+import './helpers';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { LearnedHint, MatchCandidate, MatchResult, Matcher } from '../matchers';
+import { cacheKey, clearCache, getCacheEntry, listCacheEntries, withCache } from '../llmCache';
+
+const a = { Date: '01/05/2025', Description: 'Coffee', Amount: '50' };
+const candidate = (idx: number, description = 'Coffee'): MatchCandidate => ({ idx, b: { Date: '01/05/2025', Description: description, Amount: '50' } });
+
+// Answers that the first candidate matches, counting the calls that reach it
+function fakeMatcher(answer: (candidates: MatchCandidate[]) => MatchResult[] = cs => [
+  { file_b_index: cs[0].idx, match: true, confidence: 0.9, reason: 'Same row', provider: 'fake' },
+]) {
+  const matcher = {
+    name: 'fake',
+    calls: 0,
+    async matchRow(_a: Record<string, any>, candidates: MatchCandidate[]) {
+      matcher.calls++;
+      return answer(candidates);
+    },
+  };
+  return matcher satisfies Matcher;
+}
+
+const hint: LearnedHint = { kind: 'description_alias', file_a: 'coffee', file_b: 'cafe', lag_days: null, confirmations: 2, rejections: 0 };
+
+test('keys ignore column order but not the version or hints', () => {
+  const key = cacheKey('v1', a, [candidate(0)]);
+  assert.match(key, /^[0-9a-f]{64}$/);
+  assert.equal(cacheKey('v1', { Amount: '50', Description: 'Coffee', Date: '01/05/2025' }, [candidate(3)]), key);
+  assert.notEqual(cacheKey('v2', a, [candidate(0)]), key);
+  assert.notEqual(cacheKey('v1', a, [candidate(0)], [hint]), key);
+  assert.equal(getCacheEntry('../sessions'), null);
+});
+
+test('a repeated row is answered from the cache at its new index', async () => {
+  const inner = fakeMatcher();
+  const first = withCache(inner, 'hit-test');
+  assert.deepEqual((await first.matchRow(a, [candidate(4)])).map(r => r.file_b_index), [4]);
+
+  const second = withCache(inner, 'hit-test');
+  const results = await second.matchRow(a, [candidate(9)]);
+  assert.deepEqual(results, [{ file_b_index: 9, match: true, confidence: 0.9, reason: 'Same row', provider: 'fake' }]);
+  assert.equal(inner.calls, 1);
+  assert.deepEqual(first.cacheStats, { hits: 0, misses: 1 });
+  assert.deepEqual(second.cacheStats, { hits: 1, misses: 0 });
+});
+
+test('empty answers are not stored, so the row is asked again', async () => {
+  const inner = fakeMatcher(() => []);
+  const cached = withCache(inner, 'empty-test');
+  await cached.matchRow(a, [candidate(0, 'Tea')]);
+  await cached.matchRow(a, [candidate(0, 'Tea')]);
+  assert.equal(inner.calls, 2);
+  assert.equal(listCacheEntries().filter(e => e.version === 'empty-test').length, 0);
+});
+
+test('clearing by version leaves other versions cached', async () => {
+  await withCache(fakeMatcher(), 'keep').matchRow(a, [candidate(0, 'Bagel')]);
+  await withCache(fakeMatcher(), 'drop').matchRow(a, [candidate(0, 'Bagel')]);
+  assert.equal(clearCache('drop'), 1);
+  assert.deepEqual(listCacheEntries().filter(e => e.version === 'keep' || e.version === 'drop').map(e => e.version), ['keep']);
+});
@@ -0,0 +1,91 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createLlmMatcher } from '../matchers';
+import { LlmProvider } from '../providers';
+import { LlmOutputError, extractJson, parseMatchResults, repairPrompt } from '../llmOutput';
+
+const candidates = [
+  { idx: 3, b: { Date: '01/05/2025', Description: 'Coffee', Amount: '50' } },
+  { idx: 7, b: { Date: '01/09/2025', Description: 'Tea', Amount: '50' } },
+];
+
+const valid = [
+  { file_b_index: 3, match: true, confidence: 0.95, reason: 'Same day and amount' },
+  { file_b_index: 7, match: false, confidence: 0.1, reason: 'Different item' },
+];
+
+test('finds the JSON inside fences and prose', () => {
+  const json = JSON.stringify(valid);
+  assert.equal(extractJson(`Here you go:\n\`\`\`json\n${json}\n\`\`\`\nThanks`), json);
+  assert.equal(extractJson('{"reason": "closing ] inside a string"} trailing'), '{"reason": "closing ] inside a string"}');
+  assert.equal(extractJson('no json here'), null);
+  assert.equal(extractJson('[{"unfinished": true}'), null);
+});
+
+test('harmless deviations are repaired', () => {
+  const content = `{"results": [
+    {"file_b_index": "3", "match": "true", "confidence": "95", "reason": " Same day and amount "},
+    {"file_b_index": 7, "match": false, "confidence": 10, "reason": "Different item"},
+  ]}`;
+  assert.deepEqual(parseMatchResults(content, candidates), valid);
+});
+
+test('every problem in an invalid answer is reported', () => {
+  const content = JSON.stringify([
+    { file_b_index: 3, match: 'maybe', confidence: 1.5e3, reason: '' },
+    { file_b_index: 3, match: true, confidence: 0.9, reason: 'Again' },
+    { file_b_index: 12, match: true, confidence: 0.9, reason: 'Not offered' },
+  ]);
+  assert.throws(() => parseMatchResults(content, candidates), (error: unknown) => {
+    assert.ok(error instanceof LlmOutputError);
+    assert.equal(error.raw, content);
+    for (const problem of [
+      'item 0: match must be true or false',
+      'item 0: confidence must be a number from 0 to 1',
+      'item 0: reason is missing',
+      'item 1: file_b_index 3 appears more than once',
+      'item 2: file_b_index 12 is not one of the candidates',
+      'no entry for file_b_index 7',
+    ]) {
+      assert.ok(error.message.includes(problem), problem);
+    }
+    return true;
+  });
+  assert.throws(() => parseMatchResults('Sorry, I cannot help.', candidates), /contains no JSON/);
+  assert.throws(() => parseMatchResults('[{"file_b_index": 3,,}]', candidates), /not valid JSON/);
+});
+
+test('the repair prompt quotes the error and the start of the response', () => {
+  const error = new LlmOutputError('Invalid response: no entry for file_b_index 7.', 'x'.repeat(600));
+  const prompt = repairPrompt('Compare these rows.', error);
+  assert.ok(prompt.startsWith('Compare these rows.\n\nYour previous response could not be used. Invalid response: no entry for file_b_index 7.'));
+  assert.ok(prompt.includes(`${'x'.repeat(500)}…`));
+  assert.ok(!prompt.includes('x'.repeat(501)));
+});
+
+test('the matcher asks again once and gives up on a second invalid answer', async () => {
+  const fake = (answers: string[]) => {
+    const prompts: string[] = [];
+    const provider: LlmProvider = {
+      name: `fake-${answers.length}`,
+      model: 'fake-1',
+      configured: true,
+      async generate(prompt) {
+        prompts.push(prompt);
+        return answers[prompts.length - 1];
+      },
+    };
+    return { provider, prompts };
+  };
+  const a = { Date: '01/05/2025', Description: 'Coffee', Amount: '50' };
+
+  const repaired = fake(['[]', JSON.stringify(valid)]);
+  const results = await createLlmMatcher(repaired.provider).matchRow(a, candidates);
+  assert.deepEqual(results.map(r => [r.file_b_index, r.provider, r.model]), [[3, 'fake-2', 'fake-1'], [7, 'fake-2', 'fake-1']]);
+  assert.equal(repaired.prompts.length, 2);
+  assert.match(repaired.prompts[1], /Your previous response could not be used\. Invalid response: no entry for file_b_index 3, 7\./);
+
+  const broken = fake(['[]', 'still nothing', JSON.stringify(valid)]);
+  await assert.rejects(createLlmMatcher(broken.provider).matchRow(a, candidates), LlmOutputError);
+  assert.equal(broken.prompts.length, 2);
+});
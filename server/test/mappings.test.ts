@@ -0,0 +1,46 @@
+import { upload } from './helpers';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ParseError } from '../parse';
+import { deleteProfile, detectMapping, loadUpload, mapRows, parseImportOptions, saveProfile } from '../mappings';
+
+test('detects columns from common header spellings', () => {
+  assert.deepEqual(detectMapping(['Posting Date', 'Value Dt', 'Debit Amount', 'Credit Amount', 'Ccy', 'Cheque No', 'Payee', 'Narrative']), {
+    date: 'Posting Date',
+    valueDate: 'Value Dt',
+    debit: 'Debit Amount',
+    credit: 'Credit Amount',
+    currency: 'Ccy',
+    reference: 'Cheque No',
+    counterparty: 'Payee',
+    description: 'Narrative',
+  });
+});
+
+test('an explicit mapping wins and the rest is detected', () => {
+  const { rows, mapping } = mapRows(
+    [{ Booked: '01/05/2025', Total: '50', Amount: 'ignored', Memo: 'Coffee' }],
+    JSON.stringify({ date: 'Booked', amount: 'Total' })
+  );
+  assert.deepEqual(mapping, { date: 'Booked', amount: 'Total', description: 'Memo' });
+  assert.deepEqual(rows[0], { Date: '01/05/2025', Amount: '50', 'Amount (unmapped)': 'ignored', Description: 'Coffee' });
+});
+
+test('saved profiles keep valid columns and import settings', () => {
+  saveProfile({ name: 'bank', columns: { date: 'Booked', amount: 'Total', description: '' }, import: { headerRow: 3, dateOrder: 'DMY' } });
+  const { rows, mapping, import: info } = loadUpload(upload('bank.csv', 'Booked,Total\n05/01/2025,50\n'), 'bank', undefined);
+  assert.deepEqual(mapping, { date: 'Booked', amount: 'Total' });
+  assert.equal(rows[0].Date, '01/05/2025');
+  assert.equal(info.format, 'csv');
+  assert.throws(() => saveProfile({ name: 'auto', columns: {} }), /built-in/);
+  assert.equal(deleteProfile('bank'), true);
+  assert.equal(deleteProfile('bank'), false);
+});
+
+test('invalid import settings and unknown profiles fail the upload', () => {
+  assert.throws(() => parseImportOptions({ headerRow: 0 }), /Invalid header row/);
+  assert.throws(() => parseImportOptions({ range: 'A1:??' }), /Invalid range/);
+  assert.throws(() => parseImportOptions({ dateOrder: 'YMD' }), /Invalid date order/);
+  assert.throws(() => loadUpload(upload('a.csv', 'Date,Amount\n'), 'missing', undefined), (error: unknown) =>
+    error instanceof ParseError && /^a\.csv: Unknown mapping profile: missing/.test(error.message));
+});
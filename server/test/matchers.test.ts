@@ -0,0 +1,44 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getMatcher, ruleBasedMatcher, scorePair } from '../matchers';
+import { ValidationError } from '../config';
+
+const coffee = { Date: '01/05/2025', Description: 'Coffee shop', Amount: '50.00' };
+
+test('rules engine returns one result per candidate in the engine shape', async () => {
+  const results = await ruleBasedMatcher.matchRow(coffee, [
+    { b: { Date: '01/05/2025', Description: 'Coffee shop', Amount: '50.00' }, idx: 3 },
+    { b: { Date: '01/20/2025', Description: 'Rent', Amount: '900.00' }, idx: 7 },
+  ]);
+  assert.deepEqual(results.map(r => r.file_b_index), [3, 7]);
+  for (const r of results) {
+    assert.equal(typeof r.match, 'boolean');
+    assert.equal(typeof r.confidence, 'number');
+    assert.equal(typeof r.reason, 'string');
+  }
+  assert.equal(results[0].match, true);
+  assert.equal(results[1].match, false);
+});
+
+test('a shared reference with the same amount and date is an exact match', () => {
+  const result = scorePair(
+    { ...coffee, Reference: 'INV-1' },
+    { Date: '01/05/2025', Description: 'Card payment', Amount: '50.00', Reference: 'INV-1' }
+  );
+  assert.equal(result.confidence, 1);
+  assert.match(result.reason, /^Exact match/);
+});
+
+test('confidence falls as amounts and dates drift apart', () => {
+  const same = scorePair(coffee, coffee).confidence;
+  const laterDate = scorePair(coffee, { ...coffee, Date: '01/08/2025' }).confidence;
+  const otherAmount = scorePair(coffee, { ...coffee, Amount: '51.00' }).confidence;
+  assert.ok(laterDate < same);
+  assert.ok(otherAmount < same);
+  assert.equal(scorePair(coffee, { ...coffee, Amount: '80.00' }).match, false);
+});
+
+test('unknown engines are rejected as a validation error', () => {
+  assert.equal(getMatcher('rules'), ruleBasedMatcher);
+  assert.throws(() => getMatcher('nope'), ValidationError);
+});
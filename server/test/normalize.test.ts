@@ -0,0 +1,48 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getRowAmount, inferDateOrder, normalizeDateValue, parseAmount, withOppositeSign } from '../normalize';
+
+test('parseAmount reads grouping, decimal commas and negative notations', () => {
+  assert.equal(parseAmount('1,250.00'), 1250);
+  assert.equal(parseAmount('1.250,00'), 1250);
+  assert.equal(parseAmount("1'250.50"), 1250.5);
+  assert.equal(parseAmount('12,50'), 12.5);
+  assert.equal(parseAmount('1,250'), 1250);
+  assert.equal(parseAmount('(1,250.00)'), -1250);
+  assert.equal(parseAmount('1250.00-'), -1250);
+  assert.equal(parseAmount('50.00 DR'), -50);
+  assert.equal(parseAmount('50.00 CR'), 50);
+  assert.equal(parseAmount('€ -12.30'), -12.3);
+  assert.ok(isNaN(parseAmount('n/a')));
+});
+
+test('getRowAmount signs separate debit and credit columns', () => {
+  assert.equal(getRowAmount({ 'Debit Amount': '40.00', 'Credit Amount': '' }), -40);
+  assert.equal(getRowAmount({ 'Debit Amount': '', 'Credit Amount': '40.00' }), 40);
+  assert.equal(withOppositeSign({ 'Debit Amount': '40.00' }).Amount, 40);
+});
+
+test('normalizeDateValue reads common formats into MM/DD/YYYY', () => {
+  assert.equal(normalizeDateValue('2025-03-05'), '03/05/2025');
+  assert.equal(normalizeDateValue('2025-03-05T14:22:01Z'), '03/05/2025');
+  assert.equal(normalizeDateValue('20250305'), '03/05/2025');
+  assert.equal(normalizeDateValue('03/05/25'), '03/05/2025');
+  assert.equal(normalizeDateValue('05/03/2025', 'DMY'), '03/05/2025');
+  assert.equal(normalizeDateValue('5. März 2025'), '03/05/2025');
+  assert.equal(normalizeDateValue('Wed, March 5th, 2025'), '03/05/2025');
+  assert.equal(normalizeDateValue('31/02/2025', 'DMY'), '31/02/2025');
+});
+
+test('Excel serials: any numeric cell, but only plausible text', () => {
+  assert.equal(normalizeDateValue(45721), '03/05/2025');
+  assert.equal(normalizeDateValue('45721'), '03/05/2025');
+  // A bare year or a count in a text cell is not a date
+  assert.equal(normalizeDateValue('2025'), '2025');
+  assert.equal(normalizeDateValue('100'), '100');
+});
+
+test('inferDateOrder uses only the values that can be read one way', () => {
+  assert.equal(inferDateOrder(['01/02/2025', '25/02/2025']), 'DMY');
+  assert.equal(inferDateOrder(['01/02/2025', '02/25/2025']), 'MDY');
+  assert.equal(inferDateOrder(['01/02/2025']), null);
+});
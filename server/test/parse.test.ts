@@ -0,0 +1,30 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ParseError, readFile } from '../parse';
+
+test('CSV: detects the delimiter and keys rows by the header', () => {
+  const parsed = readFile(Buffer.from('Date;Description;Amount\n01/05/2025;Coffee;"1.234,50"\n01/06/2025;Rent;900\n'));
+  assert.equal(parsed.format, 'csv');
+  assert.equal(parsed.delimiter, ';');
+  assert.deepEqual(parsed.rows, [
+    { Date: '01/05/2025', Description: 'Coffee', Amount: '1.234,50' },
+    { Date: '01/06/2025', Description: 'Rent', Amount: '900' },
+  ]);
+});
+
+test('CSV: decodes Windows-1252 when the bytes are not UTF-8', () => {
+  const parsed = readFile(Buffer.concat([Buffer.from('Description,Amount\nCaf'), Buffer.from([0xe9]), Buffer.from(' ', 'latin1'), Buffer.from([0x80]), Buffer.from(',5\n')]));
+  assert.equal(parsed.encoding, 'windows-1252');
+  assert.equal(parsed.rows[0].Description, 'Café €');
+});
+
+test('CSV: reports malformed lines and keeps reading', () => {
+  const parsed = readFile(Buffer.from('Date,Description,Amount\n01/05/2025,Coffee,5,extra\n01/06/2025,Rent\n01/07/2025,Tea,3\n'));
+  assert.deepEqual(parsed.rows.map(r => r.Description), ['Rent', 'Tea']);
+  assert.deepEqual(parsed.rows[0].Amount, '');
+  assert.deepEqual(parsed.row_issues.map(i => [i.line, i.skipped]), [[2, true], [3, false]]);
+});
+
+test('CSV: an empty upload is a parse error', () => {
+  assert.throws(() => readFile(Buffer.from('')), ParseError);
+});
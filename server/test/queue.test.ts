@@ -0,0 +1,60 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getEventListeners } from 'events';
+import { createTaskQueue, isRetryableError, withRetry } from '../queue';
+
+test('never runs more tasks at once than the concurrency', async () => {
+  const queue = createTaskQueue({ concurrency: 2, ratePerMinute: 0 });
+  let active = 0;
+  let peak = 0;
+  const task = async (n: number) => {
+    active++;
+    peak = Math.max(peak, active);
+    await new Promise(resolve => setTimeout(resolve, 5));
+    active--;
+    return n;
+  };
+  const results = await Promise.all([1, 2, 3, 4, 5].map(n => queue.run(() => task(n))));
+  assert.deepEqual(results, [1, 2, 3, 4, 5]);
+  assert.equal(peak, 2);
+});
+
+test('waiting tasks are dropped when their signal aborts', async () => {
+  const queue = createTaskQueue({ concurrency: 1, ratePerMinute: 0 });
+  const controller = new AbortController();
+  let release!: () => void;
+  const first = queue.run(() => new Promise<string>(resolve => { release = () => resolve('first'); }));
+  let ran = false;
+  const second = queue.run(async () => { ran = true; }, controller.signal);
+  controller.abort(new Error('Cancelled'));
+  await assert.rejects(second, /Cancelled/);
+  release();
+  assert.equal(await first, 'first');
+  assert.equal(ran, false);
+});
+
+test('tasks leave no abort listener on the shared signal', async () => {
+  const queue = createTaskQueue({ concurrency: 3, ratePerMinute: 0 });
+  const controller = new AbortController();
+  await Promise.all(Array.from({ length: 50 }, (_, n) => queue.run(async () => n, controller.signal)));
+  assert.equal(getEventListeners(controller.signal, 'abort').length, 0);
+});
+
+test('withRetry retries rate limits and server errors only', async () => {
+  let calls = 0;
+  const flaky = async () => {
+    if (++calls < 3) throw Object.assign(new Error('Too many requests'), { status: 429 });
+    return 'ok';
+  };
+  assert.equal(await withRetry(flaky, { retries: 3, baseDelayMs: 1 }), 'ok');
+  assert.equal(calls, 3);
+
+  calls = 0;
+  const broken = async () => {
+    calls++;
+    throw Object.assign(new Error('Bad request'), { status: 400 });
+  };
+  await assert.rejects(withRetry(broken, { retries: 3, baseDelayMs: 1 }), /Bad request/);
+  assert.equal(calls, 1);
+  assert.equal(isRetryableError(new Error('503 Service Unavailable')), true);
+});
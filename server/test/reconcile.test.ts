@@ -0,0 +1,77 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { reconcile } from '../reconcile';
+import { getMatcher } from '../matchers';
+
+const row = (date: string, description: string, amount: string, extra: Record<string, any> = {}) =>
+  ({ Date: date, Description: description, Amount: amount, ...extra });
+
+const run = (a: Record<string, any>[], b: Record<string, any>[], options = {}) =>
+  reconcile(a, b, getMatcher('rules'), options);
+
+test('each pass is recorded on its matches', async () => {
+  const result = await run(
+    [row('01/05/2025', 'Coffee', '50', { Reference: 'R1' }), row('01/06/2025', 'Supplier invoice', '300')],
+    [row('01/05/2025', 'Coffee', '50', { Reference: 'R1' }), row('01/06/2025', 'Supplier part 1', '100'), row('01/06/2025', 'Supplier part 2', '200')]
+  );
+  assert.deepEqual(
+    result.matches.map(m => [m.pass, m.file_a_indices, [...m.file_b_indices].sort()]),
+    [['exact', [0], [0]], ['split', [1], [1, 2]]]
+  );
+  assert.deepEqual(result.unmatched_file_a_entries, []);
+  assert.deepEqual(result.unmatched_file_b_entries, []);
+});
+
+test('a row whose best candidate another pass consumed is candidate_taken', async () => {
+  const result = await run(
+    [row('01/05/2025', 'Coffee', '50'), row('01/05/2025', 'Coffee', '50'), row('01/06/2025', 'Supplier invoice', '300')],
+    [row('01/05/2025', 'Coffee', '50'), row('01/06/2025', 'Supplier part 1', '100'), row('01/06/2025', 'Supplier part 2', '200')]
+  );
+  const exception = result.unmatched_file_a_exceptions[1];
+  assert.equal(exception.reason, 'candidate_taken');
+  assert.deepEqual(exception.taken_by, { index: 0, match_id: 'A0-B0', pass: 'exact', partners: [0] });
+  // The split rows are matched too, so nothing is left to offer as a near miss
+  assert.equal(exception.near_miss, null);
+});
+
+test('near misses only come from rows that are still unmatched', async () => {
+  const result = await run(
+    [row('01/05/2025', 'Coffee', '50'), row('01/05/2025', 'Coffee', '50')],
+    [row('01/05/2025', 'Coffee', '50'), row('01/09/2025', 'Bakery', '47')]
+  );
+  const exception = result.unmatched_file_a_exceptions[1];
+  assert.equal(exception.reason, 'candidate_taken');
+  assert.equal(exception.near_miss?.index, 1);
+});
+
+test('unmatched rows are classified with their age', async () => {
+  const result = await run(
+    [
+      row('01/05/2025', 'Coffee', '50'),
+      row('01/06/2025', 'Office chairs', '420'),
+      row('not a date', 'Broken', '10'),
+      row('01/20/2025', 'Rent', '9000'),
+    ],
+    [row('01/07/2025', 'Stationery', '405')],
+    { statementEndDate: '01/31/2025' }
+  );
+  const exceptions = result.unmatched_file_a_exceptions;
+  assert.equal(exceptions[0].reason, 'below_threshold');
+  assert.equal(exceptions[0].age_days, 26);
+  assert.equal(exceptions[1].reason, 'below_threshold');
+  assert.equal(exceptions[1].near_miss?.index, 0);
+  assert.equal(exceptions[2].reason, 'parse_error');
+  assert.equal(exceptions[2].age_days, null);
+  assert.equal(exceptions[3].reason, 'no_candidates');
+});
+
+test('rows kept apart only by currency are a currency mismatch', async () => {
+  const result = await run(
+    [row('01/05/2025', 'Hotel', '200', { Currency: 'EUR' })],
+    [row('01/05/2025', 'Hotel', '200', { Currency: 'USD' })],
+    { currencyPolicy: 'same' }
+  );
+  assert.equal(result.matches.length, 0);
+  assert.equal(result.unmatched_file_a_exceptions[0].reason, 'currency_mismatch');
+  assert.equal(result.unmatched_file_a_exceptions[0].near_miss?.index, 0);
+});
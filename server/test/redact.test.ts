@@ -0,0 +1,55 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { compareRedactedFields, createRedactor } from '../redact';
+
+const TOKEN = (kind: string) => new RegExp(`^\\[${kind}-[0-9a-f]{8}\\]$`);
+
+test('IBANs and Luhn-valid card numbers in free text are tokenized', () => {
+  const { redactRow, report } = createRedactor();
+  const row = redactRow({
+    Description: 'SEPA DE89 3704 0044 0532 0130 00 card 4111 1111 1111 1111 ref 4111 1111 1111 1112',
+    Amount: '50',
+  });
+  const [, iban, card] = row.Description.match(/^SEPA (\S+) card (\S+) ref 4111 1111 1111 1112$/)!;
+  assert.match(iban, TOKEN('IBAN'));
+  assert.match(card, TOKEN('CARD'));
+  assert.equal(row.Amount, '50');
+  assert.deepEqual(report().patterns, { IBAN: 1, CARD: 1 });
+});
+
+test('the same value gets the same token in both files', () => {
+  const { redactRow } = createRedactor();
+  const a = redactRow({ IBAN: 'DE89370400440532013000' });
+  const b = redactRow({ Memo: 'From DE89 3704 0044 0532 0130 00' });
+  assert.match(a.IBAN, TOKEN('IBAN'));
+  assert.equal(b.Memo, `From ${a.IBAN}`);
+});
+
+test('name columns, their values in descriptions and titled names are redacted', () => {
+  const { redactRow, report } = createRedactor();
+  const row = redactRow({ Payee: 'Anna Weber', Description: 'Refund to anna  weber per Mr J Smith', 'Account Currency': 'EUR' });
+  assert.match(row.Payee, TOKEN('NAME'));
+  const [, known, titled] = row.Description.match(/^Refund to (\S+) per (\S+)$/)!;
+  assert.equal(known, row.Payee);
+  assert.match(titled, TOKEN('NAME'));
+  assert.equal(row['Account Currency'], 'EUR');
+  assert.deepEqual(report().fields, ['Payee']);
+  assert.equal(report().patterns.NAME, 2);
+});
+
+test('labelled account numbers are redacted, invoice references and dates are not', () => {
+  const { redactRow } = createRedactor();
+  const row = redactRow({ Description: 'A/C No. 1234-5678 INV-2025-000123 value 20250105 ref 123456789012' });
+  assert.match(row.Description, /^A\/C No\. \[ACCOUNT-[0-9a-f]{8}\] INV-2025-000123 value 20250105 ref 123456789012$/);
+});
+
+test('redacted columns are compared on the server', () => {
+  const checks = compareRedactedFields({ Payee: 'Anna Weber', IBAN: 'DE89 3704' }, [
+    { idx: 0, b: { Payee: 'ANNA WEBER', IBAN: 'DE89 9999' } },
+    { idx: 1, b: { Payee: 'Weber GmbH' } },
+    { idx: 2, b: { Amount: '50' } },
+  ]);
+  assert.equal(checks.get(0), 'Payee: equal; IBAN: different');
+  assert.equal(checks.get(1), 'Payee: similar (word overlap 0.50)');
+  assert.equal(checks.has(2), false);
+});
@@ -0,0 +1,90 @@
+import './helpers';
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { reconcile } from '../reconcile';
+import { getMatcher } from '../matchers';
+import { createManualMatch, createSession, getSession, listSessions, recordDecisions, unmatch } from '../sessions';
+
+const rowsA = [
+  { Date: '01/05/2025', Description: 'Coffee', Amount: '50' },
+  { Date: '01/06/2025', Description: 'Office chairs', Amount: '420' },
+  { Date: '01/20/2025', Description: 'Rent', Amount: '9000' },
+];
+const rowsB = [
+  { Date: '01/05/2025', Description: 'Coffee', Amount: '50' },
+  { Date: '01/09/2025', Description: 'Furniture store', Amount: '418' },
+];
+
+async function newSession() {
+  const result = await reconcile(rowsA, rowsB, getMatcher('rules'));
+  return createSession(result, 'ledger.csv', 'bank.csv');
+}
+
+test('a run is saved as a session and listed with its counts', async () => {
+  const session = await newSession();
+  assert.equal(session.name, 'ledger.csv vs bank.csv');
+  assert.deepEqual(getSession(session.id)?.result.matches.map((m: { id: string }) => m.id), ['A0-B0']);
+  const summary = listSessions().find(s => s.id === session.id)!;
+  assert.deepEqual([summary.matched, summary.unmatched_a, summary.unmatched_b, summary.reviewed], [1, 2, 1, 0]);
+  assert.equal(getSession('not-an-id'), null);
+});
+
+test('decisions are saved per match and logged in order', async () => {
+  const session = await newSession();
+  const [match] = session.result.matches;
+  recordDecisions(session, [{ match_id: match.id, action: 'rejected', reviewer: 'sam' }]);
+  recordDecisions(session, [{ match_id: match.id, action: 'confirmed', note: 'Checked the receipt' }]);
+
+  const saved = getSession(session.id)!;
+  assert.equal(saved.decisions[match.id].action, 'confirmed');
+  assert.equal(saved.decisions[match.id].note, 'Checked the receipt');
+  assert.deepEqual(saved.review_log.map(e => [e.action, e.match_id]), [['rejected', match.id], ['confirmed', match.id]]);
+});
+
+test('decisions on unknown matches or with unknown actions are refused whole', async () => {
+  const session = await newSession();
+  const [match] = session.result.matches;
+  assert.throws(() => recordDecisions(session, [{ match_id: 'A9-B9', action: 'confirmed' }]), /Unknown match id/);
+  assert.throws(
+    () => recordDecisions(session, [
+      { match_id: match.id, action: 'confirmed' },
+      { match_id: match.id, action: 'maybe' as never },
+    ]),
+    /Invalid action/
+  );
+  assert.deepEqual(getSession(session.id)!.decisions, {});
+});
+
+test('a manual match takes its rows off the unmatched lists', async () => {
+  const session = await newSession();
+  assert.throws(() => createManualMatch(session, [1], [1], ' '), /note is required/);
+  assert.throws(() => createManualMatch(session, [0], [1], 'Same invoice'), /File A row 0 is not unmatched/);
+
+  createManualMatch(session, [1], [1], 'Same invoice, discount taken', 'sam');
+  const { result, review_log } = getSession(session.id)!;
+  const manual = result.matches.find((m: { id: string }) => m.id === 'A1-B1');
+  assert.equal(manual.manual, true);
+  assert.equal(manual.match_reason, 'Manual match: Same invoice, discount taken');
+  assert.equal(manual.file_a_entry.Description, 'Office chairs');
+  assert.deepEqual(result.unmatched_file_a_indices, [2]);
+  assert.deepEqual(result.unmatched_file_b_indices, []);
+  assert.equal(result.unmatched_file_a_exceptions[1], undefined);
+  assert.deepEqual(review_log.map(e => [e.action, e.match_id, e.reviewer]), [['matched', 'A1-B1', 'sam']]);
+});
+
+test('unmatching returns the rows in index order with a reviewer_unmatched reason', async () => {
+  const session = await newSession();
+  recordDecisions(session, [{ match_id: 'A0-B0', action: 'confirmed' }]);
+  assert.throws(() => unmatch(session, 'A0-B0', ''), /note is required/);
+  assert.throws(() => unmatch(session, 'A7-B7', 'Wrong'), /Unknown match id/);
+
+  unmatch(session, 'A0-B0', 'Different day');
+  const { result, decisions } = getSession(session.id)!;
+  assert.deepEqual(result.matches, []);
+  assert.deepEqual(result.unmatched_file_a_indices, [0, 1, 2]);
+  assert.deepEqual(result.unmatched_file_a_entries.map((r: { Description: string }) => r.Description), ['Coffee', 'Office chairs', 'Rent']);
+  assert.deepEqual(result.unmatched_file_b_indices, [0, 1]);
+  assert.equal(result.unmatched_file_a_exceptions[0].reason, 'reviewer_unmatched');
+  assert.match(result.unmatched_file_a_exceptions[0].detail, /Different day$/);
+  assert.deepEqual(decisions, {});
+});
@@ -0,0 +1,43 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { findSplitGroup } from '../splits';
+
+const row = (date: string, amount: number, description = 'Payment') => ({ Date: date, Description: description, Amount: amount });
+const pool = (rows: Record<string, any>[]) => rows.map((r, idx) => ({ row: r, idx }));
+
+test('finds the parts that sum to the target', () => {
+  const group = findSplitGroup(row('01/10/2025', 300), pool([
+    row('01/10/2025', 100),
+    row('01/11/2025', 75),
+    row('01/11/2025', 200),
+  ]));
+  assert.deepEqual(group?.indices.sort(), [0, 2]);
+  assert.match(group!.reason, /^2 entries sum to 300.00/);
+});
+
+test('prefers the group with the closest dates', () => {
+  const group = findSplitGroup(row('01/10/2025', 300), pool([
+    row('01/16/2025', 100),
+    row('01/16/2025', 200),
+    row('01/10/2025', 150),
+    row('01/11/2025', 150),
+  ]));
+  assert.deepEqual(group?.indices.sort(), [2, 3]);
+});
+
+test('ignores rows with the other sign, outside the window or not smaller', () => {
+  assert.equal(findSplitGroup(row('01/10/2025', 300), pool([
+    row('01/10/2025', -100),
+    row('01/10/2025', 400),
+    row('02/20/2025', 100),
+    row('01/10/2025', 300),
+  ])), null);
+  assert.equal(findSplitGroup(row('01/10/2025', 0), pool([row('01/10/2025', 0)])), null);
+});
+
+test('a large pool with no exact sum returns promptly', () => {
+  const rows = Array.from({ length: 2000 }, (_, k) => row('01/10/2025', 10 + (k % 40) * 7.13, `Item ${k}`));
+  const started = Date.now();
+  assert.equal(findSplitGroup(row('01/10/2025', 1000.01), pool(rows)), null);
+  assert.ok(Date.now() - started < 2000);
+});
@@ -0,0 +1,92 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFile } from '../parse';
+import { parseStatement } from '../statements';
+
+test('OFX: one row per transaction with the statement currency and account', () => {
+  const ofx = `OFXHEADER:100
+<OFX><BANKMSGSRSV1><STMTTRNRS><STMTRS><CURDEF>EUR
+<BANKACCTFROM><ACCTID>12345</BANKACCTFROM>
+<BANKTRANLIST>
+<STMTTRN><TRNTYPE>DEBIT<DTPOSTED>20250105120000<TRNAMT>-50.00<FITID>F1<NAME>Coffee shop</STMTTRN>
+<STMTTRN><TRNTYPE>CREDIT<DTPOSTED>20250106<TRNAMT>900.00<FITID>F2<NAME>Client<MEMO>Invoice 7</STMTTRN>
+</BANKTRANLIST></STMTRS></STMTTRNRS></BANKMSGSRSV1></OFX>`;
+  const parsed = readFile(Buffer.from(ofx));
+  assert.equal(parsed.format, 'ofx');
+  assert.deepEqual(parsed.rows.map(r => [r.Date, r.Amount, r.Currency, r.Description, r.Account]), [
+    ['2025-01-05', -50, 'EUR', 'Coffee shop', '12345'],
+    ['2025-01-06', 900, 'EUR', 'Invoice 7', '12345'],
+  ]);
+});
+
+test('MT940: signs debits and reads :86: details', () => {
+  const mt940 = `:20:STMT1
+:25:DE89370400440532013000
+:28C:1/1
+:60F:C250101EUR1000,00
+:61:2501050105D50,00NTRFINV-1//BANK1
+:86:/NAME/Coffee shop/REMI/Card payment
+:61:250106C900,00NTRFNONREF
+:86:Salary
+:62F:C250106EUR1850,00
+`;
+  const parsed = readFile(Buffer.from(mt940));
+  assert.equal(parsed.format, 'mt940');
+  assert.deepEqual(parsed.rows.map(r => [r.Date, r.Amount, r.Currency, r.Reference, r.Counterparty, r.Description]), [
+    ['2025-01-05', -50, 'EUR', 'INV-1', 'Coffee shop', 'Card payment'],
+    ['2025-01-06', 900, 'EUR', undefined, undefined, 'Salary'],
+  ]);
+});
+
+test('camt.053: entry amounts, direction and remittance', () => {
+  const camt = `<?xml version="1.0"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02"><BkToCstmrStmt><Stmt>
+<Acct><Id><IBAN>DE89370400440532013000</IBAN></Id><Ccy>EUR</Ccy></Acct>
+<Ntry><Amt Ccy="EUR">50.00</Amt><CdtDbtInd>DBIT</CdtDbtInd><BookgDt><Dt>2025-01-05</Dt></BookgDt>
+<NtryDtls><TxDtls><Refs><EndToEndId>E2E-1</EndToEndId></Refs>
+<RltdPties><Cdtr><Nm>Coffee shop</Nm></Cdtr></RltdPties><RmtInf><Ustrd>Card payment</Ustrd></RmtInf></TxDtls></NtryDtls></Ntry>
+</Stmt></BkToCstmrStmt></Document>`;
+  const parsed = readFile(Buffer.from(camt));
+  assert.equal(parsed.format, 'camt053');
+  assert.deepEqual(parsed.rows, [{
+    Date: '2025-01-05',
+    Amount: -50,
+    Currency: 'EUR',
+    Reference: 'E2E-1',
+    Counterparty: 'Coffee shop',
+    Description: 'Card payment',
+    Account: 'DE89370400440532013000',
+  }]);
+});
+
+test('camt.053: an entry in another currency keeps its own Ccy', () => {
+  const camt = `<?xml version="1.0"?>
+<Document xmlns="urn:iso:std:iso:20022:tech:xsd:camt.053.001.02"><BkToCstmrStmt><Stmt>
+<Acct><Id><Othr><Id>ACC-1</Id></Othr></Id><Ccy>EUR</Ccy></Acct>
+<Ntry><Amt Ccy="USD">12.50</Amt><CdtDbtInd>CRDT</CdtDbtInd><BookgDt><Dt>2025-01-05</Dt></BookgDt></Ntry>
+<Ntry><Amt>40.00</Amt><CdtDbtInd>DBIT</CdtDbtInd><BookgDt><Dt>2025-01-06</Dt></BookgDt></Ntry>
+</Stmt></BkToCstmrStmt></Document>`;
+  assert.deepEqual(parseStatement(camt, 'camt053').map(r => [r.Amount, r.Currency, r.Account]), [
+    [12.5, 'USD', 'ACC-1'],
+    [-40, 'EUR', 'ACC-1'],
+  ]);
+});
+
+test('BAI2: implied decimals and debit type codes', () => {
+  const bai2 = `01,BANK,CUST,250106,0800,1,,,2/
+02,CUST,BANK,1,250105,,USD,2/
+03,12345,USD/
+16,475,5000,,BR1,CR1,Coffee shop/
+16,195,90000,,BR2,,Client payment/
+88,invoice 7/
+49,95000,4/
+98,95000,1,6/
+99,95000,1,8/
+`;
+  const parsed = readFile(Buffer.from(bai2));
+  assert.equal(parsed.format, 'bai2');
+  assert.deepEqual(parsed.rows.map(r => [r.Date, r.Amount, r.Reference, r.Description]), [
+    ['2025-01-05', -50, 'CR1', 'Coffee shop'],
+    ['2025-01-05', 900, undefined, 'Client payment invoice 7'],
+  ]);
+});